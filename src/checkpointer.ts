@@ -0,0 +1,331 @@
+/**
+ * @module checkpointer
+ * @file This module provides a LangGraph checkpointer that keeps checkpoints on disk, so agent runs can be resumed after a crash.
+ */
+
+import {
+    BaseCheckpointSaver,
+    Checkpoint,
+    CheckpointMetadata,
+    CheckpointTuple,
+    MemorySaver,
+} from "@langchain/langgraph";
+import { RunnableConfig } from "@langchain/core/runnables";
+
+import * as fs from "fs";
+import * as path from "path";
+
+const CHECKPOINT_FILE_VERSION = 1;
+const DEFAULT_KEPT_CHECKPOINTS = 5;
+
+export interface AgentCheckpointOptions {
+    checkpointer: BaseCheckpointSaver;
+    // The thread to save checkpoints under, or to resume from when it already has checkpoints
+    threadId?: string;
+}
+
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1][number];
+type CheckpointListOptions = Parameters<MemorySaver["list"]>[1];
+
+interface CheckpointFile {
+    version: number;
+    // Checkpoint namespace -> checkpoint ID -> [checkpoint, metadata, parent checkpoint ID], base64 encoded
+    checkpoints: Record<
+        string,
+        Record<string, [string, string, string | null]>
+    >;
+    // Writes key -> write key -> [task ID, channel, value], base64 encoded
+    writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+/**
+ * A checkpointer that stores every thread in its own JSON file, so agent graphs can be resumed from the last
+ * completed node by a later process. Only the latest checkpoints of each thread are kept, as resuming only needs
+ * the last one.
+ */
+export class FileCheckpointer extends MemorySaver {
+    readonly directory: string;
+
+    private keptCheckpoints: number;
+    private loadedThreads = new Set<string>();
+    // Saves of a thread are queued, as LangGraph stores checkpoints and writes concurrently
+    private pendingSaves = new Map<string, Promise<void>>();
+
+    /**
+     * @param {string} [directory] - The directory to store checkpoints in.
+     * @param {number} [keptCheckpoints] - How many of the latest checkpoints to keep per thread.
+     */
+    constructor(
+        directory: string = path.join(process.cwd(), "checkpoints"),
+        keptCheckpoints: number = DEFAULT_KEPT_CHECKPOINTS
+    ) {
+        super();
+
+        this.directory = path.resolve(directory);
+        this.keptCheckpoints = keptCheckpoints;
+    }
+
+    /**
+     * Checks whether a thread has any checkpoints.
+     * @param {string} threadId - The ID of the thread.
+     * @returns {boolean} Whether the thread has been checkpointed.
+     */
+    hasThread(threadId: string): boolean {
+        return (
+            this.storage[threadId] !== undefined ||
+            fs.existsSync(this.getThreadPath(threadId))
+        );
+    }
+
+    /**
+     * Deletes every checkpoint of a thread.
+     * @param {string} threadId - The ID of the thread.
+     * @returns {Promise<void>} A promise that resolves when the checkpoints are deleted.
+     */
+    async deleteThread(threadId: string): Promise<void> {
+        delete this.storage[threadId];
+        for (const key of this.getThreadWriteKeys(threadId)) {
+            delete this.writes[key];
+        }
+        this.loadedThreads.delete(threadId);
+
+        await fs.promises.rm(this.getThreadPath(threadId), { force: true });
+    }
+
+    /**
+     * Loads the state a run keeps outside of its graphs, such as the workspace it works in.
+     * @param {string} threadId - The ID of the thread the run belongs to.
+     * @returns {T | null} The saved state, or null if the run has not saved any.
+     */
+    loadRunState<T>(threadId: string): T | null {
+        const runStatePath = this.getRunStatePath(threadId);
+        if (!fs.existsSync(runStatePath)) {
+            return null;
+        }
+
+        return JSON.parse(fs.readFileSync(runStatePath, "utf-8")) as T;
+    }
+
+    /**
+     * Saves the state a run keeps outside of its graphs, replacing the state saved before.
+     * @param {string} threadId - The ID of the thread the run belongs to.
+     * @param {T} state - The state to save, which must be serialisable to JSON.
+     * @returns {Promise<void>} A promise that resolves when the state is saved.
+     */
+    async saveRunState<T>(threadId: string, state: T): Promise<void> {
+        const runStatePath = this.getRunStatePath(threadId);
+
+        await fs.promises.mkdir(path.dirname(runStatePath), {
+            recursive: true,
+        });
+        await fs.promises.writeFile(
+            `${runStatePath}.tmp`,
+            JSON.stringify(state, null, 4),
+            "utf-8"
+        );
+        await fs.promises.rename(`${runStatePath}.tmp`, runStatePath);
+    }
+
+    async getTuple(config: RunnableConfig): Promise<CheckpointTuple> {
+        this.loadThread(config.configurable?.thread_id);
+
+        return super.getTuple(config);
+    }
+
+    async *list(
+        config: RunnableConfig,
+        options?: CheckpointListOptions
+    ): AsyncGenerator<CheckpointTuple> {
+        const threadId = config.configurable?.thread_id;
+        if (threadId) {
+            this.loadThread(threadId);
+        } else if (fs.existsSync(this.directory)) {
+            for (const file of fs.readdirSync(this.directory)) {
+                if (file.endsWith(".json")) {
+                    this.loadThread(decodeURIComponent(file.slice(0, -5)));
+                }
+            }
+        }
+
+        yield* super.list(config, options);
+    }
+
+    async put(
+        config: RunnableConfig,
+        checkpoint: Checkpoint,
+        metadata: CheckpointMetadata
+    ): Promise<RunnableConfig> {
+        const threadId = config.configurable?.thread_id;
+        this.loadThread(threadId);
+
+        const savedConfig = await super.put(config, checkpoint, metadata);
+        await this.saveThread(threadId);
+
+        return savedConfig;
+    }
+
+    async putWrites(
+        config: RunnableConfig,
+        writes: PendingWrite[],
+        taskId: string
+    ): Promise<void> {
+        const threadId = config.configurable?.thread_id;
+        this.loadThread(threadId);
+
+        await super.putWrites(config, writes, taskId);
+        await this.saveThread(threadId);
+    }
+
+    private getThreadPath(threadId: string): string {
+        return path.join(
+            this.directory,
+            `${encodeURIComponent(threadId)}.json`
+        );
+    }
+
+    private getRunStatePath(threadId: string): string {
+        return path.join(
+            this.directory,
+            "runs",
+            `${encodeURIComponent(threadId)}.json`
+        );
+    }
+
+    // Writes are keyed by a JSON array starting with the thread ID
+    private getThreadWriteKeys(threadId: string): string[] {
+        return Object.keys(this.writes).filter(
+            (key) => JSON.parse(key)[0] === threadId
+        );
+    }
+
+    private loadThread(threadId: string | undefined): void {
+        if (!threadId || this.loadedThreads.has(threadId)) {
+            return;
+        }
+        this.loadedThreads.add(threadId);
+
+        const threadPath = this.getThreadPath(threadId);
+        if (!fs.existsSync(threadPath)) {
+            return;
+        }
+
+        const file = JSON.parse(
+            fs.readFileSync(threadPath, "utf-8")
+        ) as CheckpointFile;
+        if (file.version !== CHECKPOINT_FILE_VERSION) {
+            throw new Error(
+                `Unsupported checkpoint file version ${file.version} in ${threadPath}`
+            );
+        }
+
+        this.storage[threadId] = {};
+        for (const [namespace, checkpoints] of Object.entries(
+            file.checkpoints
+        )) {
+            this.storage[threadId][namespace] = {};
+            for (const [
+                checkpointId,
+                [checkpoint, metadata, parentId],
+            ] of Object.entries(checkpoints)) {
+                this.storage[threadId][namespace][checkpointId] = [
+                    decodeBytes(checkpoint),
+                    decodeBytes(metadata),
+                    parentId ?? undefined,
+                ];
+            }
+        }
+
+        for (const [key, writes] of Object.entries(file.writes)) {
+            this.writes[key] = {};
+            for (const [writeKey, [taskId, channel, value]] of Object.entries(
+                writes
+            )) {
+                this.writes[key][writeKey] = [
+                    taskId,
+                    channel,
+                    decodeBytes(value),
+                ];
+            }
+        }
+    }
+
+    private async saveThread(threadId: string): Promise<void> {
+        const save = (this.pendingSaves.get(threadId) ?? Promise.resolve())
+            .catch(() => {})
+            .then(() => this.writeThread(threadId));
+        this.pendingSaves.set(threadId, save);
+
+        await save;
+    }
+
+    private async writeThread(threadId: string): Promise<void> {
+        this.pruneThread(threadId);
+
+        const file: CheckpointFile = {
+            version: CHECKPOINT_FILE_VERSION,
+            checkpoints: {},
+            writes: {},
+        };
+        for (const [namespace, checkpoints] of Object.entries(
+            this.storage[threadId] ?? {}
+        )) {
+            file.checkpoints[namespace] = {};
+            for (const [
+                checkpointId,
+                [checkpoint, metadata, parentId],
+            ] of Object.entries(checkpoints)) {
+                file.checkpoints[namespace][checkpointId] = [
+                    encodeBytes(checkpoint),
+                    encodeBytes(metadata),
+                    parentId ?? null,
+                ];
+            }
+        }
+        for (const key of this.getThreadWriteKeys(threadId)) {
+            file.writes[key] = {};
+            for (const [writeKey, [taskId, channel, value]] of Object.entries(
+                this.writes[key]
+            )) {
+                file.writes[key][writeKey] = [
+                    taskId,
+                    channel,
+                    encodeBytes(value),
+                ];
+            }
+        }
+
+        // Write to a temporary file first, so a crash while saving never leaves a corrupt checkpoint behind
+        const threadPath = this.getThreadPath(threadId);
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(
+            `${threadPath}.tmp`,
+            JSON.stringify(file),
+            "utf-8"
+        );
+        await fs.promises.rename(`${threadPath}.tmp`, threadPath);
+    }
+
+    private pruneThread(threadId: string): void {
+        for (const [namespace, checkpoints] of Object.entries(
+            this.storage[threadId] ?? {}
+        )) {
+            // Checkpoint IDs sort in the order the checkpoints were created
+            const prunedIds = Object.keys(checkpoints)
+                .sort((a, b) => b.localeCompare(a))
+                .slice(this.keptCheckpoints);
+
+            for (const checkpointId of prunedIds) {
+                delete checkpoints[checkpointId];
+                delete this.writes[
+                    JSON.stringify([threadId, namespace, checkpointId])
+                ];
+            }
+        }
+    }
+}
+
+const encodeBytes = (bytes: Uint8Array): string =>
+    Buffer.from(bytes).toString("base64");
+
+const decodeBytes = (value: string): Uint8Array =>
+    new Uint8Array(Buffer.from(value, "base64"));
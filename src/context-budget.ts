@@ -0,0 +1,246 @@
+/**
+ * @module context-budget
+ * @file This module counts tokens with a real tokenizer and budgets the context window of a model between input and output.
+ */
+
+import { BaseMessage, isAIMessage } from "@langchain/core/messages";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+import { ModelRole, ResolvedModelConfig, resolveModelConfig } from "./model";
+
+type TokenizerEncoding = "cl100k_base" | "o200k_base";
+
+const ENCODING_RANKS = { cl100k_base: cl100k_base, o200k_base: o200k_base };
+
+// Models tokenized with o200k_base, every other model is approximated with cl100k_base
+const O200K_MODEL_PATTERN =
+    /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/;
+
+// Context windows of known model families, matched against the start of the model name
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+    [/^gpt-4\.1/, 1_047_576],
+    [/^gpt-5/, 400_000],
+    [/^(o1|o3|o4)/, 200_000],
+    [/^gpt-4\.5/, 128_000],
+    [/^(gpt-4o|gpt-4-turbo|chatgpt-4o)/, 128_000],
+    [/^gpt-4/, 8_192],
+    [/^gpt-3\.5-turbo/, 16_385],
+    [/^gemini/, 1_048_576],
+    [/^claude/, 200_000],
+    [/^(llama3\.[1-3]|llama-3\.[1-3])/, 131_072],
+    [/^deepseek/, 128_000],
+    [/^(qwen2\.5-coder|qwen3-coder)/, 131_072],
+    [/^qwen/, 32_768],
+    [/^(mistral|mixtral|codestral)/, 32_768],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4_096;
+
+// Fixed costs that are not part of the text of a message, following the OpenAI chat format
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+// A high detail 1024x1024 image, the most common size of screenshots sent to the model
+const TOKENS_PER_IMAGE = 765;
+
+const tokenizers = new Map<TokenizerEncoding, Tiktoken>();
+
+/**
+ * Gets the tokenizer for a model, creating it from the bundled ranks the first time it is used.
+ * @param {string} modelName - The name of the model.
+ * @returns {Tiktoken} The tokenizer for the model.
+ */
+export function getTokenizer(modelName: string): Tiktoken {
+    const encoding: TokenizerEncoding = O200K_MODEL_PATTERN.test(
+        getBaseModelName(modelName)
+    )
+        ? "o200k_base"
+        : "cl100k_base";
+
+    let tokenizer = tokenizers.get(encoding);
+    if (!tokenizer) {
+        tokenizer = new Tiktoken(ENCODING_RANKS[encoding]);
+        tokenizers.set(encoding, tokenizer);
+    }
+
+    return tokenizer;
+}
+
+/**
+ * Gets the context window of a model, or a conservative default for unknown models.
+ * @param {string} modelName - The name of the model.
+ * @returns {number} The number of tokens the model accepts for input and output combined.
+ */
+export function getContextWindow(modelName: string): number {
+    const baseModelName = getBaseModelName(modelName);
+    const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) =>
+        pattern.test(baseModelName)
+    );
+
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+// Strips provider prefixes such as "Qwen/" or "openai/" from model names. Custom providers may leave the name unset
+const getBaseModelName = (modelName: string | undefined): string =>
+    (modelName ?? "").split("/").pop().toLowerCase();
+
+/**
+ * Counts tokens for a model and splits its context window into the space available for input, after reserving
+ * room for the output.
+ */
+export class ContextBudget {
+    readonly modelName: string;
+    readonly contextWindow: number;
+    readonly reservedOutputTokens: number;
+
+    private tokenizer: Tiktoken;
+
+    /**
+     * @param {string} modelName - The name of the model the budget is for.
+     * @param {number} [contextWindow] - Overrides the context window of the model.
+     * @param {number} [reservedOutputTokens] - The number of tokens to keep free for the output.
+     */
+    constructor(
+        modelName: string,
+        contextWindow: number = getContextWindow(modelName),
+        reservedOutputTokens: number = Math.min(
+            DEFAULT_MAX_OUTPUT_TOKENS,
+            Math.floor(contextWindow / 4)
+        )
+    ) {
+        this.modelName = modelName;
+        this.contextWindow = contextWindow;
+        this.reservedOutputTokens = reservedOutputTokens;
+        this.tokenizer = getTokenizer(modelName);
+    }
+
+    /**
+     * The number of tokens available for the input messages.
+     */
+    get inputLimit(): number {
+        return this.contextWindow - this.reservedOutputTokens;
+    }
+
+    /**
+     * Counts the tokens in a piece of text.
+     * @param {string} text - The text to count.
+     * @returns {number} The number of tokens.
+     */
+    countTokens(text: string): number {
+        // Special tokens such as <|endoftext|> are counted as plain text, as that is how they reach the model
+        return this.tokenizer.encode(text, [], []).length;
+    }
+
+    /**
+     * Counts the tokens in a message, including text and image content, tool calls and message overhead.
+     * @param {BaseMessage} message - The message to count.
+     * @returns {number} The number of tokens.
+     */
+    countMessageTokens(message: BaseMessage): number {
+        let tokens = TOKENS_PER_MESSAGE;
+
+        if (typeof message.content === "string") {
+            tokens += this.countTokens(message.content);
+        } else {
+            for (const part of message.content as Record<string, any>[]) {
+                if (part.type === "image" || part.type === "image_url") {
+                    tokens += TOKENS_PER_IMAGE;
+                } else if (typeof part.text === "string") {
+                    tokens += this.countTokens(part.text);
+                } else if (typeof part.content === "string") {
+                    tokens += this.countTokens(part.content);
+                } else {
+                    tokens += this.countTokens(JSON.stringify(part));
+                }
+            }
+        }
+
+        if (isAIMessage(message)) {
+            for (const toolCall of message.tool_calls ?? []) {
+                tokens +=
+                    this.countTokens(toolCall.name) +
+                    this.countTokens(JSON.stringify(toolCall.args));
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Counts the tokens a list of messages takes up in a request.
+     * @param {BaseMessage[]} messages - The messages to count.
+     * @returns {number} The number of tokens.
+     */
+    countMessagesTokens(messages: BaseMessage[]): number {
+        return messages.reduce(
+            (total, message) => total + this.countMessageTokens(message),
+            TOKENS_PER_REPLY
+        );
+    }
+
+    /**
+     * Splits text into chunks of at most the given number of tokens, preferring to break at newlines, sentences or words.
+     * @param {string} text - The text to split.
+     * @param {number} maxTokens - The maximum number of tokens per chunk.
+     * @returns {string[]} The chunks, in order.
+     */
+    splitText(text: string, maxTokens: number): string[] {
+        const tokens = this.tokenizer.encode(text, [], []);
+        const chunks: string[] = [];
+        let start = 0;
+
+        while (start < tokens.length) {
+            let end = Math.min(start + maxTokens, tokens.length);
+
+            if (end < tokens.length) {
+                // Break before the last token in the second half of the chunk that starts a word, or follows a newline or sentence
+                for (
+                    let index = end;
+                    index > start + Math.floor(maxTokens / 2);
+                    index--
+                ) {
+                    const previous = this.tokenizer.decode([tokens[index - 1]]);
+                    if (
+                        /[\n.]$/.test(previous) ||
+                        this.tokenizer.decode([tokens[index]]).startsWith(" ")
+                    ) {
+                        end = index;
+                        break;
+                    }
+                }
+            }
+
+            // A multi-byte character can span several tokens, so never end a chunk part of the way through one
+            let chunk = this.tokenizer.decode(tokens.slice(start, end));
+            while (chunk.endsWith("\uFFFD") && end - start > 1) {
+                end--;
+                chunk = this.tokenizer.decode(tokens.slice(start, end));
+            }
+
+            chunks.push(chunk);
+            start = end;
+        }
+
+        return chunks;
+    }
+}
+
+/**
+ * Creates the context budget for the model an agent role uses, honouring the context window and maximum output
+ * tokens configured for it.
+ * @param {ModelRole} [role] - The role of the agent the budget is for.
+ * @param {ResolvedModelConfig} [config] - The model configuration, resolved from the role if not given.
+ * @returns {ContextBudget} The context budget.
+ */
+export function createContextBudget(
+    role?: ModelRole,
+    config: ResolvedModelConfig = resolveModelConfig(role)
+): ContextBudget {
+    return new ContextBudget(
+        config.modelName,
+        config.contextWindow,
+        config.maxOutputTokens
+    );
+}
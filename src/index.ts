@@ -10,7 +10,7 @@ import {
     console.log("Team manager initialized");
 
     console.log("Invoking add feature task");
-    await teamManager
+    const result = await teamManager
         .invoke({
             task: DevelopmentTeamManagerInvocationTask.AddFeature,
             data: {
@@ -21,7 +21,7 @@ import {
         .catch((error) => {
             console.error("Error invoking add feature task:", error);
         });
-    console.log("Add feature task complete");
+    console.log("Add feature task complete", result);
 
     await teamManager.dispose();
 })();
@@ -3,83 +3,364 @@
  * @file This module defines utility functions for creating instances of LLMs for agents.
  */
 
-import { ChatOllama } from "@langchain/ollama";
+import { ChatOllama, OllamaEmbeddings } from "@langchain/ollama";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
 import { Embeddings } from "@langchain/core/embeddings";
+import { SyntheticEmbeddings } from "@langchain/core/utils/testing";
 
 import { TokenBucket } from "simple-token-bucket";
+import { RecordingChatModel, ScriptedChatModel } from "./scripted-model";
+
+// Built-in providers, other providers can be added with registerModelProvider and registerEmbeddingProvider
+export type ModelProvider = "openai" | "ollama" | "fake" | (string & {});
+export type EmbeddingProvider = "openai" | "ollama" | "fake" | (string & {});
+
+// The roles agents play, each of which can use a different model
+export type ModelRole =
+    | "manager"
+    | "writer"
+    | "reviewer"
+    | "tester"
+    | "researcher";
+
+export interface ModelConfig {
+    provider?: ModelProvider;
+    modelName?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    // The fixture the fake provider replays, or that other providers record their responses into
+    fixturePath?: string;
+    // Only used by the fake provider when there is no fixture
+    responses?: string[];
+}
+
+export interface EmbeddingModelConfig extends ModelConfig {
+    provider?: EmbeddingProvider;
+}
+
+export interface ModelRegistryConfig {
+    default?: ModelConfig;
+    roles?: Partial<Record<ModelRole, ModelConfig>>;
+    embeddings?: EmbeddingModelConfig;
+}
+
+export interface ResolvedModelConfig extends ModelConfig {
+    provider: ModelProvider;
+    modelName: string;
+}
 
 interface CreateModelInstanceOptions {
+    role?: ModelRole;
+    provider?: ModelProvider;
     modelName?: string;
     temperature?: number;
     maxRetries?: number;
     verbose?: boolean;
 }
 
+interface CreateEmbeddingModelInstanceOptions {
+    provider?: EmbeddingProvider;
+    modelName?: string;
+    maxRetries?: number;
+    verbose?: boolean;
+}
+
+export type ChatModelFactory = (
+    config: ResolvedModelConfig,
+    options: CreateModelInstanceOptions
+) => BaseChatModel;
+
+export type EmbeddingModelFactory = (
+    config: ResolvedModelConfig,
+    options: CreateEmbeddingModelInstanceOptions
+) => Embeddings;
+
+const DEFAULT_MODEL_NAMES: Record<string, string> = {
+    openai: "qwen3",
+    ollama: "qwen3",
+    fake: "fake",
+};
+
+const DEFAULT_EMBEDDING_MODEL_NAMES: Record<string, string> = {
+    openai: "gemini-embedding-001",
+    ollama: "nomic-embed-text",
+    fake: "synthetic",
+};
+
+const DEFAULT_FAKE_RESPONSE = "This is a response from a fake model.";
+
+const chatModelProviders = new Map<string, ChatModelFactory>([
+    [
+        "openai",
+        (config, options) =>
+            new ChatOpenAI({
+                model: config.modelName,
+                temperature: options.temperature,
+                maxRetries: options.maxRetries,
+                verbose: options.verbose,
+                maxTokens: config.maxOutputTokens,
+                apiKey: config.apiKey ?? process.env.OPENAI_API_KEY,
+                configuration: {
+                    baseURL: config.baseUrl ?? process.env.OPENAI_API_URL,
+                },
+            }),
+    ],
+    [
+        "ollama",
+        (config, options) =>
+            new ChatOllama({
+                model: config.modelName,
+                temperature: options.temperature,
+                maxRetries: options.maxRetries,
+                verbose: options.verbose,
+                numCtx: config.contextWindow,
+                numPredict: config.maxOutputTokens,
+                baseUrl: config.baseUrl ?? process.env.OLLAMA_API_URL,
+            }),
+    ],
+    [
+        "fake",
+        (config) =>
+            new ScriptedChatModel({
+                fixturePath: config.fixturePath,
+                responses: config.responses ?? [DEFAULT_FAKE_RESPONSE],
+                repeatLast: !config.responses,
+            }),
+    ],
+]);
+
+const embeddingModelProviders = new Map<string, EmbeddingModelFactory>([
+    [
+        "openai",
+        (config, options) =>
+            new OpenAIEmbeddings({
+                model: config.modelName,
+                maxRetries: options.maxRetries,
+                verbose: options.verbose,
+                apiKey: config.apiKey ?? process.env.OPENAI_API_KEY,
+                configuration: {
+                    baseURL: config.baseUrl ?? process.env.OPENAI_API_URL,
+                },
+            }),
+    ],
+    [
+        "ollama",
+        (config, options) =>
+            new OllamaEmbeddings({
+                model: config.modelName,
+                maxRetries: options.maxRetries,
+                baseUrl: config.baseUrl ?? process.env.OLLAMA_API_URL,
+            }),
+    ],
+    ["fake", () => new SyntheticEmbeddings({ vectorSize: 256 })],
+]);
+
+let registryConfig: ModelRegistryConfig = {};
+
 export const modelTokenBucket = new TokenBucket({
     capacity: 50_000, // 50,000 tokens
     fillQuantity: 50_000, // Refill 50,000 tokens
     fillTime: 60 * 1000, // Refill every minute
 });
 
+/**
+ * Sets the models used by default, per agent role and for embeddings. Environment variables take precedence
+ * over this configuration, see resolveModelConfig.
+ * @param {ModelRegistryConfig} config - The model configuration.
+ * @returns {void}
+ */
+export function configureModels(config: ModelRegistryConfig): void {
+    registryConfig = config;
+}
+
+/**
+ * Adds a chat model provider, or replaces a built-in one.
+ * @param {string} provider - The name the provider is selected by.
+ * @param {ChatModelFactory} factory - Creates a model from the resolved configuration.
+ * @returns {void}
+ */
+export function registerModelProvider(
+    provider: string,
+    factory: ChatModelFactory
+): void {
+    chatModelProviders.set(provider, factory);
+}
+
+/**
+ * Adds an embedding model provider, or replaces a built-in one.
+ * @param {string} provider - The name the provider is selected by.
+ * @param {EmbeddingModelFactory} factory - Creates an embedding model from the resolved configuration.
+ * @returns {void}
+ */
+export function registerEmbeddingProvider(
+    provider: string,
+    factory: EmbeddingModelFactory
+): void {
+    embeddingModelProviders.set(provider, factory);
+}
+
+/**
+ * Reads a model configuration from environment variables with the given prefix, e.g. WRITER_MODEL_PROVIDER.
+ * @param {string} prefix - The prefix of the environment variables.
+ * @returns {ModelConfig} The configuration, with unset variables left undefined.
+ */
+const readModelConfigFromEnvironment = (prefix: string): ModelConfig => ({
+    provider: process.env[`${prefix}_PROVIDER`],
+    modelName: process.env[`${prefix}_NAME`],
+    baseUrl: process.env[`${prefix}_API_URL`],
+    apiKey: process.env[`${prefix}_API_KEY`],
+    contextWindow: parseTokenCount(process.env[`${prefix}_CONTEXT_WINDOW`]),
+    maxOutputTokens: parseTokenCount(
+        process.env[`${prefix}_MAX_OUTPUT_TOKENS`]
+    ),
+    fixturePath: process.env[`${prefix}_FIXTURE`],
+});
+
+const parseTokenCount = (value: string | undefined): number | undefined => {
+    const tokens = Number.parseInt(value ?? "", 10);
+
+    return Number.isFinite(tokens) && tokens > 0 ? tokens : undefined;
+};
+
+/**
+ * Merges model configurations, with later configurations overriding the values set by earlier ones.
+ * @param {ModelConfig[]} configs - The configurations, from lowest to highest precedence.
+ * @returns {ModelConfig} The merged configuration.
+ */
+const mergeModelConfigs = (...configs: ModelConfig[]): ModelConfig => {
+    const merged: ModelConfig = {};
+
+    for (const config of configs) {
+        for (const [key, value] of Object.entries(config ?? {})) {
+            if (value !== undefined && value !== "") {
+                merged[key] = value;
+            }
+        }
+    }
+
+    return merged;
+};
+
+/**
+ * Resolves the provider and model for an agent role. From lowest to highest precedence, the configuration comes from
+ * the configured default, the MODEL_* environment variables, the configured role, the <ROLE>_MODEL_* environment
+ * variables (e.g. WRITER_MODEL_NAME), and finally the options passed in.
+ * @param {ModelRole} [role] - The role of the agent the model is for.
+ * @param {ModelConfig} [overrides] - Configuration that takes precedence over everything else.
+ * @returns {ResolvedModelConfig} The resolved configuration.
+ */
+export function resolveModelConfig(
+    role?: ModelRole,
+    overrides: ModelConfig = {}
+): ResolvedModelConfig {
+    const config = mergeModelConfigs(
+        registryConfig.default,
+        readModelConfigFromEnvironment("MODEL"),
+        role ? registryConfig.roles?.[role] : undefined,
+        role
+            ? readModelConfigFromEnvironment(`${role.toUpperCase()}_MODEL`)
+            : undefined,
+        overrides
+    );
+    const provider = config.provider ?? "openai";
+
+    return {
+        ...config,
+        provider: provider,
+        modelName: config.modelName ?? DEFAULT_MODEL_NAMES[provider],
+    };
+}
+
 /**
  * Creates an instance of a language model (LLM) for an agent.
  * @param {CreateModelInstanceOptions} options - The options for creating the model instance.
  * @returns {BaseChatModel} The created model instance.
  */
-// export function createModelInstance(options: CreateModelInstanceOptions): BaseChatModel {
-//     const {
-//         modelName = "qwen3",
-//         temperature = 0.7,
-//         maxRetries = 3,
-//         verbose = false,
-//     } = options;
-
-//     return new ChatOllama({
-//         model: modelName,
-//         temperature: temperature,
-//         maxRetries: maxRetries,
-//         lowVram: true,
-//         verbose: verbose,
-//     });
-// }
 export function createModelInstance(
     options: CreateModelInstanceOptions
 ): BaseChatModel {
-    const {
-        // modelName = "Qwen/Qwen3-32B",
-        // modelName = "gemini-2.0-flash-lite",
-        modelName = "qwen3",
-        temperature = 0.7,
-        maxRetries = 3,
-        verbose = false,
-    } = options;
-
-    return new ChatOpenAI({
-        model: modelName,
-        temperature: temperature,
-        maxRetries: maxRetries,
-        verbose: verbose,
-        apiKey: process.env.OPENAI_API_KEY,
-        configuration: { baseURL: process.env.OPENAI_API_URL },
+    const { temperature = 0.7, maxRetries = 3, verbose = false } = options;
+    const config = resolveModelConfig(options.role, {
+        provider: options.provider,
+        modelName: options.modelName,
+    });
+
+    const factory = chatModelProviders.get(config.provider);
+    if (!factory) {
+        throw new Error(`Unknown model provider: ${config.provider}`);
+    }
+
+    const model = factory(config, {
+        ...options,
+        temperature,
+        maxRetries,
+        verbose,
     });
+
+    // Real models record their responses when given a fixture, which the fake provider can then replay offline
+    return config.fixturePath && config.provider !== "fake"
+        ? new RecordingChatModel(model, config.fixturePath)
+        : model;
+}
+
+/**
+ * Resolves the provider and model name used for embeddings.
+ * From lowest to highest precedence, the configuration comes from the configured embeddings, the EMBEDDING_*
+ * environment variables (e.g. EMBEDDING_PROVIDER set to "ollama" to run offline), and the options passed in.
+ * @param {CreateEmbeddingModelInstanceOptions} options - The options for creating the embedding model instance.
+ * @returns {ResolvedModelConfig} The resolved configuration.
+ */
+const resolveEmbeddingModel = (
+    options: CreateEmbeddingModelInstanceOptions
+): ResolvedModelConfig => {
+    const config = mergeModelConfigs(
+        registryConfig.embeddings,
+        {
+            provider: process.env.EMBEDDING_PROVIDER,
+            modelName: process.env.EMBEDDING_MODEL_NAME,
+            baseUrl: process.env.EMBEDDING_API_URL,
+            apiKey: process.env.EMBEDDING_API_KEY,
+        },
+        { provider: options.provider, modelName: options.modelName }
+    );
+    const provider = config.provider ?? "openai";
+    const modelName =
+        config.modelName ?? DEFAULT_EMBEDDING_MODEL_NAMES[provider];
+
+    return { ...config, provider, modelName };
+};
+
+/**
+ * Gets an identifier for the embedding model, used to invalidate stored embeddings when the model changes.
+ * @param {CreateEmbeddingModelInstanceOptions} options - The options for creating the embedding model instance.
+ * @returns {string} The embedding model ID in the form "provider:modelName".
+ */
+export function getEmbeddingModelId(
+    options: CreateEmbeddingModelInstanceOptions = {}
+): string {
+    const { provider, modelName } = resolveEmbeddingModel(options);
+
+    return `${provider}:${modelName}`;
 }
 
+/**
+ * Creates an instance of an embedding model.
+ * @param {CreateEmbeddingModelInstanceOptions} options - The options for creating the embedding model instance.
+ * @returns {Embeddings} The created embedding model instance.
+ */
 export function createEmbeddingModelInstance(
-    options: CreateModelInstanceOptions
+    options: CreateEmbeddingModelInstanceOptions
 ): Embeddings {
-    const {
-        modelName = "gemini-embedding-001",
-        maxRetries = 3,
-        verbose = false,
-    } = options;
-
-    return new OpenAIEmbeddings({
-        model: modelName,
-        maxRetries: maxRetries,
-        verbose: verbose,
-        apiKey: process.env.OPENAI_API_KEY,
-        configuration: { baseURL: process.env.OPENAI_API_URL },
-    });
+    const { maxRetries = 3, verbose = false } = options;
+    const config = resolveEmbeddingModel(options);
+
+    const factory = embeddingModelProviders.get(config.provider);
+    if (!factory) {
+        throw new Error(`Unknown embedding provider: ${config.provider}`);
+    }
+
+    return factory(config, { ...options, maxRetries, verbose });
 }
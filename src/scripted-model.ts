@@ -0,0 +1,299 @@
+/**
+ * @module scripted-model
+ * @file This module provides a chat model that replays scripted responses from fixtures, and a wrapper that records real sessions into fixtures.
+ */
+
+import {
+    BaseChatModel,
+    BaseChatModelCallOptions,
+    BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+    AIMessage,
+    AIMessageChunk,
+    BaseMessage,
+    MessageContent,
+} from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { Runnable } from "@langchain/core/runnables";
+
+import * as fs from "fs";
+import * as path from "path";
+
+const FIXTURE_VERSION = 1;
+
+export interface ScriptedToolCall {
+    name: string;
+    args: Record<string, any>;
+    id?: string;
+}
+
+export interface ScriptedResponse {
+    content?: MessageContent;
+    tool_calls?: ScriptedToolCall[];
+}
+
+export interface ChatModelFixture {
+    version: number;
+    responses: ScriptedResponse[];
+}
+
+interface FixtureSession {
+    fixturePath: string | null;
+    responses: ScriptedResponse[];
+    position: number;
+    // Keep returning the last response instead of failing once the responses run out
+    repeatLast: boolean;
+}
+
+export interface ScriptedChatModelOptions {
+    fixturePath?: string;
+    responses?: (string | ScriptedResponse)[];
+    repeatLast?: boolean;
+}
+
+interface RecordingChatModelCallOptions extends BaseChatModelCallOptions {
+    tools?: BindToolsInput[];
+}
+
+// Every model using the same fixture shares one session, as agents create new model instances while they run
+const fixtureSessions = new Map<string, FixtureSession>();
+// Likewise for models given the same array of responses
+const inlineSessions = new WeakMap<object, FixtureSession>();
+
+/**
+ * Forgets every fixture loaded or recorded in this process, so the next model using a fixture starts from its beginning.
+ * @returns {void}
+ */
+export function resetFixtureSessions(): void {
+    fixtureSessions.clear();
+}
+
+/**
+ * Loads a fixture file into a session shared by every model replaying it.
+ * @param {string} fixturePath - The path to the fixture file.
+ * @returns {FixtureSession} The session replaying the fixture.
+ */
+const getReplaySession = (fixturePath: string): FixtureSession => {
+    const resolvedPath = path.resolve(fixturePath);
+
+    let session = fixtureSessions.get(resolvedPath);
+    if (!session) {
+        const fixture = JSON.parse(
+            fs.readFileSync(resolvedPath, "utf-8")
+        ) as ChatModelFixture;
+        if (fixture.version !== FIXTURE_VERSION) {
+            throw new Error(
+                `Unsupported fixture version ${fixture.version} in ${resolvedPath}`
+            );
+        }
+
+        session = {
+            fixturePath: resolvedPath,
+            responses: fixture.responses,
+            position: 0,
+            repeatLast: false,
+        };
+        fixtureSessions.set(resolvedPath, session);
+    }
+
+    return session;
+};
+
+/**
+ * Gets the session a fixture is recorded into, starting a new recording the first time it is used in this process.
+ * @param {string} fixturePath - The path to the fixture file.
+ * @returns {FixtureSession} The session being recorded.
+ */
+const getRecordingSession = (fixturePath: string): FixtureSession => {
+    const resolvedPath = path.resolve(fixturePath);
+
+    let session = fixtureSessions.get(resolvedPath);
+    if (!session) {
+        session = {
+            fixturePath: resolvedPath,
+            responses: [],
+            position: 0,
+            repeatLast: false,
+        };
+        fixtureSessions.set(resolvedPath, session);
+    }
+
+    return session;
+};
+
+/**
+ * A chat model that replays scripted responses, including tool calls, in order. Tools bound to the model are ignored,
+ * so the script must contain the tool calls the agent is expected to make, e.g. a `format_response` call for
+ * structured output.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+    private session: FixtureSession;
+
+    /**
+     * @param {ScriptedChatModelOptions} options - The fixture file to replay, or the responses to return.
+     */
+    constructor(options: ScriptedChatModelOptions) {
+        super({});
+
+        const { fixturePath, responses = [], repeatLast = false } = options;
+        if (fixturePath) {
+            this.session = getReplaySession(fixturePath);
+            return;
+        }
+
+        this.session = inlineSessions.get(responses);
+        if (!this.session) {
+            this.session = {
+                fixturePath: null,
+                responses: responses.map((response) =>
+                    typeof response === "string"
+                        ? { content: response }
+                        : response
+                ),
+                position: 0,
+                repeatLast: repeatLast,
+            };
+            inlineSessions.set(responses, this.session);
+        }
+    }
+
+    _llmType(): string {
+        return "scripted";
+    }
+
+    bindTools(
+        _tools: BindToolsInput[],
+        kwargs?: Partial<BaseChatModelCallOptions>
+    ): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+        return this.withConfig(kwargs ?? {});
+    }
+
+    async _generate(_messages: BaseMessage[]): Promise<ChatResult> {
+        const { responses, fixturePath, repeatLast } = this.session;
+
+        let response = responses[this.session.position];
+        if (!response && repeatLast && responses.length > 0) {
+            response = responses[responses.length - 1];
+        }
+        if (!response) {
+            throw new Error(
+                `The scripted model has no response left after ${responses.length} responses${fixturePath ? ` in ${fixturePath}` : ""}`
+            );
+        }
+
+        const position = this.session.position++;
+        const message = new AIMessage({
+            content: response.content ?? "",
+            tool_calls: (response.tool_calls ?? []).map((toolCall, index) => ({
+                name: toolCall.name,
+                args: toolCall.args,
+                id: toolCall.id ?? `call_${position}_${index}`,
+                type: "tool_call",
+            })),
+        });
+
+        return {
+            generations: [
+                {
+                    text:
+                        typeof message.content === "string"
+                            ? message.content
+                            : "",
+                    message: message,
+                },
+            ],
+        };
+    }
+}
+
+/**
+ * Wraps a chat model and records every response it gives, including tool calls, into a fixture that a
+ * ScriptedChatModel can replay. The fixture is written after every response, so partial sessions are kept.
+ */
+export class RecordingChatModel extends BaseChatModel<RecordingChatModelCallOptions> {
+    private model: BaseChatModel;
+    private session: FixtureSession;
+
+    /**
+     * @param {BaseChatModel} model - The model to record.
+     * @param {string} fixturePath - The path to write the fixture to. An existing fixture is replaced.
+     */
+    constructor(model: BaseChatModel, fixturePath: string) {
+        super({});
+
+        this.model = model;
+        this.session = getRecordingSession(fixturePath);
+    }
+
+    _llmType(): string {
+        return "recording";
+    }
+
+    bindTools(
+        tools: BindToolsInput[],
+        kwargs?: Partial<RecordingChatModelCallOptions>
+    ): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+        return this.withConfig({ ...kwargs, tools: tools });
+    }
+
+    async _generate(
+        messages: BaseMessage[],
+        options: this["ParsedCallOptions"]
+    ): Promise<ChatResult> {
+        const model =
+            options.tools && options.tools.length > 0
+                ? this.model.bindTools(options.tools, {
+                      tool_choice: options.tool_choice,
+                  })
+                : this.model;
+
+        const response = await model.invoke(messages, {
+            signal: options.signal,
+        });
+        const message = new AIMessage({
+            content: response.content,
+            tool_calls: response.tool_calls,
+            usage_metadata: response.usage_metadata,
+        });
+
+        this.session.responses.push({
+            content: message.content,
+            tool_calls: (message.tool_calls ?? []).map((toolCall) => ({
+                name: toolCall.name,
+                args: toolCall.args,
+                id: toolCall.id,
+            })),
+        });
+        this.save();
+
+        return {
+            generations: [
+                {
+                    text:
+                        typeof message.content === "string"
+                            ? message.content
+                            : "",
+                    message: message,
+                },
+            ],
+        };
+    }
+
+    private save(): void {
+        const fixture: ChatModelFixture = {
+            version: FIXTURE_VERSION,
+            responses: this.session.responses,
+        };
+
+        fs.mkdirSync(path.dirname(this.session.fixturePath), {
+            recursive: true,
+        });
+        fs.writeFileSync(
+            this.session.fixturePath,
+            JSON.stringify(fixture, null, 4),
+            "utf-8"
+        );
+    }
+}
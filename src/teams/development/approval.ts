@@ -0,0 +1,358 @@
+/**
+ * @module teams/development/approval
+ * @file This module provides human approval gates between the stages of a development run, built on LangGraph interrupts.
+ */
+
+import {
+    Annotation,
+    BaseCheckpointSaver,
+    Command,
+    END,
+    INTERRUPT,
+    isInterrupted,
+    MemorySaver,
+    START,
+    StateGraph,
+    interrupt,
+} from "@langchain/langgraph";
+
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline/promises";
+import pino from "pino";
+import z from "zod";
+import { AgentCheckpointOptions } from "../../checkpointer";
+import { ChangeSet } from "../../tools/git";
+import { DevelopmentPlan, developmentPlanSchema, formatPlan } from "./plan";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+export type ApprovalGate = "plan" | "code" | "push";
+
+export const ALL_APPROVAL_GATES: ApprovalGate[] = ["plan", "code", "push"];
+
+export interface ApprovalRequest {
+    gate: ApprovalGate;
+    message: string;
+    plan?: DevelopmentPlan;
+    changes?: ChangeSet;
+}
+
+export const approvalDecisionSchema = z.object({
+    action: z
+        .enum(["approve", "reject", "edit"])
+        .describe(
+            "Whether to continue, stop the run, or continue with an edited plan."
+        ),
+    plan: developmentPlanSchema
+        .optional()
+        .describe("The edited plan, required when the action is edit."),
+    comment: z
+        .string()
+        .optional()
+        .describe("An optional comment explaining the decision."),
+});
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+export interface ApprovalRecord {
+    gate: ApprovalGate;
+    action: ApprovalDecision["action"];
+    comment?: string;
+    decidedAt: string;
+}
+
+/**
+ * Decides whether a development run may continue past an approval gate.
+ */
+export interface Approver {
+    /**
+     * Asks for a decision on an approval request.
+     * @param {ApprovalRequest} request - The gate that was reached and what is being approved.
+     * @returns {Promise<ApprovalDecision>} The decision to approve, reject or edit.
+     */
+    requestApproval(request: ApprovalRequest): Promise<ApprovalDecision>;
+}
+
+/**
+ * Asks for decisions through a callback, e.g. to connect approval gates to another interface.
+ */
+export class CallbackApprover implements Approver {
+    private callback: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+    /**
+     * @param {(request: ApprovalRequest) => Promise<ApprovalDecision>} callback - Called with every approval request.
+     */
+    constructor(
+        callback: (request: ApprovalRequest) => Promise<ApprovalDecision>
+    ) {
+        this.callback = callback;
+    }
+
+    async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+        return this.callback(request);
+    }
+}
+
+/**
+ * Asks for decisions on the command line. Plans are edited by changing a JSON file the approver writes out.
+ */
+export class CliApprover implements Approver {
+    async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+        const cli = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout,
+        });
+
+        try {
+            process.stdout.write(`\n${formatApprovalRequest(request)}\n\n`);
+
+            const choices = request.plan
+                ? "[a]pprove, [r]eject or [e]dit"
+                : "[a]pprove or [r]eject";
+            for (;;) {
+                const answer = (await cli.question(`${choices}? `))
+                    .trim()
+                    .toLowerCase();
+
+                if (answer === "a" || answer === "approve") {
+                    return { action: "approve" };
+                }
+                if (answer === "r" || answer === "reject") {
+                    const comment = (
+                        await cli.question("Reason (optional): ")
+                    ).trim();
+                    return { action: "reject", comment: comment || undefined };
+                }
+                if (request.plan && (answer === "e" || answer === "edit")) {
+                    return {
+                        action: "edit",
+                        plan: await this.editPlan(cli, request.plan),
+                    };
+                }
+            }
+        } finally {
+            cli.close();
+        }
+    }
+
+    private async editPlan(
+        cli: readline.Interface,
+        plan: DevelopmentPlan
+    ): Promise<DevelopmentPlan> {
+        const planPath = path.join(os.tmpdir(), `plan-${Date.now()}.json`);
+        await fsp.writeFile(planPath, JSON.stringify(plan, null, 4), "utf-8");
+
+        try {
+            for (;;) {
+                await cli.question(
+                    `Edit the plan in ${planPath}, then press enter to continue. `
+                );
+
+                try {
+                    return developmentPlanSchema.parse(
+                        JSON.parse(await fsp.readFile(planPath, "utf-8"))
+                    );
+                } catch (error) {
+                    process.stdout.write(
+                        `The edited plan is invalid: ${(error as Error).message}\n`
+                    );
+                }
+            }
+        } finally {
+            await fsp.rm(planPath, { force: true });
+        }
+    }
+}
+
+/**
+ * Asks for decisions through files, e.g. for approvals from another process or machine sharing a directory.
+ * Each request is written to `<gate>-<n>.request.json` and the approver waits for a matching `<gate>-<n>.decision.json`.
+ */
+export class FileApprover implements Approver {
+    private directory: string;
+    private pollIntervalMs: number;
+    private timeoutMs: number | null;
+    private approverLogger: pino.Logger;
+
+    /**
+     * @param {string} directory - The directory to write requests to and read decisions from.
+     * @param {number} [pollIntervalMs] - How often to check for a decision.
+     * @param {number | null} [timeoutMs] - How long to wait for a decision before rejecting, or null to wait forever.
+     */
+    constructor(
+        directory: string,
+        pollIntervalMs: number = 1000,
+        timeoutMs: number | null = null
+    ) {
+        this.directory = path.resolve(directory);
+        this.pollIntervalMs = pollIntervalMs;
+        this.timeoutMs = timeoutMs;
+        this.approverLogger = logger.child({
+            module: "teams/development/approval",
+            approver: "file",
+            directory: this.directory,
+        });
+    }
+
+    async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+        await fsp.mkdir(this.directory, { recursive: true });
+
+        let number = 1;
+        while (
+            fs.existsSync(
+                path.join(
+                    this.directory,
+                    `${request.gate}-${number}.request.json`
+                )
+            )
+        ) {
+            number++;
+        }
+
+        const name = `${request.gate}-${number}`;
+        const decisionPath = path.join(this.directory, `${name}.decision.json`);
+        await fsp.writeFile(
+            path.join(this.directory, `${name}.request.json`),
+            JSON.stringify(request, null, 4),
+            "utf-8"
+        );
+
+        this.approverLogger.info(
+            `Waiting for a decision in ${decisionPath}: ${request.message}`
+        );
+
+        const startedAt = Date.now();
+        while (!fs.existsSync(decisionPath)) {
+            if (
+                this.timeoutMs !== null &&
+                Date.now() - startedAt > this.timeoutMs
+            ) {
+                return {
+                    action: "reject",
+                    comment: `No decision was made within ${this.timeoutMs}ms`,
+                };
+            }
+
+            await new Promise((resolve) =>
+                setTimeout(resolve, this.pollIntervalMs)
+            );
+        }
+
+        return approvalDecisionSchema.parse(
+            JSON.parse(await fsp.readFile(decisionPath, "utf-8"))
+        );
+    }
+}
+
+/**
+ * Formats an approval request into a human-readable description.
+ * @param {ApprovalRequest} request - The request to format.
+ * @returns {string} The formatted request.
+ */
+export function formatApprovalRequest(request: ApprovalRequest): string {
+    const sections = [`Approval needed (${request.gate}): ${request.message}`];
+
+    if (request.plan) {
+        sections.push(formatPlan(request.plan));
+    }
+    if (request.changes) {
+        sections.push(
+            [
+                `${request.changes.files.length} files changed, ${request.changes.insertions} insertions(+), ${request.changes.deletions} deletions(-)`,
+                ...request.changes.files.map(
+                    (file) =>
+                        `- ${file.status} ${file.path} (+${file.insertions} -${file.deletions})`
+                ),
+            ].join("\n")
+        );
+    }
+
+    return sections.join("\n\n");
+}
+
+const ApprovalState = Annotation.Root({
+    request: Annotation<ApprovalRequest>(),
+    decision: Annotation<ApprovalDecision | null>({
+        reducer: (x, y) => y ?? x,
+        default: () => null,
+    }),
+});
+
+// Pauses at the gate with an interrupt until it is resumed with a decision
+const createApprovalGraph = (checkpointer: BaseCheckpointSaver) =>
+    new StateGraph(ApprovalState)
+        .addNode("await_decision", (state) => ({
+            decision: interrupt<ApprovalRequest, ApprovalDecision>(
+                state.request
+            ),
+        }))
+        .addEdge(START, "await_decision")
+        .addEdge("await_decision", END)
+        .compile({ checkpointer: checkpointer });
+
+/**
+ * Stops at an approval gate until the approver decides whether the run may continue. With a checkpoint, a gate
+ * that was already decided returns the same decision again, and a gate left waiting asks for the decision again.
+ * @param {Approver} approver - The approver to ask for a decision.
+ * @param {ApprovalRequest} request - The gate that was reached and what is being approved.
+ * @param {AgentCheckpointOptions} [checkpoint] - Where to save the state of the gate.
+ * @returns {Promise<ApprovalDecision>} The validated decision.
+ */
+export async function requestApproval(
+    approver: Approver,
+    request: ApprovalRequest,
+    checkpoint?: AgentCheckpointOptions
+): Promise<ApprovalDecision> {
+    const approvalGraph = createApprovalGraph(
+        checkpoint?.checkpointer ?? new MemorySaver()
+    );
+    const config = {
+        configurable: {
+            thread_id:
+                checkpoint?.threadId ??
+                `approval-${request.gate}-${Date.now()}`,
+        },
+    };
+
+    let pendingRequest: ApprovalRequest;
+    const savedState = checkpoint ? await approvalGraph.getState(config) : null;
+    if (savedState?.values.decision) {
+        return savedState.values.decision;
+    }
+    if (savedState?.tasks[0]?.interrupts.length > 0) {
+        pendingRequest = savedState.tasks[0].interrupts[0]
+            .value as ApprovalRequest;
+    } else {
+        const interruptedState = await approvalGraph.invoke(
+            { request: request },
+            config
+        );
+        if (!isInterrupted<ApprovalRequest>(interruptedState)) {
+            throw new Error(`The ${request.gate} approval gate did not pause`);
+        }
+        pendingRequest = interruptedState[INTERRUPT][0].value;
+    }
+
+    const decision = approvalDecisionSchema.parse(
+        await approver.requestApproval(pendingRequest)
+    );
+    if (decision.action === "edit" && !decision.plan) {
+        throw new Error("An edit decision must include the edited plan");
+    }
+
+    const finalState = await approvalGraph.invoke(
+        new Command({ resume: decision }),
+        config
+    );
+
+    return finalState.decision;
+}
@@ -0,0 +1,728 @@
+/**
+ * @module teams/development/base-agent
+ * @file This module provides the shared ReAct agent loop that every development team role is built on.
+ */
+
+import "dotenv/config";
+
+import {
+    Annotation,
+    BaseCheckpointSaver,
+    END,
+    START,
+    StateGraph,
+} from "@langchain/langgraph";
+import {
+    BaseChatModel,
+    BaseChatModelCallOptions,
+} from "@langchain/core/language_models/chat_models";
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+    AIMessage,
+    AIMessageChunk,
+    BaseMessage,
+    HumanMessage,
+    isAIMessage,
+    isToolMessage,
+    SystemMessage,
+    ToolMessage,
+} from "@langchain/core/messages";
+import { Runnable } from "@langchain/core/runnables";
+import { StructuredToolInterface } from "@langchain/core/tools";
+
+import { ContextBudget, createContextBudget } from "../../context-budget";
+import { createModelInstance, ModelRole } from "../../model";
+import {
+    CompactionRecord,
+    ConversationSummary,
+    createSummaryMessage,
+    groupMessageTurns,
+    listToolCalls,
+    summariseMessages,
+} from "./memory";
+import z from "zod";
+import pino from "pino";
+
+const logger = pino({
+    level: "info",
+    // Errors are logged under the error key, whose message and stack are not enumerable
+    serializers: { error: pino.stdSerializers.err },
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+// Messages larger than this are split, or truncated if they carry tool calls or results, so that trimming the
+// history only drops part of them
+const MAX_MESSAGE_TOKENS = 5000;
+
+export interface DevelopmentBaseAgentOptions<TSchema extends z.AnyZodObject> {
+    threadId: string;
+    module: string;
+    role: ModelRole;
+    systemPrompt: string;
+    tools: StructuredToolInterface[];
+    responseSchema: TSchema;
+    maxIterations?: number;
+    temperature?: number;
+    verbose?: boolean;
+    // Saves the state of every run, so an interrupted run continues where it stopped when it is run again
+    checkpointer?: BaseCheckpointSaver;
+}
+
+const AgentState = Annotation.Root({
+    messages: Annotation<BaseMessage[]>({
+        reducer: (x, y) => x.concat(y),
+        default: () => [],
+    }),
+    response: Annotation<Record<string, any> | null>({
+        reducer: (x, y) => y ?? x,
+        default: () => null,
+    }),
+    iterations: Annotation<number>({
+        reducer: (x, y) => y ?? x,
+        default: () => 0,
+    }),
+    maxIterations: Annotation<number>({
+        reducer: (x, y) => y ?? x,
+        default: () => 25,
+    }),
+    // The number of messages describing the task, which are never summarised or dropped
+    pinnedMessages: Annotation<number>({
+        reducer: (x, y) => y ?? x,
+        default: () => 0,
+    }),
+    summary: Annotation<ConversationSummary | null>({
+        reducer: (x, y) => y ?? x,
+        default: () => null,
+    }),
+    compactions: Annotation<CompactionRecord[]>({
+        reducer: (x, y) => x.concat(y),
+        default: () => [],
+    }),
+});
+
+interface PreparedMessages {
+    messages: BaseMessage[];
+    tokenCount: number;
+    summary?: ConversationSummary;
+    compactions?: CompactionRecord[];
+}
+
+type AgentStateType = typeof AgentState.State;
+
+/**
+ * A ReAct agent that loops between the model and its tools until the model produces a response
+ * matching the response schema, or the iteration limit is reached.
+ */
+export abstract class DevelopmentBaseAgent<TSchema extends z.AnyZodObject> {
+    protected threadId: string;
+    protected tools: StructuredToolInterface[];
+    protected responseSchema: TSchema;
+    protected agentLogger: pino.Logger;
+    // An overview of the repository, added to the system prompt once loaded
+    protected repositoryMap: string | null = null;
+
+    private role: ModelRole;
+    private systemPrompt: string;
+    private maxIterations: number;
+    private checkpointer: BaseCheckpointSaver | null;
+    private contextBudget: ContextBudget;
+    private modelInstance: BaseChatModel;
+    private modelWithTools: Runnable<
+        BaseLanguageModelInput,
+        AIMessageChunk,
+        BaseChatModelCallOptions
+    >;
+    private agentInstance: ReturnType<
+        DevelopmentBaseAgent<TSchema>["createStateGraph"]
+    >;
+
+    /**
+     * Initializes the agent as a ReAct agent.
+     * @param {DevelopmentBaseAgentOptions<TSchema>} options - The options for the agent.
+     */
+    constructor(options: DevelopmentBaseAgentOptions<TSchema>) {
+        const {
+            threadId,
+            module,
+            role,
+            systemPrompt,
+            tools,
+            responseSchema,
+            maxIterations = 25,
+            temperature = 0.7,
+            verbose = false,
+            checkpointer = null,
+        } = options;
+
+        this.threadId = threadId;
+        this.tools = tools;
+        this.responseSchema = responseSchema;
+        this.role = role;
+        this.systemPrompt = systemPrompt;
+        this.maxIterations = maxIterations;
+        this.checkpointer = checkpointer;
+
+        this.agentLogger = logger.child({
+            module: module,
+            threadId: this.threadId,
+        });
+
+        this.contextBudget = createContextBudget(role);
+        this.modelInstance = createModelInstance({
+            role: role,
+            temperature: temperature,
+            maxRetries: 4,
+            verbose: verbose,
+        });
+        this.modelWithTools = this.modelInstance.bindTools(this.tools);
+
+        this.agentInstance = this.createStateGraph();
+    }
+
+    /**
+     * Runs the agent loop on the given task messages. With a checkpointer, a run that was checkpointed before
+     * continues from its last completed node, and a run that already finished returns its response again.
+     * @param {BaseMessage[]} messages - The messages describing the task.
+     * @param {string} runName - Names the run within the thread of the agent, such as `round-2:step-3`. It must be derived from the stage of the task the run belongs to, so a resumed task finds the checkpoint of the same run.
+     * @param {number} [maxIterations] - Overrides the iteration limit of the agent for this run.
+     * @returns {Promise<z.infer<TSchema> | null>} The validated response, or null if the agent did not produce one.
+     */
+    protected async run(
+        messages: BaseMessage[],
+        runName: string,
+        maxIterations: number = this.maxIterations
+    ): Promise<z.infer<TSchema> | null> {
+        const config = {
+            configurable: { thread_id: `${this.threadId}:${runName}` },
+            // Each iteration visits the agent and tools nodes, plus room to format the response
+            recursionLimit: maxIterations * 2 + 10,
+        };
+
+        const checkpoint = await this.checkpointer?.getTuple(config);
+        if (checkpoint) {
+            const state = await this.agentInstance.getState(config);
+            if (state.next.length === 0) {
+                this.agentLogger.info(
+                    `Run ${runName} already finished, reusing its response`
+                );
+                return state.values.response as z.infer<TSchema> | null;
+            }
+
+            this.agentLogger.info(
+                `Resuming run ${runName} at ${state.next.join(", ")} after ${state.values.iterations} iterations`
+            );
+            const resumedState = await this.agentInstance.invoke(null, config);
+
+            return resumedState.response as z.infer<TSchema> | null;
+        }
+
+        const finalState = await this.agentInstance.invoke(
+            {
+                messages: messages,
+                iterations: 0,
+                maxIterations: maxIterations,
+                pinnedMessages: messages.length,
+            },
+            config
+        );
+
+        return finalState.response as z.infer<TSchema> | null;
+    }
+
+    private createStateGraph() {
+        return new StateGraph(AgentState)
+            .addNode("agent", this.agentNode.bind(this))
+            .addNode("tools", this.toolsNode.bind(this))
+            .addNode("format_response", this.formatResponseNode.bind(this))
+            .addEdge(START, "agent")
+            .addConditionalEdges("agent", this.shouldContinue.bind(this), {
+                continue: "tools",
+                format: "format_response",
+                end: END,
+            })
+            .addEdge("tools", "agent")
+            .addConditionalEdges(
+                "format_response",
+                this.shouldRetryFormat.bind(this),
+                { retry: "agent", end: END }
+            )
+            .compile({ checkpointer: this.checkpointer ?? undefined });
+    }
+
+    private async agentNode(
+        state: AgentStateType
+    ): Promise<Partial<AgentStateType>> {
+        const { messages, iterations, maxIterations } = state;
+
+        if (iterations >= maxIterations) {
+            return {
+                messages: [
+                    new AIMessage({
+                        content:
+                            "Maximum iterations reached. Unable to complete task.",
+                    }),
+                ],
+            };
+        }
+
+        const prepared = await this.prepareMessages(state);
+
+        let response: AIMessageChunk;
+
+        for (let i = 0; i < 3; i++) {
+            response = await this.modelWithTools.invoke(prepared.messages, {
+                configurable: { thread_id: this.threadId },
+            });
+
+            if (
+                response.content.length > 0 ||
+                (response.tool_calls && response.tool_calls.length > 0)
+            ) {
+                break;
+            }
+        }
+
+        this.agentLogger.info(
+            `Agent response: ${this.messageText(response).substring(0, 100)} (Iteration: ${iterations + 1})`
+        );
+
+        return {
+            messages: [
+                new AIMessage({
+                    content: response.content,
+                    tool_calls: response.tool_calls,
+                }),
+            ],
+            iterations: iterations + 1,
+            summary: prepared.summary,
+            compactions: prepared.compactions ?? [],
+        };
+    }
+
+    /**
+     * Creates the system message, with the repository overview if there is one.
+     * @returns {SystemMessage} The system message.
+     */
+    private createSystemMessage(): SystemMessage {
+        return new SystemMessage({
+            content: this.repositoryMap
+                ? `${this.systemPrompt}\n\nHere is an overview of the repository you are working in:\n\n${this.repositoryMap}`
+                : this.systemPrompt,
+        });
+    }
+
+    /**
+     * Fits the conversation into the context window. The task messages are always kept, and when the conversation
+     * is too large its older turns are summarised with the model, so tool calls stay paired with their results.
+     * The latest turn is always sent, truncated if it does not fit on its own.
+     * @param {AgentStateType} state - The current state of the agent.
+     * @param {number} [reservedTokens] - The number of input tokens to leave free for messages sent after these.
+     * @returns {Promise<PreparedMessages>} The messages to send, with the new summary if one was made.
+     */
+    private async prepareMessages(
+        state: AgentStateType,
+        reservedTokens: number = 0
+    ): Promise<PreparedMessages> {
+        const { messages, pinnedMessages } = state;
+        const systemMessage = this.createSystemMessage();
+        const inputLimit = this.contextBudget.inputLimit - reservedTokens;
+        const countTokens = (msgs: BaseMessage[]) =>
+            msgs.reduce(
+                (total, message) =>
+                    total + this.contextBudget.countMessageTokens(message),
+                0
+            );
+
+        // Chunk large messages first
+        const pinned = messages
+            .slice(0, pinnedMessages)
+            .flatMap((message) => this.chunkMessage(message));
+        const historyStart =
+            pinnedMessages + (state.summary?.summarisedMessages ?? 0);
+        // Count every turn once, the counts are reused while compacting the history
+        let turns = groupMessageTurns(messages.slice(historyStart)).map(
+            (turn) => {
+                const chunked = turn.flatMap((message) =>
+                    this.chunkMessage(message)
+                );
+                return {
+                    size: turn.length,
+                    messages: chunked,
+                    tokens: countTokens(chunked),
+                };
+            }
+        );
+
+        let summary = state.summary;
+        const compactions: CompactionRecord[] = [];
+        // The system message and task are always sent, so they are only counted once
+        const taskTokens = this.contextBudget.countMessagesTokens([
+            systemMessage,
+            ...pinned,
+        ]);
+        const fixedTokens = () =>
+            taskTokens +
+            (summary
+                ? this.contextBudget.countMessageTokens(
+                      createSummaryMessage(summary)
+                  )
+                : 0);
+        const historyTokens = () =>
+            turns.reduce((total, turn) => total + turn.tokens, 0);
+
+        // Summarise the oldest turns until the rest takes up at most half the input, always keeping the latest turn
+        if (fixedTokens() + historyTokens() > inputLimit && turns.length > 1) {
+            const targetTokens = Math.floor(inputLimit / 2) - fixedTokens();
+            let remainingTokens = historyTokens();
+            let summarisedTurns = 0;
+            while (
+                summarisedTurns < turns.length - 1 &&
+                remainingTokens > targetTokens
+            ) {
+                remainingTokens -= turns[summarisedTurns].tokens;
+                summarisedTurns++;
+            }
+
+            const summarised = turns.slice(0, summarisedTurns);
+            const summarisedMessages = summarised.flatMap(
+                (turn) => turn.messages
+            );
+            const summarisedCount = summarised.reduce(
+                (total, turn) => total + turn.size,
+                0
+            );
+
+            const summaryText = await summariseMessages(
+                createModelInstance({
+                    role: this.role,
+                    temperature: 0,
+                    maxRetries: 3,
+                    verbose: false,
+                }),
+                this.contextBudget,
+                summary?.summary ?? null,
+                summarisedMessages
+            );
+
+            const compaction: CompactionRecord = {
+                fromMessage: historyStart,
+                toMessage: historyStart + summarisedCount,
+                summarisedTokens: countTokens(summarisedMessages),
+                summaryTokens: this.contextBudget.countTokens(summaryText),
+                toolCalls: listToolCalls(summarisedMessages),
+                createdAt: new Date().toISOString(),
+            };
+            this.agentLogger.info(
+                `Summarised messages ${compaction.fromMessage} to ${compaction.toMessage - 1} (${compaction.summarisedTokens} tokens, tool calls: ${compaction.toolCalls.join(", ") || "none"}) into a ${compaction.summaryTokens} token summary`
+            );
+
+            summary = {
+                summarisedMessages:
+                    (summary?.summarisedMessages ?? 0) + summarisedCount,
+                summary: summaryText,
+            };
+            compactions.push(compaction);
+            turns = turns.slice(summarisedTurns);
+        }
+
+        // The latest turn is never dropped, so its largest messages, usually tool output, are truncated to fit instead
+        const latestTurn = turns[turns.length - 1];
+        const latestTurnBudget = Math.max(
+            inputLimit -
+                fixedTokens() -
+                (historyTokens() - (latestTurn?.tokens ?? 0)),
+            Math.floor(inputLimit / 4)
+        );
+        if (latestTurn && latestTurn.tokens > latestTurnBudget) {
+            const truncated = this.truncateMessages(
+                messages.slice(messages.length - latestTurn.size),
+                latestTurnBudget
+            ).flatMap((message) => this.chunkMessage(message));
+            this.agentLogger.info(
+                `Truncated the latest turn from ${latestTurn.tokens} to ${countTokens(truncated)} tokens`
+            );
+            turns = [
+                ...turns.slice(0, -1),
+                {
+                    size: latestTurn.size,
+                    messages: truncated,
+                    tokens: countTokens(truncated),
+                },
+            ];
+        }
+
+        const summaryMessages = summary ? [createSummaryMessage(summary)] : [];
+        const historyMessages = turns.flatMap((turn) => turn.messages);
+        let allMessages: BaseMessage[] = [
+            systemMessage,
+            ...pinned,
+            ...summaryMessages,
+            ...historyMessages,
+        ];
+        let tokenCount = fixedTokens() + historyTokens();
+
+        // If still over the limit, the system message is the only part left to shorten
+        if (tokenCount > inputLimit) {
+            const chunkedSystemMessages = this.chunkMessage(
+                systemMessage,
+                Math.max(
+                    inputLimit -
+                        (tokenCount -
+                            this.contextBudget.countMessageTokens(
+                                systemMessage
+                            )),
+                    Math.floor(inputLimit * 0.1)
+                )
+            );
+            // Use only the first chunk of system message to stay within limits
+            allMessages = [
+                chunkedSystemMessages[0],
+                ...pinned,
+                ...summaryMessages,
+                ...historyMessages,
+            ];
+            tokenCount = this.contextBudget.countMessagesTokens(allMessages);
+        }
+
+        this.agentLogger.info(
+            `Final token count: ${tokenCount}/${inputLimit} of a ${this.contextBudget.contextWindow} token context window for ${this.contextBudget.modelName} (${turns.reduce((total, turn) => total + turn.size, 0)} messages retained, ${summary?.summarisedMessages ?? 0} summarised)`
+        );
+
+        return {
+            messages: allMessages,
+            tokenCount: tokenCount,
+            summary: summary !== state.summary ? summary : undefined,
+            compactions: compactions,
+        };
+    }
+
+    private async toolsNode(
+        state: AgentStateType
+    ): Promise<Partial<AgentStateType>> {
+        const { messages } = state;
+        const lastMessage = messages[messages.length - 1] as AIMessage;
+
+        const toolCalls = lastMessage.tool_calls || [];
+        const toolMessages: ToolMessage[] = [];
+
+        for (const toolCall of toolCalls) {
+            const tool = this.tools.find((t) => t.name === toolCall.name);
+            if (!tool) {
+                toolMessages.push(
+                    new ToolMessage({
+                        content: `Error executing ${toolCall.name}: Unknown tool`,
+                        tool_call_id: toolCall.id,
+                    })
+                );
+                continue;
+            }
+
+            try {
+                const result = await tool.invoke(toolCall.args);
+                this.agentLogger.info(
+                    `Tool ${toolCall.name} executed successfully with result: ${JSON.stringify(result).substring(0, 100)}`
+                );
+                toolMessages.push(
+                    new ToolMessage({
+                        content: JSON.stringify(result),
+                        tool_call_id: toolCall.id,
+                    })
+                );
+            } catch (error) {
+                this.agentLogger.error(
+                    `Error executing tool ${toolCall.name}: ${error.message}`
+                );
+                toolMessages.push(
+                    new ToolMessage({
+                        content: `Error executing ${toolCall.name}: ${error.message}`,
+                        tool_call_id: toolCall.id,
+                    })
+                );
+            }
+        }
+
+        return { messages: toolMessages };
+    }
+
+    private async formatResponseNode(
+        state: AgentStateType
+    ): Promise<Partial<AgentStateType>> {
+        const formatRequest = new HumanMessage({
+            content: "Please format the response as valid JSON.",
+        });
+        // The request is sent after the compacted history, so the summary stands in for the summarised turns
+        const prepared = await this.prepareMessages(
+            state,
+            this.contextBudget.countMessageTokens(formatRequest)
+        );
+
+        const response = await createModelInstance({
+            role: this.role,
+            temperature: 0,
+            maxRetries: 3,
+            verbose: false,
+        })
+            .withStructuredOutput(this.responseSchema, {
+                includeRaw: true,
+                name: "format_response",
+            })
+            .invoke([...prepared.messages, formatRequest], {
+                configurable: { thread_id: this.threadId },
+            });
+
+        try {
+            const parsedResponse =
+                response.parsed ??
+                JSON.parse(this.messageText(response.raw as BaseMessage));
+            const validatedResponse = this.responseSchema.parse(parsedResponse);
+
+            return {
+                response: validatedResponse,
+                messages: [
+                    new AIMessage({
+                        content: JSON.stringify(validatedResponse),
+                    }),
+                ],
+                summary: prepared.summary,
+                compactions: prepared.compactions ?? [],
+            };
+        } catch (error) {
+            return {
+                messages: [
+                    new HumanMessage({
+                        content: `The response format is invalid. Please provide a valid JSON response with the required structure: ${JSON.stringify(this.responseSchema.shape)}`,
+                    }),
+                ],
+                summary: prepared.summary,
+                compactions: prepared.compactions ?? [],
+            };
+        }
+    }
+
+    private shouldContinue(state: AgentStateType): string {
+        const { messages, iterations, maxIterations } = state;
+        const lastMessage = messages[messages.length - 1] as AIMessage;
+
+        if (iterations >= maxIterations) {
+            return "end";
+        }
+
+        if (lastMessage.tool_calls && lastMessage.tool_calls.length > 0) {
+            return "continue";
+        }
+
+        const content = this.messageText(lastMessage);
+        if (content.includes("{") || content.includes("```")) {
+            return "format";
+        }
+
+        return "end";
+    }
+
+    private shouldRetryFormat(state: AgentStateType): string {
+        const { response, iterations, maxIterations } = state;
+
+        if (response || iterations >= maxIterations) {
+            return "end";
+        }
+
+        return "retry";
+    }
+
+    private messageText(message: BaseMessage): string {
+        if (typeof message.content === "string") {
+            return message.content;
+        }
+
+        return JSON.stringify(message.content);
+    }
+
+    /**
+     * Truncates messages to fit in a number of tokens. Every message gets an equal share, and the share a small
+     * message does not use is divided among the larger ones, so only the largest messages are truncated.
+     * @param {BaseMessage[]} messages - The messages to truncate.
+     * @param {number} maxTokens - The number of tokens the messages must fit in.
+     * @returns {BaseMessage[]} The messages, with the largest ones truncated.
+     */
+    private truncateMessages(
+        messages: BaseMessage[],
+        maxTokens: number
+    ): BaseMessage[] {
+        const tokens = messages.map((message) =>
+            this.contextBudget.countMessageTokens(message)
+        );
+        const order = messages
+            .map((_, index) => index)
+            .sort((a, b) => tokens[a] - tokens[b]);
+
+        const truncated = [...messages];
+        let remainingTokens = maxTokens;
+        for (const [position, index] of order.entries()) {
+            const share = Math.floor(
+                remainingTokens / (order.length - position)
+            );
+            const message = messages[index];
+            remainingTokens -= Math.min(tokens[index], share);
+
+            if (tokens[index] <= share || typeof message.content !== "string") {
+                continue;
+            }
+
+            // Leave room for the message overhead and the truncation notice
+            const keptContent = this.contextBudget.splitText(
+                message.content,
+                Math.max(share - 50, 1)
+            )[0];
+            const MessageConstructor = message.constructor as new (
+                fields: Record<string, any>
+            ) => BaseMessage;
+            truncated[index] = new MessageConstructor({
+                ...message,
+                content: `${keptContent}\n[Truncated to fit in the context window, ${this.contextBudget.countTokens(message.content)} tokens in full]`,
+            });
+        }
+
+        return truncated;
+    }
+
+    private chunkMessage(
+        message: BaseMessage,
+        maxTokens: number = MAX_MESSAGE_TOKENS
+    ): BaseMessage[] {
+        if (
+            typeof message.content !== "string" ||
+            this.contextBudget.countTokens(message.content) <= maxTokens
+        ) {
+            return [message];
+        }
+
+        // A tool call must be followed by exactly one result with its id, so neither side can be split
+        if (
+            isToolMessage(message) ||
+            (isAIMessage(message) && message.tool_calls?.length > 0)
+        ) {
+            return this.truncateMessages([message], maxTokens);
+        }
+
+        // Leave room for the chunk suffix
+        const chunkContents = this.contextBudget.splitText(
+            message.content,
+            maxTokens - 10
+        );
+
+        const MessageConstructor = message.constructor as new (
+            fields: Record<string, any>
+        ) => BaseMessage;
+
+        return chunkContents.map(
+            (chunkContent, index) =>
+                new MessageConstructor({
+                    ...message,
+                    content: `${chunkContent} [Chunk ${index + 1}]`,
+                })
+        );
+    }
+}
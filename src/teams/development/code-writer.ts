@@ -5,451 +5,267 @@
 
 import "dotenv/config";
 
-import {
-    Annotation,
-    CompiledStateGraph,
-    END,
-    START,
-    StateGraph,
-} from "@langchain/langgraph";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import {
-    AIMessage,
-    HumanMessage,
-    SystemMessage,
-} from "@langchain/core/messages";
+import { HumanMessage } from "@langchain/core/messages";
 
-import { createModelInstance } from "../../model";
+import { AgentCheckpointOptions } from "../../checkpointer";
 import {
+    ApplyPatch,
     CreateDirectory,
     DeleteFile,
-    deleteTempAgentDirectory,
+    EditFile,
+    GrepFiles,
     ListDirectory,
     PathExists,
     ReadFile,
     RemoveDirectory,
+    ReplaceLines,
     SearchFiles,
     WriteFile,
 } from "../../tools/file-system";
-import { cloneRepository, CommitChanges } from "../../tools/git";
-import { Tool } from "@langchain/core/tools";
+import {
+    CommitChanges,
+    GitBlame,
+    GitBranch,
+    GitDiff,
+    GitLog,
+    GitStash,
+    GitStatus,
+} from "../../tools/git";
+import { getRepositoryMap } from "../../tools/repo-map";
 import { SearxSearch } from "../../tools/search";
-import simpleGit, { SimpleGit } from "simple-git";
+import { DEFAULT_ALLOWED_COMMANDS, RunCommand } from "../../tools/shell";
+import {
+    FindDefinition,
+    FindReferences,
+    GetTypeSignature,
+    ListExports,
+} from "../../tools/typescript";
+import { DevelopmentBaseAgent } from "./base-agent";
+import {
+    createPlanProgress,
+    DevelopmentPlan,
+    formatPlan,
+    formatPlanStep,
+    PlanStepProgress,
+} from "./plan";
+import simpleGit from "simple-git";
 import z from "zod";
-import pino from "pino";
-
-const logger = pino({
-    level: "info",
-    transport:
-        process.env.ENVIRONMENT === "production"
-            ? undefined
-            : { target: "pino-pretty", options: { colorize: true } },
-});
 
 export interface DevelopmentCodeWriterInvocationOptions {
-    plan: string;
+    plan: DevelopmentPlan;
+    context?: string;
+    progress?: PlanStepProgress[];
+    revisionSuggestions?: string[];
+    maxIterations?: number;
+    // The review round the agent is invoked in, which names the checkpoint of its run
+    round?: number;
 }
 
 export interface DevelopmentCodeWriterCompletePlanOptions {
-    plan: string;
+    plan: DevelopmentPlan;
+    context?: string;
+    progress?: PlanStepProgress[];
+    revisionSuggestions?: string[];
+    maxIterations?: number;
+    round?: number;
 }
 
-const AgentState = Annotation.Root({
-    messages: Annotation({ reducer: (x, y) => x.concat(y), default: () => [] }),
-    success: Annotation({ reducer: (x, y) => y ?? x, default: () => false }),
-    toolCalls: Annotation({ reducer: (x, y) => y ?? x, default: () => [] }),
-    iterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 0 }),
-    maxIterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 25 }),
+export interface DevelopmentCodeWriterCompletePlanResponse {
+    completed: boolean;
+    progress: PlanStepProgress[];
+}
+
+const responseSchema = z.object({
+    success: z
+        .boolean()
+        .describe(
+            "Indicates whether the code writing & commit were successful."
+        ),
+    summary: z
+        .string()
+        .describe(
+            "A short summary of what was changed, or why the work could not be completed."
+        ),
 });
 
-export class DevelopmentCodeWriter {
-    private threadId: string;
+export class DevelopmentCodeWriter extends DevelopmentBaseAgent<
+    typeof responseSchema
+> {
     private tempPath: string;
-    private tools: Tool[];
-    private responseSchema = z.object({
-        success: z
-            .boolean()
-            .describe(
-                "Indicates whether the code writing & commit were successful."
-            ),
-    });
-    private modelInstance: BaseChatModel;
-    private agentInstance: CompiledStateGraph<unknown, unknown>;
-    private gitInstance: SimpleGit;
-    private agentLogger: pino.Logger;
 
     /**
      * Initializes the DevelopmentCodeWriter as a ReAct agent.
      */
-    constructor(tempPath: string, verbose: boolean = false) {
-        this.threadId = "development-code-writer-" + Date.now().toString();
-        this.tempPath = tempPath;
-        this.gitInstance = simpleGit();
-        this.tools = [
-            SearxSearch(),
-            ReadFile(this.tempPath, this.threadId),
-            WriteFile(this.tempPath, this.threadId),
-            DeleteFile(this.tempPath, this.threadId),
-            ListDirectory(this.tempPath, this.threadId),
-            CreateDirectory(this.tempPath, this.threadId),
-            RemoveDirectory(this.tempPath, this.threadId),
-            // SearchFiles(this.tempPath, this.threadId),
-            CommitChanges(this.gitInstance, this.threadId),
-        ];
-        this.agentLogger = logger.child({
+    constructor(
+        tempPath: string,
+        verbose: boolean = false,
+        checkpoint?: AgentCheckpointOptions
+    ) {
+        const threadId =
+            checkpoint?.threadId ??
+            "development-code-writer-" + Date.now().toString();
+        const gitInstance = simpleGit(tempPath);
+
+        super({
+            threadId: threadId,
             module: "teams/development/code-writer",
-            threadId: this.threadId,
-        });
-
-        this.modelInstance = createModelInstance({
-            temperature: 0.7,
-            maxRetries: 4,
+            role: "writer",
+            systemPrompt:
+                "You are a professional code writer. You are given one step of a plan at a time to implement and you must use the tools provided to you to read, write, and modify files in the project repository. Prefer the edit file, replace lines and apply patch tools for changes to existing files, and only use the write file tool to create new files. You do not need to write any tests, as that will be done by another agent, but you can use the run command tool to install dependencies, build and lint the project. You can also search for information online using the Searx search tool. Only implement the step you are given, as later steps will be given to you afterwards. Make sure to commit your changes to the repository after implementing the step. Commit messages must follow the Conventional Commits specification. Output a JSON response with the following structure: { success: true/false, summary: 'What was changed' } only once you have written the code and committed it.",
+            tools: [
+                SearxSearch(),
+                ReadFile(tempPath, threadId),
+                WriteFile(tempPath, threadId),
+                EditFile(tempPath, threadId),
+                ReplaceLines(tempPath, threadId),
+                ApplyPatch(tempPath, threadId),
+                DeleteFile(tempPath, threadId),
+                ListDirectory(tempPath, threadId),
+                CreateDirectory(tempPath, threadId),
+                RemoveDirectory(tempPath, threadId),
+                SearchFiles(tempPath, threadId),
+                GrepFiles(tempPath, threadId),
+                ListExports(tempPath, threadId),
+                FindDefinition(tempPath, threadId),
+                FindReferences(tempPath, threadId),
+                GetTypeSignature(tempPath, threadId),
+                RunCommand(tempPath, threadId, {
+                    allowedCommands: DEFAULT_ALLOWED_COMMANDS,
+                }),
+                GitStatus(gitInstance, threadId),
+                GitDiff(gitInstance, threadId),
+                GitLog(gitInstance, threadId),
+                GitBlame(gitInstance, threadId),
+                GitBranch(gitInstance, threadId),
+                GitStash(gitInstance, threadId),
+                CommitChanges(gitInstance, threadId),
+            ],
+            responseSchema: responseSchema,
             verbose: verbose,
+            checkpointer: checkpoint?.checkpointer,
         });
-        this.modelInstance.bindTools(this.tools);
 
-        this.agentInstance = this.createStateGraph();
+        this.tempPath = tempPath;
     }
 
-    private createStateGraph(): CompiledStateGraph<unknown, unknown> {
-        const workflow = new StateGraph(AgentState);
-
-        workflow.addNode("agent", this.agentNode.bind(this));
-        workflow.addNode("tools", this.toolsNode.bind(this));
-        workflow.addNode("format_response", this.formatResponseNode.bind(this));
-
-        workflow.addEdge(START, "agent");
-
-        workflow.addConditionalEdges("agent", this.shouldContinue.bind(this), {
-            continue: "tools",
-            format: "format_response",
-            end: END,
-        });
-
-        workflow.addEdge("tools", "agent");
-        workflow.addEdge("format_response", END);
+    async init(): Promise<DevelopmentCodeWriter> {
+        this.repositoryMap = await getRepositoryMap(this.tempPath);
 
-        return workflow.compile();
+        return this;
     }
 
-    private async agentNode(state) {
-        const { messages, iterations, maxIterations } = state;
+    async dispose(): Promise<void> {}
 
-        if (iterations >= maxIterations) {
-            return {
-                ...state,
-                messages: [
-                    ...messages,
-                    new AIMessage({
-                        content: JSON.stringify({
-                            plan: "Maximum iterations reached. Unable to complete task.",
-                        }),
-                    }),
-                ],
-            };
-        }
-
-        const systemMessage = new SystemMessage({
-            content:
-                "You are a professional code writer. You are given a plan to implement and you must use the tools provided to you to read, write, and modify files in the project repository. You do not need to do any testing, as that will be done by another agent. You can also search for information online using the Searx search tool. Make sure to commit your changes to the repository after implementing the plan. Commit messages must follow the Conventional Commits specification. Output a JSON response with the following structure: { success: true/false } only once you have written the code and committed it.",
+    /**
+     * Invokes the agent with the specified task and data.
+     * @param {DevelopmentCodeWriterInvocationOptions} options - The options for invoking the agent.
+     * @returns {Promise<DevelopmentCodeWriterCompletePlanResponse>} Whether the plan was completed, and the progress of every step.
+     */
+    async invoke(
+        options: DevelopmentCodeWriterInvocationOptions
+    ): Promise<DevelopmentCodeWriterCompletePlanResponse> {
+        const {
+            plan,
+            context,
+            progress,
+            revisionSuggestions,
+            maxIterations,
+            round,
+        } = options;
+
+        return this.completePlan({
+            plan,
+            context,
+            progress,
+            revisionSuggestions,
+            maxIterations,
+            round,
         });
+    }
 
-        const TOKEN_LIMIT = 30000;
-        const CHUNK_SIZE = 25000;
-
-        const estimateTokens = (msgs) => {
-            const totalCharacters = msgs.reduce(
-                (acc, msg) => acc + (msg.content?.length || 0),
-                0
-            );
-            return Math.ceil(totalCharacters / 4);
-        };
-
-        const chunkMessage = (message, maxTokens = 5000) => {
-            const maxChars = maxTokens * 4;
-            if (!message.content || message.content.length <= maxChars) {
-                return [message];
-            }
-
-            const chunks = [];
-            const content = message.content;
-            let startIndex = 0;
-
-            while (startIndex < content.length) {
-                const endIndex = Math.min(
-                    startIndex + maxChars,
-                    content.length
-                );
-                let chunkEnd = endIndex;
-
-                // Try to break at natural boundaries (newlines, periods, spaces)
-                if (endIndex < content.length) {
-                    const lastNewline = content.lastIndexOf("\n", endIndex);
-                    const lastPeriod = content.lastIndexOf(".", endIndex);
-                    const lastSpace = content.lastIndexOf(" ", endIndex);
-
-                    // Use the best break point, but ensure we make progress
-                    const breakPoint = Math.max(
-                        lastNewline,
-                        lastPeriod,
-                        lastSpace
-                    );
-                    if (breakPoint > startIndex + maxChars * 0.5) {
-                        chunkEnd = breakPoint + 1;
-                    }
-                }
-
-                const chunkContent = content.substring(startIndex, chunkEnd);
-                const chunkSuffix =
-                    startIndex > 0
-                        ? ` [Chunk ${Math.floor(startIndex / maxChars) + 1}]`
-                        : chunkEnd < content.length
-                          ? " [Chunk 1]"
-                          : "";
-
-                chunks.push(
-                    new message.constructor({
-                        content: chunkContent + chunkSuffix,
-                        ...message,
-                    })
-                );
-
-                startIndex = chunkEnd;
-            }
-
-            return chunks;
-        };
-
-        // Chunk large messages first
-        let processedMessages = [];
-        for (const message of messages) {
-            const messageTokens = estimateTokens([message]);
-            if (messageTokens > 5000) {
-                const chunks = chunkMessage(message, 5000);
-                processedMessages.push(...chunks);
-            } else {
-                processedMessages.push(message);
-            }
-        }
-
-        let filteredMessages = [...processedMessages];
-        let allMessages = [systemMessage, ...filteredMessages];
-        let tokenEstimate = estimateTokens(allMessages);
-
-        // Remove oldest messages (excluding system message) until under token limit
-        while (tokenEstimate > CHUNK_SIZE && filteredMessages.length > 0) {
-            filteredMessages = filteredMessages.slice(1); // Remove oldest message
-            allMessages = [systemMessage, ...filteredMessages];
-            tokenEstimate = estimateTokens(allMessages);
-        }
-
-        // If still over limit with just system message, chunk the system message
-        if (tokenEstimate > CHUNK_SIZE) {
-            const systemTokens = estimateTokens([systemMessage]);
-            if (systemTokens > CHUNK_SIZE) {
-                const chunkedSystemMessages = chunkMessage(
-                    systemMessage,
-                    CHUNK_SIZE - 1000
-                );
-                // Use only the first chunk of system message to stay within limits
-                allMessages = [chunkedSystemMessages[0], ...filteredMessages];
-                tokenEstimate = estimateTokens(allMessages);
-            }
-        }
-
-        this.agentLogger.info(
-            `Final token estimate: ${tokenEstimate}/${TOKEN_LIMIT} (${filteredMessages.length} messages retained)`
+    /**
+     * Completes the plan by implementing its steps one at a time, skipping steps that are already complete.
+     * Stops at the first step that fails, so that the plan can be resumed from the returned progress.
+     * Once every step is complete, any review suggestions are addressed.
+     * @param {DevelopmentCodeWriterCompletePlanOptions} data - The data for the plan to be implemented.
+     * @returns {Promise<DevelopmentCodeWriterCompletePlanResponse>} Whether the plan was completed, and the progress of every step.
+     */
+    private async completePlan(
+        data: DevelopmentCodeWriterCompletePlanOptions
+    ): Promise<DevelopmentCodeWriterCompletePlanResponse> {
+        const progress = (data.progress ?? createPlanProgress(data.plan)).map(
+            (stepProgress) => ({ ...stepProgress })
         );
-
-        let response: AIMessage;
-
-        for (let i = 0; i < 3; i++) {
-            response = await this.modelInstance.invoke(allMessages, {
-                recursionLimit: 100,
-                configurable: { thread_id: this.threadId },
-            });
-
-            if (response.content.length > 0) {
-                break;
-            }
-        }
-
-        this.agentLogger.info(
-            `Agent response: ${(response.content as string).substring(0, 100)} (Iteration: ${iterations + 1})`
+        const resuming = progress.some(
+            (stepProgress) => !stepProgress.completed
         );
 
-        return {
-            ...state,
-            messages: [...messages, response],
-            iterations: iterations + 1,
-        };
-    }
-    private async toolsNode(state) {
-        const { messages } = state;
-        const lastMessage = messages[messages.length - 1];
-
-        const toolCalls = lastMessage.tool_calls || [];
-        const toolMessages = [];
+        const contextText = data.context ? `${data.context}\n\n` : "";
+        const planText = formatPlan(data.plan);
+        const round = data.round ?? 1;
 
-        for (const toolCall of toolCalls) {
-            const tool = this.tools.find((t) => t.name === toolCall.name);
-            if (tool) {
-                try {
-                    const result = await tool.invoke(toolCall.args);
-                    this.agentLogger.info(
-                        `Tool ${toolCall.name} executed successfully with result: ${JSON.stringify(result).substring(0, 100)}`
-                    );
-                    toolMessages.push({
-                        role: "tool",
-                        content: JSON.stringify(result),
-                        tool_call_id: toolCall.id,
-                    });
-                } catch (error) {
-                    this.agentLogger.error(
-                        `Error executing tool ${toolCall.name}: ${error.message}`
-                    );
-                    toolMessages.push({
-                        role: "tool",
-                        content: `Error executing ${toolCall.name}: ${error.message}`,
-                        tool_call_id: toolCall.id,
-                    });
-                }
+        // Get code writer agent instance to implement each remaining step of the plan
+        for (const stepProgress of progress) {
+            if (stepProgress.completed) {
+                continue;
             }
-        }
 
-        return { ...state, messages: [...messages, ...toolMessages] };
-    }
-    private async formatResponseNode(state) {
-        const { messages } = state;
+            const step = data.plan.steps[stepProgress.step - 1];
+            const completedSteps = progress.filter((other) => other.completed);
+            const completedText =
+                completedSteps.length > 0
+                    ? `These steps are already complete:\n${completedSteps.map((other) => `${other.step}. ${other.title}: ${other.summary}`).join("\n")}\n\n`
+                    : "";
 
-        const response = await createModelInstance({
-            temperature: 0,
-            maxRetries: 3,
-            verbose: false,
-        })
-            .withStructuredOutput(this.responseSchema, {
-                includeRaw: true,
-                name: "format_response",
-            })
-            .invoke(
+            const stepResponse = await this.run(
                 [
-                    ...messages,
                     new HumanMessage({
-                        content: "Please format the response as valid JSON.",
+                        content: `${contextText}The following plan has been compiled for you to complete:\n\n${planText}\n\n${completedText}Implement step ${stepProgress.step} of ${progress.length} now:\n\n${formatPlanStep(step, stepProgress.step)}\n\nRead and edit files & directories to implement only this step.`,
                     }),
                 ],
-                {
-                    recursionLimit: 25,
-                    configurable: { thread_id: this.threadId },
-                }
+                `round-${round}:step-${stepProgress.step}`,
+                data.maxIterations
             );
 
-        try {
-            const parsedResponse = response.parsed;
-            const validatedResponse = this.responseSchema.parse(parsedResponse);
+            stepProgress.summary =
+                stepResponse?.summary ??
+                "The code writer did not report on this step.";
 
-            return {
-                ...state,
-                success: validatedResponse.success,
-                messages: [
-                    ...messages,
-                    new AIMessage({
-                        content: JSON.stringify(validatedResponse),
-                    }),
-                ],
-            };
-        } catch (error) {
-            return {
-                ...state,
-                messages: [
-                    ...messages,
-                    new HumanMessage({
-                        content: `The response format is invalid. Please provide a valid JSON response with the required structure: ${JSON.stringify(this.responseSchema.shape)}`,
-                    }),
-                ],
-            };
-        }
-    }
-    private shouldContinue(state) {
-        const { messages, iterations, maxIterations } = state;
-        const lastMessage = messages[messages.length - 1];
+            if (!stepResponse?.success) {
+                this.agentLogger.warn(
+                    `Step ${stepProgress.step}/${progress.length} failed: ${stepProgress.summary}`
+                );
 
-        if (iterations >= maxIterations) {
-            return "end";
-        }
+                return { completed: false, progress: progress };
+            }
 
-        if (lastMessage.tool_calls && lastMessage.tool_calls.length > 0) {
-            return "continue";
+            stepProgress.completed = true;
+            this.agentLogger.info(
+                `Completed step ${stepProgress.step}/${progress.length}: ${stepProgress.title}`
+            );
         }
 
+        // Suggestions only apply to a finished implementation, so they are skipped while steps are still being resumed
         if (
-            lastMessage.content &&
-            (lastMessage.content.includes("{") ||
-                lastMessage.content.includes("```"))
+            !resuming &&
+            data.revisionSuggestions &&
+            data.revisionSuggestions.length > 0
         ) {
-            return "format";
-        }
-
-        return "end";
-    }
-
-    async init(): Promise<DevelopmentCodeWriter> {
-        // await cloneRepository(
-        //     this.gitInstance,
-        //     "https://github.com/woody-willis/artificial-agentics.git",
-        //     this.tempPath,
-        //     this.threadId
-        // );
-
-        return this;
-    }
-
-    async dispose(): Promise<void> {
-        // if (this.tempPath) {
-        //     deleteTempAgentDirectory(this.tempPath);
-        // }
-    }
-
-    /**
-     * Invokes the agent with the specified task and data.
-     * @param {DevelopmentCodeWriterInvocationOptions} options - The options for invoking the agent.
-     * @returns {Promise<string>} The response from the agent.
-     */
-    async invoke(
-        options: DevelopmentCodeWriterInvocationOptions
-    ): Promise<boolean> {
-        const { plan } = options;
-
-        return this.completePlan({ plan });
-    }
-
-    /**
-     * Completes the plan by implementing the code based on the provided plan.
-     * @param {DevelopmentCodeWriterCompletePlanOptions} data - The data for the plan to be implemented.
-     * @returns {Promise<boolean>} True if the plan was implemented successfully, false otherwise.
-     */
-    private async completePlan(
-        data: DevelopmentCodeWriterCompletePlanOptions
-    ): Promise<boolean> {
-        // Get code writer agent instance to implement the plan
-        const initialState = {
-            ...AgentState,
-            messages: [
-                new HumanMessage({
-                    content: `The following plan has been compiled for you to complete: ${data.plan}\n\nRead and edit files & directories to implement this plan.`,
-                }),
-            ],
-            iterations: 0,
-        };
-
-        const implementationResponse =
-            await this.agentInstance.invoke(initialState);
-        const success = implementationResponse.success;
+            const revisionResponse = await this.run(
+                [
+                    new HumanMessage({
+                        content: `${contextText}You have already implemented the following plan:\n\n${planText}\n\nThe code reviewer rejected your changes with these suggestions:\n${data.revisionSuggestions.map((suggestion, index) => `${index + 1}. ${suggestion}`).join("\n")}\n\nRead and edit files & directories to address every suggestion.`,
+                    }),
+                ],
+                `round-${round}:revision`,
+                data.maxIterations
+            );
 
-        if (!success) {
-            throw new Error("Failed to implement the plan");
+            if (!revisionResponse?.success) {
+                throw new Error("Failed to address the review suggestions");
+            }
         }
 
-        return true;
+        return { completed: true, progress: progress };
     }
 }
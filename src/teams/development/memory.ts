@@ -0,0 +1,154 @@
+/**
+ * @module teams/development/memory
+ * @file This module compacts the conversation of an agent by summarising its older turns, so long runs stay within the context window.
+ */
+
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+    BaseMessage,
+    HumanMessage,
+    isAIMessage,
+    isToolMessage,
+    SystemMessage,
+} from "@langchain/core/messages";
+
+import { ContextBudget } from "../../context-budget";
+
+export interface ConversationSummary {
+    // The number of messages after the pinned task messages that the summary covers
+    summarisedMessages: number;
+    summary: string;
+}
+
+export interface CompactionRecord {
+    // The range of conversation messages summarised, from the first up to but excluding the last
+    fromMessage: number;
+    toMessage: number;
+    summarisedTokens: number;
+    summaryTokens: number;
+    toolCalls: string[];
+    createdAt: string;
+}
+
+const SUMMARY_PROMPT = `You maintain the working memory of a software development agent whose conversation no longer fits in its context window.
+Summarise the conversation you are given, merging it into the existing summary if there is one.
+Keep everything the agent needs to continue its task: files read and changed, decisions made and why, important tool results, errors and how they were handled, and the work that remains.
+Refer to files, symbols and commands by their exact names. Do not restate the original task, the agent still has it.
+Respond with the summary only.`;
+
+/**
+ * Groups messages into turns that must be kept or summarised together. A model message that calls tools forms
+ * one turn with the tool results that follow it, so a tool result is never separated from its tool call.
+ * @param {BaseMessage[]} messages - The messages to group.
+ * @returns {BaseMessage[][]} The turns, in order.
+ */
+export function groupMessageTurns(messages: BaseMessage[]): BaseMessage[][] {
+    const turns: BaseMessage[][] = [];
+
+    for (const message of messages) {
+        if (isToolMessage(message) && turns.length > 0) {
+            turns[turns.length - 1].push(message);
+        } else {
+            turns.push([message]);
+        }
+    }
+
+    return turns;
+}
+
+/**
+ * Creates the message that stands in for the summarised part of the conversation.
+ * @param {ConversationSummary} summary - The summary of the conversation.
+ * @returns {HumanMessage} The message to send in place of the summarised messages.
+ */
+export function createSummaryMessage(
+    summary: ConversationSummary
+): HumanMessage {
+    return new HumanMessage({
+        content: `Summary of the ${summary.summarisedMessages} earlier messages of this conversation, which no longer fit in the context window:\n\n${summary.summary}`,
+    });
+}
+
+/**
+ * Formats messages into a plain text transcript, including tool calls and tool results.
+ * @param {BaseMessage[]} messages - The messages to format.
+ * @returns {string} The transcript.
+ */
+const formatTranscript = (messages: BaseMessage[]): string =>
+    messages
+        .map((message) => {
+            const content =
+                typeof message.content === "string"
+                    ? message.content
+                    : JSON.stringify(message.content);
+
+            if (isToolMessage(message)) {
+                return `Tool result (${message.tool_call_id}): ${content}`;
+            }
+            if (isAIMessage(message)) {
+                const toolCalls = (message.tool_calls ?? []).map(
+                    (toolCall) =>
+                        `Tool call (${toolCall.id}): ${toolCall.name}(${JSON.stringify(toolCall.args)})`
+                );
+                return [content ? `Agent: ${content}` : "", ...toolCalls]
+                    .filter((line) => line.length > 0)
+                    .join("\n");
+            }
+
+            return `User: ${content}`;
+        })
+        .join("\n\n");
+
+/**
+ * Summarises messages with the model, merging them into an existing summary. Transcripts too large for the model
+ * are summarised in parts, each folded into the summary of the parts before it.
+ * @param {BaseChatModel} model - The model to summarise with.
+ * @param {ContextBudget} budget - The context budget of the model.
+ * @param {string | null} previousSummary - The summary of the messages before these, if any.
+ * @param {BaseMessage[]} messages - The messages to summarise.
+ * @returns {Promise<string>} The merged summary.
+ */
+export async function summariseMessages(
+    model: BaseChatModel,
+    budget: ContextBudget,
+    previousSummary: string | null,
+    messages: BaseMessage[]
+): Promise<string> {
+    let summary = previousSummary;
+
+    for (const part of budget.splitText(
+        formatTranscript(messages),
+        Math.floor(budget.inputLimit / 2)
+    )) {
+        const response = await model.invoke([
+            new SystemMessage({ content: SUMMARY_PROMPT }),
+            new HumanMessage({
+                content: summary
+                    ? `Existing summary:\n\n${summary}\n\nConversation to merge into it:\n\n${part}`
+                    : `Conversation to summarise:\n\n${part}`,
+            }),
+        ]);
+
+        summary =
+            typeof response.content === "string"
+                ? response.content
+                : JSON.stringify(response.content);
+    }
+
+    return summary ?? "";
+}
+
+/**
+ * Lists the names of the tools called in messages.
+ * @param {BaseMessage[]} messages - The messages to search.
+ * @returns {string[]} The tool names, without duplicates.
+ */
+export function listToolCalls(messages: BaseMessage[]): string[] {
+    const names = messages.flatMap((message) =>
+        isAIMessage(message)
+            ? (message.tool_calls ?? []).map((toolCall) => toolCall.name)
+            : []
+    );
+
+    return [...new Set(names)];
+}
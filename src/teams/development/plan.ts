@@ -0,0 +1,118 @@
+/**
+ * @module teams/development/plan
+ * @file This module defines the structured plan the team manager produces and the code writer executes step by step.
+ */
+
+import z from "zod";
+
+export const planFileChangeSchema = z.object({
+    path: z
+        .string()
+        .describe("The path of the file, relative to the repository root."),
+    action: z
+        .enum(["create", "modify", "delete"])
+        .describe("Whether the file is created, modified or deleted."),
+    description: z
+        .string()
+        .describe("What changes in the file and why, referencing symbols."),
+});
+
+export const planStepSchema = z.object({
+    title: z.string().describe("A short title for the step."),
+    description: z
+        .string()
+        .describe(
+            "What must be done in this step, detailed enough to implement without further research."
+        ),
+    files: z
+        .array(planFileChangeSchema)
+        .describe("The files this step creates, modifies or deletes."),
+});
+
+export const developmentPlanSchema = z.object({
+    summary: z
+        .string()
+        .describe("A short summary of the approach taken by the plan."),
+    steps: z
+        .array(planStepSchema)
+        .min(1)
+        .describe(
+            "The ordered steps of the plan. Each step must leave the code in a working state."
+        ),
+    acceptanceCriteria: z
+        .array(z.string())
+        .describe(
+            "The conditions the finished changes must meet for the task to be complete."
+        ),
+    risks: z
+        .array(z.string())
+        .describe(
+            "What could go wrong or break, such as affected callers or edge cases."
+        ),
+});
+
+export type PlanFileChange = z.infer<typeof planFileChangeSchema>;
+export type PlanStep = z.infer<typeof planStepSchema>;
+export type DevelopmentPlan = z.infer<typeof developmentPlanSchema>;
+
+export interface PlanStepProgress {
+    step: number;
+    title: string;
+    completed: boolean;
+    summary: string;
+}
+
+/**
+ * Creates the progress of a plan before any of its steps have been executed.
+ * @param {DevelopmentPlan} plan - The plan to track.
+ * @returns {PlanStepProgress[]} One incomplete entry per step, in order.
+ */
+export function createPlanProgress(plan: DevelopmentPlan): PlanStepProgress[] {
+    return plan.steps.map((step, index) => ({
+        step: index + 1,
+        title: step.title,
+        completed: false,
+        summary: "",
+    }));
+}
+
+/**
+ * Formats a single step of a plan, including the files it touches.
+ * @param {PlanStep} step - The step to format.
+ * @param {number} stepNumber - The position of the step in the plan, starting at 1.
+ * @returns {string} The formatted step.
+ */
+export function formatPlanStep(step: PlanStep, stepNumber: number): string {
+    return [
+        `${stepNumber}. ${step.title}`,
+        `   ${step.description}`,
+        ...step.files.map(
+            (file) => `   - ${file.action} ${file.path}: ${file.description}`
+        ),
+    ].join("\n");
+}
+
+/**
+ * Formats a plan into a human-readable description for agents and pull requests.
+ * @param {DevelopmentPlan} plan - The plan to format.
+ * @returns {string} The formatted plan.
+ */
+export function formatPlan(plan: DevelopmentPlan): string {
+    const sections = [
+        plan.summary,
+        `Steps:\n${plan.steps.map((step, index) => formatPlanStep(step, index + 1)).join("\n")}`,
+    ];
+
+    if (plan.acceptanceCriteria.length > 0) {
+        sections.push(
+            `Acceptance criteria:\n${plan.acceptanceCriteria.map((criterion) => `- ${criterion}`).join("\n")}`
+        );
+    }
+    if (plan.risks.length > 0) {
+        sections.push(
+            `Risks:\n${plan.risks.map((risk) => `- ${risk}`).join("\n")}`
+        );
+    }
+
+    return sections.join("\n\n");
+}
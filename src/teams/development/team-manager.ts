@@ -5,45 +5,66 @@
 
 import "dotenv/config";
 
-import {
-    Annotation,
-    CompiledStateGraph,
-    END,
-    START,
-    StateGraph,
-} from "@langchain/langgraph";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import {
-    AIMessage,
-    HumanMessage,
-    SystemMessage,
-} from "@langchain/core/messages";
+import { HumanMessage } from "@langchain/core/messages";
 
-import { createModelInstance } from "../../model";
+import { AgentCheckpointOptions, FileCheckpointer } from "../../checkpointer";
 import {
     createTempAgentDirectory,
     deleteTempAgentDirectory,
+    GrepFiles,
     ListDirectory,
     PathExists,
     ReadFile,
     SearchFiles,
 } from "../../tools/file-system";
-import { cloneRepository } from "../../tools/git";
-import { Tool } from "@langchain/core/tools";
+import { Forge, PullRequest } from "../../tools/forge";
+import {
+    captureChanges,
+    ChangeSet,
+    cloneRepository,
+    CommitAuthor,
+    configureCommitAuthor,
+    GitBlame,
+    GitDiff,
+    GitLog,
+    GitStatus,
+    pushChanges,
+} from "../../tools/git";
+import { getRepositoryMap } from "../../tools/repo-map";
 import { SearxSearch } from "../../tools/search";
+import { detectTestCommand, runTestCommand } from "../../tools/testing";
+import {
+    FindDefinition,
+    FindReferences,
+    GetTypeSignature,
+    ListExports,
+    unloadTypeScriptProject,
+} from "../../tools/typescript";
+import { AgentWorkspace, WorkspaceManager } from "../../tools/workspace";
+import {
+    ALL_APPROVAL_GATES,
+    ApprovalDecision,
+    ApprovalGate,
+    ApprovalRecord,
+    ApprovalRequest,
+    Approver,
+    requestApproval,
+} from "./approval";
+import { DevelopmentBaseAgent } from "./base-agent";
 import { DevelopmentCodeWriter } from "./code-writer";
+import {
+    createPlanProgress,
+    DevelopmentPlan,
+    developmentPlanSchema,
+    formatPlan,
+    PlanStepProgress,
+} from "./plan";
+import * as fs from "fs";
+import * as path from "path";
 import simpleGit, { SimpleGit } from "simple-git";
 import z from "zod";
-import pino from "pino";
 import { DevelopmentCodeReviewer } from "./code-reviewer";
-
-const logger = pino({
-    level: "info",
-    transport:
-        process.env.ENVIRONMENT === "production"
-            ? undefined
-            : { target: "pino-pretty", options: { colorize: true } },
-});
+import { DevelopmentTester } from "./tester";
 
 export enum DevelopmentTeamManagerInvocationTask {
     AddFeature = "AddFeature",
@@ -53,6 +74,63 @@ export enum DevelopmentTeamManagerInvocationTask {
 export interface DevelopmentTeamManagerInvocationOptions {
     task: DevelopmentTeamManagerInvocationTask;
     data: Record<string, any>;
+    maxReviewRounds?: number;
+    runTests?: boolean;
+    testCommand?: string;
+    push?: boolean;
+    openPullRequest?: boolean;
+    approver?: Approver;
+    approvalGates?: ApprovalGate[];
+}
+
+export interface DevelopmentTeamManagerTestReport {
+    command: string;
+    // Whether the test command exited successfully when the team manager ran it, regardless of what the tester reported
+    passed: boolean;
+    exitCode: number | null;
+    timedOut: boolean;
+    output: string;
+    // The tester's summary of the tests it wrote and ran
+    summary: string;
+}
+
+export interface DevelopmentTeamManagerReviewRound {
+    round: number;
+    approved: boolean;
+    suggestions: string[];
+    testReport?: DevelopmentTeamManagerTestReport;
+}
+
+export interface DevelopmentTeamManagerInvocationResult {
+    approved: boolean;
+    testsPassed: boolean | null;
+    plan: DevelopmentPlan;
+    planProgress: PlanStepProgress[];
+    reviewRounds: DevelopmentTeamManagerReviewRound[];
+    baseCommit: string;
+    changes: ChangeSet | null;
+    pushedBranch: string | null;
+    pullRequest: PullRequest | null;
+    approvals: ApprovalRecord[];
+}
+
+export interface DevelopmentTeamManagerRepositoryOptions {
+    url?: string;
+    baseBranch?: string;
+    workingBranch?: string;
+    sparseCheckoutPaths?: string[];
+    author?: CommitAuthor;
+    forge?: Forge;
+}
+
+export interface DevelopmentTeamManagerCheckpointOptions {
+    checkpointer: FileCheckpointer;
+    // The thread of an interrupted run to resume, or of a new run to start
+    threadId?: string;
+}
+
+export interface DevelopmentTeamManagerResumeOptions {
+    approver?: Approver;
 }
 
 export interface DevelopmentTeamManagerAddFeatureOptions {
@@ -69,463 +147,1007 @@ export interface DevelopmentTeamManagerFixBugOptions {
     additionalInfo?: string;
 }
 
-const AgentState = Annotation.Root({
-    messages: Annotation({ reducer: (x, y) => x.concat(y), default: () => [] }),
-    plan: Annotation({ reducer: (x, y) => y ?? x, default: () => null }),
-    toolCalls: Annotation({ reducer: (x, y) => y ?? x, default: () => [] }),
-    iterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 0 }),
-    maxIterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 25 }),
+interface FixBugSeverityBudget {
+    planningIterations: number;
+    writingIterations: number;
+    reviewIterations: number;
+    reviewInstructions: string;
+}
+
+interface RunSettings {
+    maxReviewRounds: number;
+    runTests: boolean;
+    testCommand?: string;
+    push: boolean;
+    openPullRequest: boolean;
+    approver: Approver | null;
+    approvalGates: ApprovalGate[];
+}
+
+// What a checkpointed run needs to be resumed, besides the checkpoints of its agents
+interface DevelopmentTeamManagerRunState {
+    tempPath: string;
+    repository: Omit<DevelopmentTeamManagerRepositoryOptions, "forge">;
+    baseBranch: string;
+    invocation?: Omit<DevelopmentTeamManagerInvocationOptions, "approver">;
+    baseCommit?: string;
+    writerWorkspace?: AgentWorkspace;
+    // The results of side effects that completed, such as merging a round or pushing, keyed by name
+    completedEffects?: Record<string, unknown>;
+    result?: DevelopmentTeamManagerInvocationResult;
+}
+
+interface WriteAndReviewOptions extends RunSettings {
+    title: string;
+    plan: DevelopmentPlan;
+    writerContext?: string;
+    writerIterations?: number;
+    reviewContext?: string;
+    reviewIterations?: number;
+}
+
+const DEFAULT_REPOSITORY_URL =
+    "https://github.com/woody-willis/artificial-agentics.git";
+
+// The number of characters at the end of failing test output sent back to the code writer
+const FAILED_TEST_OUTPUT_LENGTH = 4_000;
+
+const FIX_BUG_SEVERITY_BUDGETS: Record<
+    DevelopmentTeamManagerFixBugOptions["severity"],
+    FixBugSeverityBudget
+> = {
+    low: {
+        planningIterations: 15,
+        writingIterations: 15,
+        reviewIterations: 10,
+        reviewInstructions:
+            "This is a low severity bug. Focus on whether the fix addresses the described behaviour without introducing obvious regressions.",
+    },
+    medium: {
+        planningIterations: 25,
+        writingIterations: 25,
+        reviewIterations: 15,
+        reviewInstructions:
+            "This is a medium severity bug. Check that the fix addresses the root cause rather than the symptom and matches the style of the surrounding code.",
+    },
+    high: {
+        planningIterations: 35,
+        writingIterations: 40,
+        reviewIterations: 25,
+        reviewInstructions:
+            "This is a high severity bug. Read every file touched by the diff, check that the root cause is fixed, that edge cases around the reported location are handled and that no related code paths are left broken.",
+    },
+    critical: {
+        planningIterations: 50,
+        writingIterations: 60,
+        reviewIterations: 35,
+        reviewInstructions:
+            "This is a critical severity bug. Be extremely strict: read every file touched by the diff and its callers, verify the root cause is fixed for every reproduction step, and reject the change if anything is unclear, incomplete or risky.",
+    },
+};
+
+const responseSchema = z.object({
+    plan: developmentPlanSchema.describe(
+        "The detailed plan for the task, split into ordered steps that reference the files to create, modify or delete."
+    ),
+    reproduction: z
+        .string()
+        .optional()
+        .describe(
+            "When fixing a bug, the minimal steps or code that reproduce the bug, referencing the exact files and lines involved."
+        ),
 });
 
-export class DevelopmentTeamManager {
-    private threadId: string;
+export class DevelopmentTeamManager extends DevelopmentBaseAgent<
+    typeof responseSchema
+> {
     private tempPath: string;
-    private tools: Tool[];
-    private responseSchema = z.object({
-        plan: z
-            .string()
-            .describe(
-                "The detailed plan for the task, including references to files to modify, create, or delete."
-            ),
-    });
-    private modelInstance: BaseChatModel;
-    private agentInstance: CompiledStateGraph<unknown, unknown>;
     private gitInstance: SimpleGit;
-    private agentLogger: pino.Logger;
+    private repository: DevelopmentTeamManagerRepositoryOptions;
+    private baseBranch: string | null = null;
+    private checkpoint: DevelopmentTeamManagerCheckpointOptions | null;
+    private runState: DevelopmentTeamManagerRunState | null;
 
     /**
      * Initializes the DevelopmentTeamManager as a ReAct agent.
+     * @param {DevelopmentTeamManagerRepositoryOptions} repository - The repository to work on, as a URL or local path, and the branches and paths to check out.
+     * @param {boolean} verbose - Whether to log the model's output.
+     * @param {DevelopmentTeamManagerCheckpointOptions} [checkpoint] - Where to checkpoint the run, keeping its workspace until it finishes so it can be resumed.
      */
-    constructor(verbose: boolean = false) {
-        this.threadId = "development-team-manager-" + Date.now().toString();
-        this.tempPath = createTempAgentDirectory();
-        this.gitInstance = simpleGit();
-        this.tools = [
-            SearxSearch(),
-            ReadFile(this.tempPath, this.threadId),
-            ListDirectory(this.tempPath, this.threadId),
-            PathExists(this.tempPath, this.threadId),
-            // SearchFiles(this.tempPath, this.threadId)
-        ];
-
-        this.agentLogger = logger.child({
+    constructor(
+        repository: DevelopmentTeamManagerRepositoryOptions = {},
+        verbose: boolean = false,
+        checkpoint?: DevelopmentTeamManagerCheckpointOptions
+    ) {
+        const threadId =
+            checkpoint?.threadId ??
+            "development-team-manager-" + Date.now().toString();
+        const runState =
+            checkpoint?.checkpointer.loadRunState<DevelopmentTeamManagerRunState>(
+                threadId
+            ) ?? null;
+        if (runState && !runState.result && !fs.existsSync(runState.tempPath)) {
+            throw new Error(
+                `The workspace of run ${threadId} no longer exists at ${runState.tempPath}`
+            );
+        }
+        const tempPath =
+            runState && fs.existsSync(runState.tempPath)
+                ? runState.tempPath
+                : createTempAgentDirectory();
+        const gitInstance = simpleGit(tempPath);
+
+        super({
+            threadId: threadId,
             module: "teams/development/team-manager",
-            threadId: this.threadId,
-        });
-
-        this.modelInstance = createModelInstance({
-            temperature: 0.7,
-            maxRetries: 4,
+            role: "manager",
+            systemPrompt:
+                "You are the team manager of a development team. You are given a task for which you must create a detailed plan to achieve that task. You must use the tools provided to you to gather information. The plan must align with the style and language already used in the codebase. Use the read file, list directory and grep files tools to explore the codebase. In TypeScript or JavaScript code, use the list exports, find definition, find references and get type signature tools to follow the code structure rather than reading files one by one. Do not write any code. Output a detailed plan in the format: { plan: { summary: 'The approach', steps: [{ title: 'Step title', description: 'What to do', files: [{ path: 'src/file.ts', action: 'create/modify/delete', description: 'What changes' }] }], acceptanceCriteria: ['Criterion'], risks: ['Risk'] } } only once you have gathered enough information and done enough enumeration. Order the steps so that each one builds on the previous ones. When fixing a bug, also include a reproduction in the format: { plan: { ... }, reproduction: 'How to reproduce the bug' }.",
+            tools: [
+                SearxSearch(),
+                ReadFile(tempPath, threadId),
+                ListDirectory(tempPath, threadId),
+                PathExists(tempPath, threadId),
+                SearchFiles(tempPath, threadId),
+                GrepFiles(tempPath, threadId),
+                ListExports(tempPath, threadId),
+                FindDefinition(tempPath, threadId),
+                FindReferences(tempPath, threadId),
+                GetTypeSignature(tempPath, threadId),
+                GitStatus(gitInstance, threadId),
+                GitDiff(gitInstance, threadId),
+                GitLog(gitInstance, threadId),
+                GitBlame(gitInstance, threadId),
+            ],
+            responseSchema: responseSchema,
             verbose: verbose,
+            checkpointer: checkpoint?.checkpointer,
         });
-        this.modelInstance.bindTools(this.tools);
 
-        this.agentInstance = this.createStateGraph();
+        this.tempPath = tempPath;
+        this.gitInstance = simpleGit();
+        this.repository = { ...runState?.repository, ...repository };
+        this.checkpoint = checkpoint ?? null;
+        this.runState = runState;
     }
 
-    private createStateGraph(): CompiledStateGraph<unknown, unknown> {
-        const workflow = new StateGraph(AgentState);
-
-        workflow.addNode("agent", this.agentNode.bind(this));
-        workflow.addNode("tools", this.toolsNode.bind(this));
-        workflow.addNode("format_response", this.formatResponseNode.bind(this));
-
-        workflow.addEdge(START, "agent");
-
-        workflow.addConditionalEdges("agent", this.shouldContinue.bind(this), {
-            continue: "tools",
-            format: "format_response",
-            end: END,
+    async init(): Promise<DevelopmentTeamManager> {
+        const {
+            url = DEFAULT_REPOSITORY_URL,
+            baseBranch,
+            workingBranch,
+            sparseCheckoutPaths,
+            author,
+        } = this.repository;
+
+        // A resumed run continues in the clone it started in
+        if (this.runState && fs.existsSync(path.join(this.tempPath, ".git"))) {
+            await this.gitInstance.cwd(this.tempPath);
+            this.baseBranch = this.runState.baseBranch;
+        } else {
+            await cloneRepository(this.gitInstance, url, this.tempPath, {
+                baseBranch,
+                workingBranch,
+                sparseCheckoutPaths,
+            });
+            this.baseBranch =
+                baseBranch ??
+                (
+                    await this.gitInstance.revparse([
+                        "--abbrev-ref",
+                        "origin/HEAD",
+                    ])
+                )
+                    .trim()
+                    .replace(/^origin\//, "");
+        }
+        // The forge is not serialisable, so a resumed run is given it again
+        await this.saveRunState({
+            tempPath: this.tempPath,
+            repository: {
+                url,
+                baseBranch,
+                workingBranch,
+                sparseCheckoutPaths,
+                author,
+            },
+            baseBranch: this.baseBranch,
         });
+        if (author) {
+            await configureCommitAuthor(this.gitInstance, author);
+        }
+        this.repositoryMap = await getRepositoryMap(this.tempPath);
 
-        workflow.addEdge("tools", "agent");
-        workflow.addEdge("format_response", END);
-
-        return workflow.compile();
+        return this;
     }
 
-    private async agentNode(state) {
-        const { messages, iterations, maxIterations } = state;
+    async dispose(): Promise<void> {
+        // Unfinished checkpointed runs keep their workspace, so they can be resumed
+        if (this.checkpoint && this.runState && !this.runState.result) {
+            this.agentLogger.info(
+                `Keeping the workspace at ${this.tempPath} to resume run ${this.threadId}`
+            );
+            unloadTypeScriptProject(this.tempPath);
+            return;
+        }
 
-        if (iterations >= maxIterations) {
-            return {
-                ...state,
-                messages: [
-                    ...messages,
-                    new AIMessage({
-                        content: JSON.stringify({
-                            plan: "Maximum iterations reached. Unable to complete task.",
-                        }),
-                    }),
-                ],
-            };
+        if (this.tempPath) {
+            unloadTypeScriptProject(this.tempPath);
+            deleteTempAgentDirectory(this.tempPath);
+        }
+    }
+
+    /**
+     * Invokes the agent with the specified task and data. A checkpointed thread runs a single task, which can only
+     * be continued with resume once it has started.
+     * @param {DevelopmentTeamManagerInvocationOptions} options - The options for invoking the agent.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The result of the task, including every round of review.
+     */
+    async invoke(
+        options: DevelopmentTeamManagerInvocationOptions
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        // The checkpoints of the agents are named after the stages of the task, so a second task would reuse them
+        if (this.checkpoint && this.runState?.invocation) {
+            throw new Error(
+                `Run ${this.threadId} already started a task, resume it or use a new thread`
+            );
         }
 
-        const systemMessage = new SystemMessage({
-            content:
-                "You are the team manager of a development team. You are given a task for which you must create a detailed plan to achieve that task. You must use the tools provided to you to gather information. The plan must align with the style and language already used in the codebase. Use the read file and list directory tools to explore the codebase. Do not write any code. Output a detailed plan in the format: { plan: 'Your detailed plan here' } only once you have gathered enough information and done enough enumeration.",
-        });
+        return this.runTask(options);
+    }
 
-        const TOKEN_LIMIT = 30000;
-        const CHUNK_SIZE = 25000;
+    /**
+     * Runs a task, skipping the stages and side effects a checkpointed run already completed.
+     * @param {DevelopmentTeamManagerInvocationOptions} options - The options for invoking the agent.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The result of the task, including every round of review.
+     */
+    private async runTask(
+        options: DevelopmentTeamManagerInvocationOptions
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        const {
+            task,
+            data,
+            maxReviewRounds = 3,
+            runTests = true,
+            testCommand,
+            push = false,
+            openPullRequest = false,
+            approver = null,
+            approvalGates = ALL_APPROVAL_GATES,
+        } = options;
+        const settings: RunSettings = {
+            maxReviewRounds,
+            runTests,
+            testCommand,
+            push,
+            openPullRequest,
+            approver,
+            approvalGates,
+        };
 
-        const estimateTokens = (msgs) => {
-            const totalCharacters = msgs.reduce(
-                (acc, msg) => acc + (msg.content?.length || 0),
-                0
+        if (openPullRequest && !this.repository.forge) {
+            throw new Error("Opening a pull request requires a forge");
+        }
+        // Pushing publishes the changes, so it is never done implicitly to open a pull request
+        if (openPullRequest && !push && this.repository.forge.requiresPush) {
+            throw new Error(
+                "Opening a pull request on this forge requires pushing the changes, so push must be enabled"
             );
-            return Math.ceil(totalCharacters / 4);
-        };
+        }
 
-        const chunkMessage = (message, maxTokens = 5000) => {
-            const maxChars = maxTokens * 4;
-            if (!message.content || message.content.length <= maxChars) {
-                return [message];
+        // Publishing must never touch the base branch, so this is checked before the run does anything
+        if (push || openPullRequest) {
+            const headBranch = (
+                await this.gitInstance.revparse(["--abbrev-ref", "HEAD"])
+            ).trim();
+            if (headBranch === this.baseBranch) {
+                throw new Error(
+                    "Pushing or opening a pull request requires a working branch different from the base branch"
+                );
             }
+        }
 
-            const chunks = [];
-            const content = message.content;
-            let startIndex = 0;
+        await this.saveRunState({
+            invocation: {
+                task,
+                data,
+                maxReviewRounds,
+                runTests,
+                testCommand,
+                push,
+                openPullRequest,
+                approvalGates,
+            },
+        });
 
-            while (startIndex < content.length) {
-                const endIndex = Math.min(
-                    startIndex + maxChars,
-                    content.length
+        let result: DevelopmentTeamManagerInvocationResult;
+        switch (task) {
+            case DevelopmentTeamManagerInvocationTask.AddFeature:
+                result = await this.addFeature(
+                    data as DevelopmentTeamManagerAddFeatureOptions,
+                    settings
                 );
-                let chunkEnd = endIndex;
-
-                // Try to break at natural boundaries (newlines, periods, spaces)
-                if (endIndex < content.length) {
-                    const lastNewline = content.lastIndexOf("\n", endIndex);
-                    const lastPeriod = content.lastIndexOf(".", endIndex);
-                    const lastSpace = content.lastIndexOf(" ", endIndex);
-
-                    // Use the best break point, but ensure we make progress
-                    const breakPoint = Math.max(
-                        lastNewline,
-                        lastPeriod,
-                        lastSpace
-                    );
-                    if (breakPoint > startIndex + maxChars * 0.5) {
-                        chunkEnd = breakPoint + 1;
-                    }
-                }
-
-                const chunkContent = content.substring(startIndex, chunkEnd);
-                const chunkSuffix =
-                    startIndex > 0
-                        ? ` [Chunk ${Math.floor(startIndex / maxChars) + 1}]`
-                        : chunkEnd < content.length
-                          ? " [Chunk 1]"
-                          : "";
-
-                chunks.push(
-                    new message.constructor({
-                        content: chunkContent + chunkSuffix,
-                        ...message,
-                    })
+                break;
+            case DevelopmentTeamManagerInvocationTask.FixBug:
+                result = await this.fixBug(
+                    data as DevelopmentTeamManagerFixBugOptions,
+                    settings
                 );
+                break;
+            default:
+                throw new Error(`Unknown task: ${task}`);
+        }
 
-                startIndex = chunkEnd;
-            }
+        await this.saveRunState({ result });
 
-            return chunks;
-        };
+        return result;
+    }
 
-        // Chunk large messages first
-        let processedMessages = [];
-        for (const message of messages) {
-            const messageTokens = estimateTokens([message]);
-            if (messageTokens > 5000) {
-                const chunks = chunkMessage(message, 5000);
-                processedMessages.push(...chunks);
-            } else {
-                processedMessages.push(message);
-            }
+    /**
+     * Resumes the interrupted run of the thread the manager was created with. Agents that finished return their
+     * checkpointed responses, the agent that was interrupted continues from its last completed node, and decided
+     * approval gates keep their decisions.
+     * @param {DevelopmentTeamManagerResumeOptions} [options] - The approver to ask at approval gates that were not decided yet.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The result of the run.
+     */
+    async resume(
+        options: DevelopmentTeamManagerResumeOptions = {}
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        if (!this.checkpoint || !this.runState?.invocation) {
+            throw new Error(`There is no run to resume for ${this.threadId}`);
+        }
+        if (this.runState.result) {
+            return this.runState.result;
         }
 
-        let filteredMessages = [...processedMessages];
-        let allMessages = [systemMessage, ...filteredMessages];
-        let tokenEstimate = estimateTokens(allMessages);
+        this.agentLogger.info(`Resuming run ${this.threadId}`);
 
-        // Remove oldest messages (excluding system message) until under token limit
-        while (tokenEstimate > CHUNK_SIZE && filteredMessages.length > 0) {
-            filteredMessages = filteredMessages.slice(1); // Remove oldest message
-            allMessages = [systemMessage, ...filteredMessages];
-            tokenEstimate = estimateTokens(allMessages);
-        }
+        return this.runTask({
+            ...this.runState.invocation,
+            approver: options.approver,
+        });
+    }
 
-        // If still over limit with just system message, chunk the system message
-        if (tokenEstimate > CHUNK_SIZE) {
-            const systemTokens = estimateTokens([systemMessage]);
-            if (systemTokens > CHUNK_SIZE) {
-                const chunkedSystemMessages = chunkMessage(
-                    systemMessage,
-                    CHUNK_SIZE - 1000
-                );
-                // Use only the first chunk of system message to stay within limits
-                allMessages = [chunkedSystemMessages[0], ...filteredMessages];
-                tokenEstimate = estimateTokens(allMessages);
-            }
+    /**
+     * Adds a feature based on the provided data.
+     * @param {DevelopmentTeamManagerAddFeatureOptions} data - The data for the feature to be added.
+     * @param {RunSettings} settings - The settings for the write, test and review rounds.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The result of adding the feature.
+     */
+    private async addFeature(
+        data: DevelopmentTeamManagerAddFeatureOptions,
+        settings: RunSettings
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        // Get team manager to analyse codebase and generate a detailed plan for the feature
+        const planResponse = await this.run(
+            [
+                new HumanMessage({
+                    content: `Add a feature with the following description: ${data.description}\n\nCreate a detailed plan to achieve this task and reference files to modify, create or delete etc. You must use tools and read files.`,
+                }),
+            ],
+            "plan"
+        );
+        const plan = planResponse?.plan;
+
+        if (!plan) {
+            throw new Error("Failed to generate a plan");
         }
 
-        this.agentLogger.info(
-            `Final token estimate: ${tokenEstimate}/${TOKEN_LIMIT} (${filteredMessages.length} messages retained)`
-        );
+        return this.writeAndReview({
+            ...settings,
+            title: `feat: ${summariseForTitle(data.description)}`,
+            plan: plan,
+        });
+    }
 
-        let response: AIMessage;
+    /**
+     * Fixes a bug based on the provided data.
+     * @param {DevelopmentTeamManagerFixBugOptions} data - The data for the bug to be fixed.
+     * @param {RunSettings} settings - The settings for the write, test and review rounds.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The result of fixing the bug.
+     */
+    private async fixBug(
+        data: DevelopmentTeamManagerFixBugOptions,
+        settings: RunSettings
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        const budget = FIX_BUG_SEVERITY_BUDGETS[data.severity];
+        if (!budget) {
+            throw new Error(`Unknown bug severity: ${data.severity}`);
+        }
 
-        for (let i = 0; i < 3; i++) {
-            response = await this.modelInstance.invoke(allMessages, {
-                recursionLimit: 25,
-                configurable: { thread_id: this.threadId },
-            });
+        const bugReport = this.formatBugReport(data);
 
-            if (response.content.length > 0) {
-                break;
-            }
+        // Get team manager to investigate the reported location, reproduce the bug and plan a fix
+        const planResponse = await this.run(
+            [
+                new HumanMessage({
+                    content: `Fix the following bug:\n\n${bugReport}\n\nStart by reading the code at the reported location and tracing how the actual behaviour arises. Write a reproduction of the bug referencing the exact files and lines involved, then create a detailed plan to fix the root cause and reference files to modify, create or delete etc. You must use tools and read files.`,
+                }),
+            ],
+            "plan",
+            budget.planningIterations
+        );
+        const plan = planResponse?.plan;
+        const reproduction = planResponse?.reproduction;
+
+        if (!plan) {
+            throw new Error("Failed to generate a plan");
         }
 
         this.agentLogger.info(
-            `Agent response length: ${response.content.length} (Iteration: ${iterations + 1})`
+            `Generated fix plan for ${data.severity} severity bug at ${data.location}`
         );
 
-        return {
-            ...state,
-            messages: [...messages, response],
-            iterations: iterations + 1,
-        };
+        return this.writeAndReview({
+            ...settings,
+            title: `fix: ${summariseForTitle(data.description)}`,
+            plan: plan,
+            writerContext: `The plan fixes the following bug:\n\n${bugReport}${reproduction ? `\n\nReproduction:\n${reproduction}` : ""}`,
+            writerIterations: budget.writingIterations,
+            reviewContext: `The changes are intended to fix the following bug:\n\n${bugReport}\n\n${budget.reviewInstructions} Confirm that the diff changes the actual behaviour into the expected behaviour.`,
+            reviewIterations: budget.reviewIterations,
+        });
     }
-    private async toolsNode(state) {
-        const { messages } = state;
-        const lastMessage = messages[messages.length - 1];
-
-        const toolCalls = lastMessage.tool_calls || [];
-        const toolMessages = [];
-
-        for (const toolCall of toolCalls) {
-            const tool = this.tools.find((t) => t.name === toolCall.name);
-            if (tool) {
-                try {
-                    const result = await tool.invoke(toolCall.args);
-                    this.agentLogger.info(
-                        `Tool ${toolCall.name} executed successfully with result: ${JSON.stringify(result).substring(0, 100)}`
-                    );
-                    toolMessages.push({
-                        role: "tool",
-                        content: JSON.stringify(result),
-                        tool_call_id: toolCall.id,
+
+    /**
+     * Has the code writer implement a plan, the tester test it and the code reviewer review it, feeding
+     * failed tests and rejected reviews back to the code writer until the changes are approved or the
+     * round limit is reached.
+     * @param {WriteAndReviewOptions} options - The options for the write and review rounds.
+     * @returns {Promise<DevelopmentTeamManagerInvocationResult>} The final review verdict and every round of review.
+     */
+    private async writeAndReview(
+        options: WriteAndReviewOptions
+    ): Promise<DevelopmentTeamManagerInvocationResult> {
+        const {
+            title,
+            writerContext,
+            writerIterations,
+            reviewContext,
+            reviewIterations,
+            maxReviewRounds,
+            runTests,
+            testCommand,
+            push,
+            openPullRequest,
+        } = options;
+        let plan = options.plan;
+
+        // Every round is reviewed against the commit the run started from, not just the latest round
+        const baseCommit =
+            this.runState?.baseCommit ??
+            (await this.gitInstance.revparse(["HEAD"])).trim();
+        await this.saveRunState({ baseCommit });
+
+        // Give a human the chance to veto or correct the plan before any code is written
+        const approvals: ApprovalRecord[] = [];
+        const planDecision = await this.passApprovalGate(
+            options,
+            {
+                gate: "plan",
+                message: `Implement the plan for "${title}"`,
+                plan,
+            },
+            approvals
+        );
+        if (planDecision.action === "edit") {
+            plan = planDecision.plan;
+        } else if (planDecision.action === "reject") {
+            return {
+                approved: false,
+                testsPassed: null,
+                plan: plan,
+                planProgress: createPlanProgress(plan),
+                reviewRounds: [],
+                baseCommit: baseCommit,
+                changes: null,
+                pushedBranch: null,
+                pullRequest: null,
+                approvals: approvals,
+            };
+        }
+
+        // The code writer works in its own worktree, which is merged back after every round
+        const workspaceManager = new WorkspaceManager(this.tempPath);
+        const savedWorkspace = this.runState?.writerWorkspace;
+        const writerWorkspace =
+            (savedWorkspace &&
+                (await workspaceManager.restoreWorkspace(savedWorkspace))) ??
+            (await workspaceManager.createWorkspace("code-writer"));
+        await this.saveRunState({ writerWorkspace });
+
+        const codeWriterAgent = await new DevelopmentCodeWriter(
+            writerWorkspace.path,
+            false,
+            this.getAgentCheckpoint("code-writer")
+        ).init();
+        const testerAgent = runTests
+            ? await new DevelopmentTester(
+                  this.tempPath,
+                  testCommand,
+                  false,
+                  this.getAgentCheckpoint("tester")
+              ).init()
+            : null;
+        const codeReviewAgent = await new DevelopmentCodeReviewer(
+            this.tempPath,
+            false,
+            this.getAgentCheckpoint("code-reviewer")
+        ).init();
+
+        const reviewRounds: DevelopmentTeamManagerReviewRound[] = [];
+        let planProgress = createPlanProgress(plan);
+        let changes: ChangeSet | null = null;
+        let rejected = false;
+        let interrupted = true;
+
+        const acceptanceCriteriaText =
+            plan.acceptanceCriteria.length > 0
+                ? `The changes must meet these acceptance criteria:\n${plan.acceptanceCriteria.map((criterion) => `- ${criterion}`).join("\n")}`
+                : "";
+        const fullReviewContext =
+            [reviewContext, acceptanceCriteriaText]
+                .filter((text) => text)
+                .join("\n\n") || undefined;
+
+        try {
+            for (let round = 1; round <= maxReviewRounds; round++) {
+                const previousRound = reviewRounds[reviewRounds.length - 1];
+
+                // Pick up anything committed to the base clone since the last round, such as new tests
+                if (round > 1) {
+                    await workspaceManager.syncWorkspace(writerWorkspace);
+                }
+
+                const codeWriteResponse = await codeWriterAgent
+                    .invoke({
+                        plan: plan,
+                        context: writerContext,
+                        progress: planProgress,
+                        revisionSuggestions: previousRound?.suggestions,
+                        maxIterations: writerIterations,
+                        round: round,
+                    })
+                    .catch((error) => {
+                        this.agentLogger.error(
+                            { error },
+                            "Error invoking code writer agent"
+                        );
+                        return null;
                     });
-                } catch (error) {
-                    this.agentLogger.error(
-                        `Error executing tool ${toolCall.name}: ${error.message}`
+
+                if (!codeWriteResponse) {
+                    throw new Error("Failed to write code based on the plan");
+                }
+
+                planProgress = codeWriteResponse.progress;
+
+                // Leave partial work in the workspace so the next round resumes from the failed step
+                if (!codeWriteResponse.completed) {
+                    const failedStep = planProgress.find(
+                        (stepProgress) => !stepProgress.completed
                     );
-                    toolMessages.push({
-                        role: "tool",
-                        content: `Error executing ${toolCall.name}: ${error.message}`,
-                        tool_call_id: toolCall.id,
+
+                    reviewRounds.push({
+                        round: round,
+                        approved: false,
+                        suggestions: [
+                            `Complete step ${failedStep.step} "${failedStep.title}": ${failedStep.summary}`,
+                        ],
                     });
+                    continue;
                 }
-            }
-        }
 
-        return { ...state, messages: [...messages, ...toolMessages] };
-    }
-    private async formatResponseNode(state) {
-        const { messages } = state;
-
-        const response = await createModelInstance({
-            temperature: 0,
-            maxRetries: 3,
-            verbose: false,
-        })
-            .withStructuredOutput(this.responseSchema, {
-                includeRaw: true,
-                name: "format_response",
-            })
-            .invoke(
-                [
-                    ...messages,
-                    new HumanMessage({
-                        content: "Please format the response as valid JSON.",
-                    }),
-                ],
-                {
-                    recursionLimit: 25,
-                    configurable: { thread_id: this.threadId },
+                const integration = await this.runEffectOnce(
+                    `round-${round}:integrate`,
+                    () => workspaceManager.integrateWorkspace(writerWorkspace)
+                );
+                // Only committed work is integrated, so send the code writer back to commit or discard the rest
+                if (integration.uncommitted.length > 0) {
+                    reviewRounds.push({
+                        round: round,
+                        approved: false,
+                        suggestions: [
+                            `Commit or discard your uncommitted changes to ${integration.uncommitted.join(", ")}, only committed changes are reviewed.`,
+                        ],
+                    });
+                    continue;
+                }
+                if (!integration.success) {
+                    throw new Error(
+                        `Failed to merge the code changes: conflicts in ${integration.conflicts.join(", ")}`
+                    );
                 }
-            );
 
-        try {
-            if (!response.parsed) {
-                const rawOutputParse = JSON.parse(
-                    response.raw.content as string
+                changes = await captureChanges(this.gitInstance, baseCommit);
+
+                const codeDecision = await this.passApprovalGate(
+                    options,
+                    {
+                        gate: "code",
+                        message: `Test and review the changes written in round ${round}`,
+                        changes,
+                    },
+                    approvals,
+                    round
                 );
-                response.parsed = rawOutputParse;
-            }
+                if (codeDecision.action === "reject") {
+                    rejected = true;
+                    break;
+                }
+
+                let testReport: DevelopmentTeamManagerTestReport | undefined;
+                const roundTestCommand = testerAgent
+                    ? (testCommand ?? detectTestCommand(this.tempPath))
+                    : null;
+                if (testerAgent && !roundTestCommand) {
+                    this.agentLogger.warn(
+                        `Skipping tests in round ${round}/${maxReviewRounds}: unable to detect the test command`
+                    );
+                }
+                if (roundTestCommand) {
+                    const testerResponse = await testerAgent
+                        .invoke({
+                            diff: changes.diff,
+                            context: fullReviewContext,
+                            round: round,
+                        })
+                        .catch((error) => {
+                            this.agentLogger.error(
+                                { error },
+                                "Error invoking tester agent"
+                            );
+                            return {
+                                success: false,
+                                summary: `The tester failed to run: ${error.message}`,
+                            };
+                        });
+
+                    // The tester commits its tests, so the review must see them too
+                    changes = await captureChanges(
+                        this.gitInstance,
+                        baseCommit
+                    );
 
-            const parsedResponse = response.parsed;
-            const validatedResponse = this.responseSchema.parse(parsedResponse);
+                    // The tester only reports on its own runs, so the tests are run again and their exit status decides
+                    const testRun = await runTestCommand(
+                        this.tempPath,
+                        roundTestCommand
+                    );
+                    testReport = {
+                        command: roundTestCommand,
+                        passed: testRun.passed,
+                        exitCode: testRun.exitCode,
+                        timedOut: testRun.timedOut,
+                        output: testRun.output,
+                        summary: testerResponse.summary,
+                    };
 
-            return {
-                ...state,
-                plan: validatedResponse.plan,
-                messages: [
-                    ...messages,
-                    new AIMessage({
-                        content: JSON.stringify(validatedResponse),
-                    }),
-                ],
-            };
-        } catch (error) {
-            return {
-                ...state,
-                messages: [
-                    ...messages,
-                    new HumanMessage({
-                        content: `The response format is invalid. Please provide a valid JSON response with the required structure: ${JSON.stringify(this.responseSchema.shape)}`,
-                    }),
-                ],
-            };
-        }
-    }
-    private shouldContinue(state) {
-        const { messages, iterations, maxIterations } = state;
-        const lastMessage = messages[messages.length - 1];
+                    this.agentLogger.info(
+                        `Test round ${round}/${maxReviewRounds}: ${testReport.passed ? "passed" : "failed"} (${testReport.summary})`
+                    );
+
+                    // Failing tests block the change, so skip the review and send the failures back to the code writer
+                    if (!testReport.passed) {
+                        reviewRounds.push({
+                            round: round,
+                            approved: false,
+                            suggestions: [
+                                `Fix the failing tests, \`${testReport.command}\` ${testReport.timedOut ? "timed out" : `exited with code ${testReport.exitCode}`}:\n\n${testReport.output.slice(-FAILED_TEST_OUTPUT_LENGTH)}`,
+                            ],
+                            testReport: testReport,
+                        });
+                        continue;
+                    }
+                }
+
+                const codeReviewResponse = await codeReviewAgent
+                    .invoke({
+                        changes: changes,
+                        context: testReport
+                            ? `${fullReviewContext ? `${fullReviewContext}\n\n` : ""}The tests for these changes passed: ${testReport.summary}`
+                            : fullReviewContext,
+                        maxIterations: reviewIterations,
+                        round: round,
+                    })
+                    .catch((error) => {
+                        this.agentLogger.error(
+                            { error },
+                            "Error invoking code review agent"
+                        );
+                        return {
+                            success: false,
+                            approved: false,
+                            suggestions: [],
+                        };
+                    });
+
+                if (!codeReviewResponse.success) {
+                    throw new Error("Failed to review the code changes");
+                }
 
-        if (iterations >= maxIterations) {
-            return "end";
+                reviewRounds.push({
+                    round: round,
+                    approved: codeReviewResponse.approved,
+                    suggestions: codeReviewResponse.suggestions || [],
+                    testReport: testReport,
+                });
+
+                this.agentLogger.info(
+                    `Review round ${round}/${maxReviewRounds}: ${codeReviewResponse.approved ? "approved" : "rejected"} with ${codeReviewResponse.suggestions?.length ?? 0} suggestions`
+                );
+
+                if (codeReviewResponse.approved) {
+                    break;
+                }
+            }
+            interrupted = false;
+        } finally {
+            await codeWriterAgent.dispose();
+            await testerAgent?.dispose();
+            await codeReviewAgent.dispose();
+            // Interrupted checkpointed runs resume in the same workspace
+            if (!interrupted || !this.checkpoint) {
+                await workspaceManager.dispose();
+            }
         }
 
-        if (lastMessage.tool_calls && lastMessage.tool_calls.length > 0) {
-            return "continue";
+        const finalRound = reviewRounds[reviewRounds.length - 1];
+        const approved = !rejected && (finalRound?.approved ?? false);
+
+        // Publishing the changes needs the final say of a human when the push gate is enabled
+        const publish =
+            approved &&
+            (push || openPullRequest) &&
+            (
+                await this.passApprovalGate(
+                    options,
+                    {
+                        gate: "push",
+                        message: `Publish the approved changes for "${title}"`,
+                        changes,
+                    },
+                    approvals
+                )
+            ).action !== "reject";
+
+        // Pushing needs network access and publishes the changes, so it only happens when requested
+        const pushedBranch =
+            publish && push
+                ? await this.runEffectOnce("push", () =>
+                      pushChanges(this.gitInstance)
+                  )
+                : null;
+
+        let pullRequest: PullRequest | null = null;
+        if (publish && openPullRequest) {
+            const forge = this.repository.forge;
+            const headBranch = (
+                await this.gitInstance.revparse(["--abbrev-ref", "HEAD"])
+            ).trim();
+
+            pullRequest = await this.runEffectOnce("pull-request", () =>
+                forge.createPullRequest({
+                    title: title,
+                    body: this.formatPullRequestBody(
+                        plan,
+                        reviewRounds,
+                        changes
+                    ),
+                    headBranch: headBranch,
+                    baseBranch: this.baseBranch,
+                    comments: finalRound.suggestions,
+                })
+            );
         }
 
+        return {
+            approved: approved,
+            testsPassed: finalRound?.testReport?.passed ?? null,
+            plan: plan,
+            planProgress: planProgress,
+            reviewRounds: reviewRounds,
+            baseCommit: baseCommit,
+            changes: changes,
+            pushedBranch: pushedBranch,
+            pullRequest: pullRequest,
+            approvals: approvals,
+        };
+    }
+
+    /**
+     * Asks the approver for a decision at an approval gate, recording the decision. Runs without an approver,
+     * or with the gate disabled, are approved automatically without recording a decision.
+     * @param {RunSettings} settings - The approver and the enabled approval gates.
+     * @param {ApprovalRequest} request - The gate that was reached and what is being approved.
+     * @param {ApprovalRecord[]} approvals - The decisions made so far, which the new decision is added to.
+     * @param {number} [round] - The review round the gate is reached in, for gates reached in every round.
+     * @returns {Promise<ApprovalDecision>} The decision made at the gate.
+     */
+    private async passApprovalGate(
+        settings: RunSettings,
+        request: ApprovalRequest,
+        approvals: ApprovalRecord[],
+        round?: number
+    ): Promise<ApprovalDecision> {
         if (
-            lastMessage.content &&
-            (lastMessage.content.includes("{") ||
-                lastMessage.content.includes("```"))
+            !settings.approver ||
+            !settings.approvalGates.includes(request.gate)
         ) {
-            return "format";
+            return { action: "approve" };
         }
 
-        return "end";
-    }
-
-    async init(): Promise<DevelopmentTeamManager> {
-        await cloneRepository(
-            this.gitInstance,
-            "https://github.com/woody-willis/artificial-agentics.git",
-            this.tempPath
+        const decision = await requestApproval(
+            settings.approver,
+            request,
+            this.getAgentCheckpoint(
+                round
+                    ? `approval-${request.gate}-round-${round}`
+                    : `approval-${request.gate}`
+            )
         );
+        if (decision.action === "edit" && request.gate !== "plan") {
+            throw new Error(
+                `The ${request.gate} approval gate can only be approved or rejected, as there is no plan to edit`
+            );
+        }
 
-        return this;
-    }
+        approvals.push({
+            gate: request.gate,
+            action: decision.action,
+            comment: decision.comment,
+            decidedAt: new Date().toISOString(),
+        });
+        this.agentLogger.info(
+            `Approval gate ${request.gate}: ${decision.action}${decision.comment ? ` (${decision.comment})` : ""}`
+        );
 
-    async dispose(): Promise<void> {
-        if (this.tempPath) {
-            deleteTempAgentDirectory(this.tempPath);
-        }
+        return decision;
     }
 
     /**
-     * Invokes the agent with the specified task and data.
-     * @param {DevelopmentTeamManagerInvocationOptions} options - The options for invoking the agent.
-     * @returns {Promise<string>} The response from the agent.
+     * Gets where an agent of the current run saves its checkpoints, so that it picks up where it stopped when the
+     * run is resumed.
+     * @param {string} name - The name of the agent within the run.
+     * @returns {AgentCheckpointOptions | undefined} The checkpoint options, or undefined if the run is not checkpointed.
      */
-    async invoke(
-        options: DevelopmentTeamManagerInvocationOptions
-    ): Promise<boolean> {
-        const { task, data } = options;
-
-        switch (task) {
-            case DevelopmentTeamManagerInvocationTask.AddFeature:
-                return this.addFeature(
-                    data as DevelopmentTeamManagerAddFeatureOptions
-                );
-            case DevelopmentTeamManagerInvocationTask.FixBug:
-                return this.fixBug(data as DevelopmentTeamManagerFixBugOptions);
-            default:
-                throw new Error(`Unknown task: ${task}`);
-        }
+    private getAgentCheckpoint(
+        name: string
+    ): AgentCheckpointOptions | undefined {
+        return this.checkpoint
+            ? {
+                  checkpointer: this.checkpoint.checkpointer,
+                  threadId: `${this.threadId}/${name}`,
+              }
+            : undefined;
     }
 
     /**
-     * Adds a feature based on the provided data.
-     * @param {DevelopmentTeamManagerAddFeatureOptions} data - The data for the feature to be added.
-     * @returns {Promise<boolean>} True if the feature was added successfully, false otherwise.
+     * Runs a side effect, such as merging a round or pushing, once per run. A resumed run skips the side effects
+     * that completed before it was interrupted and returns their recorded results instead.
+     * @param {string} name - The name of the side effect within the run, derived from the stage it belongs to.
+     * @param {() => Promise<T>} effect - Performs the side effect, returning a result that is serialisable to JSON.
+     * @returns {Promise<T>} The result of the side effect.
      */
-    private async addFeature(
-        data: DevelopmentTeamManagerAddFeatureOptions
-    ): Promise<boolean> {
-        // Get team manager to analyse codebase and generate a detailed plan for the feature
-        const initialState = {
-            ...AgentState,
-            messages: [
-                new HumanMessage({
-                    content: `Add a feature with the following description: ${data.description}\n\nCreate a detailed plan to achieve this task and reference files to modify, create or delete etc. You must use tools and read files.`,
-                }),
-            ],
-            iterations: 0,
-        };
-
-        const planResponse = await this.agentInstance.invoke(initialState);
-        const plan = planResponse.plan;
-
-        if (!plan) {
-            throw new Error("Failed to generate a plan");
+    private async runEffectOnce<T>(
+        name: string,
+        effect: () => Promise<T>
+    ): Promise<T> {
+        const completedEffects = this.runState?.completedEffects ?? {};
+        if (name in completedEffects) {
+            this.agentLogger.info(
+                `Skipping ${name}, which completed before the run was resumed`
+            );
+            return completedEffects[name] as T;
         }
 
-        const codeWriterAgent = await new DevelopmentCodeWriter(
-            this.tempPath
-        ).init();
-
-        const codeWriteResponse = await codeWriterAgent
-            .invoke({ plan: plan })
-            .catch((error) => {
-                console.error("Error invoking code writer agent:", error);
-                return false;
-            });
+        const result = await effect();
+        await this.saveRunState({
+            completedEffects: { ...completedEffects, [name]: result },
+        });
 
-        await codeWriterAgent.dispose();
+        return result;
+    }
 
-        if (!codeWriteResponse) {
-            throw new Error("Failed to write code based on the plan");
+    /**
+     * Saves what the current run needs to be resumed, when it is checkpointed.
+     * @param {Partial<DevelopmentTeamManagerRunState>} update - The state to save, merged into the state saved before.
+     * @returns {Promise<void>} A promise that resolves when the state is saved.
+     */
+    private async saveRunState(
+        update: Partial<DevelopmentTeamManagerRunState>
+    ): Promise<void> {
+        if (!this.checkpoint) {
+            return;
         }
 
-        const gitDiff = await this.gitInstance.diff(["HEAD~2", "HEAD~1"]);
-
-        const codeReviewAgent = await new DevelopmentCodeReviewer(
-            this.tempPath
-        ).init();
-
-        const codeReviewResponse = await codeReviewAgent
-            .invoke({ diff: gitDiff })
-            .catch((error) => {
-                console.error("Error invoking code review agent:", error);
-                return { success: false, approved: false, suggestions: [] };
-            });
-
-        await codeReviewAgent.dispose();
-
-        console.log(`Code review success: ${codeReviewResponse}`);
+        this.runState = { ...this.runState, ...update };
+        await this.checkpoint.checkpointer.saveRunState(
+            this.threadId,
+            this.runState
+        );
+    }
 
-        if (!codeReviewResponse.success) {
-            throw new Error("Failed to review the code changes");
+    /**
+     * Formats the body of a pull request from the plan, the changes and the outcome of the review rounds.
+     * @param {DevelopmentPlan} plan - The plan the changes implement.
+     * @param {DevelopmentTeamManagerReviewRound[]} reviewRounds - Every round of review.
+     * @param {ChangeSet | null} changes - The changes against the base commit.
+     * @returns {string} The pull request body in Markdown.
+     */
+    private formatPullRequestBody(
+        plan: DevelopmentPlan,
+        reviewRounds: DevelopmentTeamManagerReviewRound[],
+        changes: ChangeSet | null
+    ): string {
+        const finalRound = reviewRounds[reviewRounds.length - 1];
+        const sections = [`## Plan\n\n${formatPlan(plan)}`];
+
+        if (changes && changes.files.length > 0) {
+            sections.push(
+                [
+                    `## Changes\n\n${changes.files.length} files changed, ${changes.insertions} insertions(+), ${changes.deletions} deletions(-)\n`,
+                    ...changes.files.map(
+                        (file) =>
+                            `- ${file.status} \`${file.path}\` (+${file.insertions} -${file.deletions})`
+                    ),
+                ].join("\n")
+            );
         }
 
-        return true;
+        const testsSummary = finalRound?.testReport
+            ? `Tests ${finalRound.testReport.passed ? "passed" : "failed"}: ${finalRound.testReport.summary}`
+            : "Tests were not run.";
+        sections.push(
+            `## Review\n\nApproved after ${reviewRounds.length} review round${reviewRounds.length === 1 ? "" : "s"}. ${testsSummary}${finalRound?.suggestions.length ? "\n\nThe remaining review suggestions are attached as comments." : ""}`
+        );
+
+        return sections.join("\n\n");
     }
 
     /**
-     * Fixes a bug based on the provided data.
+     * Formats a bug report into a human-readable description for the agents.
      * @param {DevelopmentTeamManagerFixBugOptions} data - The data for the bug to be fixed.
-     * @returns {Promise<boolean>} True if the bug was fixed successfully, false otherwise.
+     * @returns {string} The formatted bug report.
      */
-    private async fixBug(
-        data: DevelopmentTeamManagerFixBugOptions
-    ): Promise<boolean> {
-        // Implement the logic for fixing a bug
-        return true;
+    private formatBugReport(data: DevelopmentTeamManagerFixBugOptions): string {
+        const lines = [
+            `Location: ${data.location}`,
+            `Severity: ${data.severity}`,
+            `Description: ${data.description}`,
+        ];
+
+        if (data.stepsToReproduce && data.stepsToReproduce.length > 0) {
+            lines.push(
+                "Steps to reproduce:",
+                ...data.stepsToReproduce.map(
+                    (step, index) => `${index + 1}. ${step}`
+                )
+            );
+        }
+        if (data.expectedBehavior) {
+            lines.push(`Expected behaviour: ${data.expectedBehavior}`);
+        }
+        if (data.actualBehavior) {
+            lines.push(`Actual behaviour: ${data.actualBehavior}`);
+        }
+        if (data.additionalInfo) {
+            lines.push(`Additional information: ${data.additionalInfo}`);
+        }
+
+        return lines.join("\n");
     }
 }
+
+/**
+ * Shortens a task description to its first line, to be used in a commit or pull request title.
+ * @param {string} description - The description of the task.
+ * @returns {string} The first line of the description, at most 72 characters long.
+ */
+const summariseForTitle = (description: string): string => {
+    const firstLine = description.trim().split("\n")[0].replace(/\.$/, "");
+
+    return firstLine.length > 72
+        ? `${firstLine.slice(0, 69).trimEnd()}...`
+        : firstLine;
+};
@@ -0,0 +1,157 @@
+/**
+ * @module teams/development/tester
+ * @file This agent is able to write and run tests for code changes made by the code writer agent.
+ */
+
+import "dotenv/config";
+
+import { HumanMessage } from "@langchain/core/messages";
+
+import { AgentCheckpointOptions } from "../../checkpointer";
+import {
+    ApplyPatch,
+    CreateDirectory,
+    EditFile,
+    GrepFiles,
+    ListDirectory,
+    PathExists,
+    ReadFile,
+    ReplaceLines,
+    WriteFile,
+} from "../../tools/file-system";
+import { CommitChanges, GitDiff, GitStatus } from "../../tools/git";
+import { DEFAULT_ALLOWED_COMMANDS, RunCommand } from "../../tools/shell";
+import { RunTests } from "../../tools/testing";
+import { DevelopmentBaseAgent } from "./base-agent";
+import simpleGit from "simple-git";
+import z from "zod";
+
+export interface DevelopmentTesterInvocationOptions {
+    diff: string;
+    context?: string;
+    maxIterations?: number;
+    // The review round the agent is invoked in, which names the checkpoint of its run
+    round?: number;
+}
+
+export interface DevelopmentTesterTestChangesOptions {
+    diff: string;
+    context?: string;
+    maxIterations?: number;
+    round?: number;
+}
+
+// The tests are run again by the team manager, whose exit status decides whether they passed
+export interface DevelopmentTesterTestChangesResponse {
+    success: boolean;
+    summary: string;
+}
+
+const responseSchema = z.object({
+    success: z
+        .boolean()
+        .describe("Whether the tests could be written and executed."),
+    summary: z
+        .string()
+        .describe(
+            "A short summary of what was tested and the outcome of the test run."
+        ),
+});
+
+export class DevelopmentTester extends DevelopmentBaseAgent<
+    typeof responseSchema
+> {
+    /**
+     * Initializes the DevelopmentTester as a ReAct agent.
+     */
+    constructor(
+        tempPath: string,
+        testCommand?: string,
+        verbose: boolean = false,
+        checkpoint?: AgentCheckpointOptions
+    ) {
+        const threadId =
+            checkpoint?.threadId ??
+            "development-tester-" + Date.now().toString();
+        const gitInstance = simpleGit(tempPath);
+
+        super({
+            threadId: threadId,
+            module: "teams/development/tester",
+            role: "tester",
+            systemPrompt:
+                "You are a professional software tester. You are given a git diff of code changes and you must use the tools provided to you to read the changed files, add or update tests that cover the changes, and run the test suite. Use the run command tool to install dependencies or build the project if the tests need it. Tests must follow the framework, layout and style of the existing tests in the repository. Do not modify any code other than tests. Commit any tests you write to the repository. Commit messages must follow the Conventional Commits specification. Output a JSON response with the following structure: { success: true/false, summary: 'Summary of what was tested and the outcome of the test run' } only once you have run the tests.",
+            tools: [
+                ReadFile(tempPath, threadId),
+                WriteFile(tempPath, threadId),
+                EditFile(tempPath, threadId),
+                ReplaceLines(tempPath, threadId),
+                ApplyPatch(tempPath, threadId),
+                ListDirectory(tempPath, threadId),
+                CreateDirectory(tempPath, threadId),
+                PathExists(tempPath, threadId),
+                GrepFiles(tempPath, threadId),
+                RunCommand(tempPath, threadId, {
+                    allowedCommands: DEFAULT_ALLOWED_COMMANDS,
+                }),
+                RunTests(tempPath, threadId, testCommand),
+                GitStatus(gitInstance, threadId),
+                GitDiff(gitInstance, threadId),
+                CommitChanges(gitInstance, threadId),
+            ],
+            responseSchema: responseSchema,
+            verbose: verbose,
+            checkpointer: checkpoint?.checkpointer,
+        });
+    }
+
+    async init(): Promise<DevelopmentTester> {
+        return this;
+    }
+
+    async dispose(): Promise<void> {}
+
+    /**
+     * Invokes the agent with the specified task and data.
+     * @param {DevelopmentTesterInvocationOptions} options - The options for invoking the agent.
+     * @returns {Promise<DevelopmentTesterTestChangesResponse>} The summary of the test run.
+     */
+    async invoke(
+        options: DevelopmentTesterInvocationOptions
+    ): Promise<DevelopmentTesterTestChangesResponse> {
+        const { diff, context, maxIterations, round } = options;
+
+        return this.testChanges({ diff, context, maxIterations, round });
+    }
+
+    /**
+     * Writes tests for the code changes in the git diff and runs the test suite.
+     * @param {DevelopmentTesterTestChangesOptions} data - The data for testing the code changes.
+     * @returns {Promise<DevelopmentTesterTestChangesResponse>} The summary of the test run.
+     */
+    private async testChanges(
+        data: DevelopmentTesterTestChangesOptions
+    ): Promise<DevelopmentTesterTestChangesResponse> {
+        // Get tester agent to cover the code changes with tests and run them
+        const contextText = data.context ? `${data.context}\n\n` : "";
+
+        const testResponse = await this.run(
+            [
+                new HumanMessage({
+                    content: `${contextText}Here is the git diff of the code changes to test:\n\n${data.diff}\n\nAdd or update tests covering these changes, then run the test suite.`,
+                }),
+            ],
+            `round-${data.round ?? 1}:test`,
+            data.maxIterations
+        );
+
+        if (!testResponse) {
+            return {
+                success: false,
+                summary: "The tester did not produce a test report.",
+            };
+        }
+
+        return { success: testResponse.success, summary: testResponse.summary };
+    }
+}
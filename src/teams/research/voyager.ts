@@ -7,6 +7,8 @@ import "dotenv/config";
 
 import {
     Annotation,
+    BaseCheckpointSaver,
+    CheckpointTuple,
     CompiledStateGraph,
     END,
     START,
@@ -21,7 +23,10 @@ import {
 } from "@langchain/core/messages";
 import { Tool } from "@langchain/core/tools";
 
+import { AgentCheckpointOptions } from "../../checkpointer";
+import { ContextBudget, createContextBudget } from "../../context-budget";
 import { createModelInstance, modelTokenBucket } from "../../model";
+import * as crypto from "crypto";
 import z from "zod";
 import pino from "pino";
 import { promises as fsp } from "fs";
@@ -58,6 +63,8 @@ const AgentState = Annotation.Root({
     iterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 0 }),
     maxIterations: Annotation({ reducer: (x, y) => y ?? x, default: () => 25 }),
     scratchpad: Annotation({ reducer: (x, y) => y ?? x, default: () => [] }),
+    // The page the browser was on, so a resumed question continues from it
+    url: Annotation({ reducer: (x, y) => y ?? x, default: () => null }),
 });
 
 export class ResearchVoyager {
@@ -66,25 +73,33 @@ export class ResearchVoyager {
     private responseSchema = z.object({
         answer: z.string().describe("The answer to the given question."),
     });
+    private contextBudget: ContextBudget;
     private modelInstance: BaseChatModel;
     private agentInstance: CompiledStateGraph<unknown, unknown>;
     private agentLogger: pino.Logger;
+    private checkpointer: BaseCheckpointSaver | null;
 
     private browser: Browser;
     private page: Page;
 
     /**
      * Initializes the ResearchVoyager as a ReAct agent.
+     * @param {boolean} verbose - Whether to log the model's output.
+     * @param {AgentCheckpointOptions} [checkpoint] - Where to checkpoint questions, so an interrupted question can be resumed.
      */
-    constructor(verbose: boolean = false) {
-        this.threadId = "research-voyager-" + Date.now().toString();
+    constructor(verbose: boolean = false, checkpoint?: AgentCheckpointOptions) {
+        this.threadId =
+            checkpoint?.threadId ?? "research-voyager-" + Date.now().toString();
+        this.checkpointer = checkpoint?.checkpointer ?? null;
 
         this.agentLogger = logger.child({
             module: "agents/research/voyager",
             threadId: this.threadId,
         });
 
+        this.contextBudget = createContextBudget("researcher");
         this.modelInstance = createModelInstance({
+            role: "researcher",
             temperature: 0,
             maxRetries: 3,
             verbose: verbose,
@@ -109,7 +124,9 @@ export class ResearchVoyager {
 
         workflow.addEdge("tools", "agent");
 
-        return workflow.compile();
+        return workflow.compile({
+            checkpointer: this.checkpointer ?? undefined,
+        });
     }
 
     private async agentNode(state) {
@@ -161,19 +178,12 @@ export class ResearchVoyager {
             }),
         ];
 
-        const estimateTokens = (msgs) => {
-            const totalCharacters = msgs.reduce(
-                (acc, msg) => acc + (msg.content?.length || 0),
-                0
-            );
-            return Math.ceil(totalCharacters / 4);
-        };
-
-        let estimatedTokens = estimateTokens(messages);
-
-        if (estimatedTokens > 100_000) {
-            estimatedTokens = 100_000;
-        }
+        // Includes the screenshot, which the bucket has to account for as well. The model cannot take in more than
+        // its input limit, so no request needs more tokens than that
+        const estimatedTokens = Math.min(
+            this.contextBudget.countMessagesTokens(messages),
+            this.contextBudget.inputLimit
+        );
 
         while (modelTokenBucket.take(estimatedTokens) !== 0) {
             const timeoutTime = modelTokenBucket.take(estimatedTokens);
@@ -230,6 +240,7 @@ export class ResearchVoyager {
 
         return {
             ...state,
+            url: this.page.url(),
             bboxes: bboxes || [],
             iterations: iterations + 1,
             toolCalls: response.tool_calls || [],
@@ -323,23 +334,89 @@ export class ResearchVoyager {
     }
 
     /**
-     * Answers a question using a web browser.
+     * Resumes the question that was being answered when the voyager with this thread was interrupted.
+     * @returns {Promise<string>} The answer from the agent.
+     */
+    async resume(): Promise<string> {
+        // The question threads are named after the questions, so find the one checkpointed last
+        const questionThreadPrefix = `${this.threadId}:question-`;
+        let latestCheckpoint: CheckpointTuple | null = null;
+        if (this.checkpointer) {
+            for await (const checkpoint of this.checkpointer.list({
+                configurable: {},
+            })) {
+                const threadId: string =
+                    checkpoint.config.configurable?.thread_id;
+                if (
+                    threadId?.startsWith(questionThreadPrefix) &&
+                    (!latestCheckpoint ||
+                        checkpoint.checkpoint.ts >
+                            latestCheckpoint.checkpoint.ts)
+                ) {
+                    latestCheckpoint = checkpoint;
+                }
+            }
+        }
+        if (!latestCheckpoint) {
+            throw new Error(
+                `There is no question to resume for ${this.threadId}`
+            );
+        }
+
+        const state = await this.agentInstance.getState({
+            configurable: {
+                thread_id: latestCheckpoint.config.configurable.thread_id,
+            },
+        });
+
+        return this.answerQuestion({
+            question: (state.values as typeof AgentState.State).question,
+        });
+    }
+
+    /**
+     * Answers a question using a web browser. A question that was checkpointed before continues from its last
+     * completed node, on the page the browser was on, and a question that was answered before returns its answer.
      * @param {ResearchVoyagerAskQuestionOptions} data - The data for the task to be completed.
      * @returns {Promise<string>} The answer from the agent.
      */
     private async answerQuestion(
         data: ResearchVoyagerAskQuestionOptions
     ): Promise<string> {
-        // Get voyager to answer a question
-        const initialState = {
-            ...AgentState,
-            iterations: 0,
-            question: data.question,
-        };
-
-        const answerResponse = await this.agentInstance.invoke(initialState, {
-            recursionLimit: 100,
-        });
+        const config = this.getQuestionConfig(data.question);
+
+        let answerResponse: typeof AgentState.State;
+        if (await this.checkpointer?.getTuple(config)) {
+            const state = await this.agentInstance.getState(config);
+            const values = state.values as typeof AgentState.State;
+
+            if (state.next.length === 0) {
+                answerResponse = values;
+            } else {
+                this.agentLogger.info(
+                    `Resuming question "${data.question}" at ${state.next.join(", ")} after ${values.iterations} iterations`
+                );
+                if (values.url) {
+                    await this.page.goto(values.url);
+                }
+                answerResponse = (await this.agentInstance.invoke(
+                    null,
+                    config
+                )) as typeof AgentState.State;
+            }
+        } else {
+            // Get voyager to answer a question
+            const initialState = {
+                ...AgentState,
+                iterations: 0,
+                question: data.question,
+            };
+
+            answerResponse = (await this.agentInstance.invoke(
+                initialState,
+                config
+            )) as typeof AgentState.State;
+        }
         const answer = answerResponse.answer;
 
         if (!answer) {
@@ -348,4 +425,20 @@ export class ResearchVoyager {
 
         return answer;
     }
+
+    // Each question has its own thread, named after the question so that asking it again finds its checkpoint
+    private getQuestionConfig(question: string) {
+        const questionHash = crypto
+            .createHash("sha256")
+            .update(question)
+            .digest("hex")
+            .slice(0, 16);
+
+        return {
+            recursionLimit: 100,
+            configurable: {
+                thread_id: `${this.threadId}:question-${questionHash}`,
+            },
+        };
+    }
 }
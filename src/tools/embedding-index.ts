@@ -0,0 +1,356 @@
+/**
+ * @module tools/embedding-index
+ * @file This module provides a persistent embedding index of the files in an agent directory, updated incrementally as files change.
+ */
+
+import { Embeddings } from "@langchain/core/embeddings";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as path from "path";
+import pino from "pino";
+import { createEmbeddingModelInstance, getEmbeddingModelId } from "../model";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+const INDEX_VERSION = 1;
+
+interface IndexedChunk {
+    content: string;
+    embedding: number[];
+}
+
+interface IndexedFile {
+    hash: string;
+    size: number;
+    mtimeMs: number;
+    chunks: IndexedChunk[];
+}
+
+interface IndexData {
+    version: number;
+    modelId: string;
+    files: Record<string, IndexedFile>;
+}
+
+export interface EmbeddingSearchResult {
+    filePath: string;
+    score: number;
+    chunkIndex: number;
+    totalChunks: number;
+    content: string;
+}
+
+export interface EmbeddingIndexUpdateStats {
+    embedded: number;
+    unchanged: number;
+    removed: number;
+}
+
+// Indexes loaded in this process, so file tools can invalidate entries when they change a file
+const loadedIndexes = new Map<string, EmbeddingIndex>();
+
+/**
+ * Gets the embedding index for an agent directory, loading it from disk the first time it is used.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} indexPath - The path to the file the index is stored in.
+ * @returns {EmbeddingIndex} The embedding index for the agent directory.
+ */
+export function getEmbeddingIndex(
+    tempPath: string,
+    indexPath: string
+): EmbeddingIndex {
+    const rootPath = fs.realpathSync(tempPath);
+
+    let index = loadedIndexes.get(rootPath);
+    if (!index) {
+        index = new EmbeddingIndex(rootPath, indexPath);
+        loadedIndexes.set(rootPath, index);
+    }
+
+    return index;
+}
+
+/**
+ * Marks a file as changed so that it is re-checked the next time the index is searched.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} absolutePath - The absolute path to the file that changed.
+ * @returns {void}
+ */
+export function invalidateIndexedFile(
+    tempPath: string,
+    absolutePath: string
+): void {
+    if (!fs.existsSync(tempPath)) {
+        return;
+    }
+
+    loadedIndexes.get(fs.realpathSync(tempPath))?.invalidate(absolutePath);
+}
+
+/**
+ * Forgets the loaded embedding index for an agent directory, e.g. when the directory is deleted.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {void}
+ */
+export function unloadEmbeddingIndex(tempPath: string): void {
+    if (fs.existsSync(tempPath)) {
+        loadedIndexes.delete(fs.realpathSync(tempPath));
+    }
+}
+
+export class EmbeddingIndex {
+    private rootPath: string;
+    private indexPath: string;
+    private data: IndexData | null = null;
+    private embeddings: Embeddings | null = null;
+    private textSplitter = new RecursiveCharacterTextSplitter({
+        chunkSize: 1000,
+        chunkOverlap: 200,
+    });
+    private indexLogger: pino.Logger;
+
+    constructor(rootPath: string, indexPath: string) {
+        this.rootPath = rootPath;
+        this.indexPath = indexPath;
+        this.indexLogger = logger.child({
+            module: "tools/embedding-index",
+            rootPath: rootPath,
+        });
+    }
+
+    /**
+     * Marks a file as changed so that its content hash is checked on the next update.
+     * @param {string} absolutePath - The absolute path to the file that changed.
+     * @returns {void}
+     */
+    invalidate(absolutePath: string): void {
+        const relativePath = path.relative(this.rootPath, absolutePath);
+        const indexedFile = this.data?.files[relativePath];
+        if (indexedFile) {
+            indexedFile.mtimeMs = -1;
+        }
+    }
+
+    /**
+     * Brings the index up to date with the given files, only embedding files whose content has changed.
+     * Indexed files under the given directory that are no longer in the list are removed.
+     * @param {string} dirPath - The absolute path to the directory the files were collected from.
+     * @param {string[]} files - The absolute paths to the files that should be indexed.
+     * @returns {Promise<EmbeddingIndexUpdateStats>} How many files were embedded, unchanged and removed.
+     */
+    async update(
+        dirPath: string,
+        files: string[]
+    ): Promise<EmbeddingIndexUpdateStats> {
+        const data = await this.load();
+        const stats: EmbeddingIndexUpdateStats = {
+            embedded: 0,
+            unchanged: 0,
+            removed: 0,
+        };
+
+        const relativeFiles = new Set(
+            files.map((filePath) => path.relative(this.rootPath, filePath))
+        );
+        const relativeDirPath = path.relative(this.rootPath, dirPath);
+
+        for (const relativePath of Object.keys(data.files)) {
+            const inDirectory =
+                relativeDirPath === "" ||
+                relativePath.startsWith(relativeDirPath + path.sep);
+            if (inDirectory && !relativeFiles.has(relativePath)) {
+                delete data.files[relativePath];
+                stats.removed++;
+            }
+        }
+
+        for (const relativePath of relativeFiles) {
+            const absolutePath = path.join(this.rootPath, relativePath);
+
+            try {
+                // Symlinks, including those of parent directories, could point outside the agent directory
+                if ((await fsp.realpath(absolutePath)) !== absolutePath) {
+                    if (data.files[relativePath]) {
+                        delete data.files[relativePath];
+                        stats.removed++;
+                    }
+                    this.indexLogger.warn(
+                        `Skipping symlinked file ${relativePath}`
+                    );
+                    continue;
+                }
+
+                const fileStats = await fsp.stat(absolutePath);
+                const existing = data.files[relativePath];
+
+                // Skip hashing when the size and modification time are unchanged
+                if (
+                    existing &&
+                    existing.size === fileStats.size &&
+                    existing.mtimeMs === fileStats.mtimeMs
+                ) {
+                    stats.unchanged++;
+                    continue;
+                }
+
+                const content = await fsp.readFile(absolutePath, "utf-8");
+                const hash = crypto
+                    .createHash("sha256")
+                    .update(content)
+                    .digest("hex");
+
+                if (existing && existing.hash === hash) {
+                    existing.size = fileStats.size;
+                    existing.mtimeMs = fileStats.mtimeMs;
+                    stats.unchanged++;
+                    continue;
+                }
+
+                const chunks = await this.textSplitter.splitText(content);
+                const chunkEmbeddings =
+                    chunks.length > 0
+                        ? await this.getEmbeddings().embedDocuments(chunks)
+                        : [];
+
+                data.files[relativePath] = {
+                    hash: hash,
+                    size: fileStats.size,
+                    mtimeMs: fileStats.mtimeMs,
+                    chunks: chunks.map((chunk, i) => ({
+                        content: chunk,
+                        embedding: chunkEmbeddings[i],
+                    })),
+                };
+                stats.embedded++;
+            } catch (error) {
+                this.indexLogger.warn(
+                    `Skipping file ${relativePath}: ${(error as Error).message}`
+                );
+            }
+        }
+
+        if (stats.embedded > 0 || stats.removed > 0) {
+            await this.save();
+        }
+
+        this.indexLogger.info(
+            `Index updated: ${stats.embedded} embedded, ${stats.unchanged} unchanged, ${stats.removed} removed`
+        );
+
+        return stats;
+    }
+
+    /**
+     * Finds the chunks most similar to a query.
+     * @param {string} query - The search query.
+     * @param {number} topK - The number of results to return.
+     * @param {string} dirPath - The absolute path to the directory to restrict results to.
+     * @returns {Promise<EmbeddingSearchResult[]>} The most similar chunks, best first.
+     */
+    async search(
+        query: string,
+        topK: number,
+        dirPath: string = this.rootPath
+    ): Promise<EmbeddingSearchResult[]> {
+        const data = await this.load();
+        const queryEmbedding = await this.getEmbeddings().embedQuery(query);
+        const relativeDirPath = path.relative(this.rootPath, dirPath);
+
+        const results: EmbeddingSearchResult[] = [];
+        for (const [relativePath, file] of Object.entries(data.files)) {
+            if (
+                relativeDirPath !== "" &&
+                !relativePath.startsWith(relativeDirPath + path.sep)
+            ) {
+                continue;
+            }
+
+            file.chunks.forEach((chunk, chunkIndex) => {
+                results.push({
+                    filePath: relativePath,
+                    score: cosineSimilarity(queryEmbedding, chunk.embedding),
+                    chunkIndex: chunkIndex,
+                    totalChunks: file.chunks.length,
+                    content: chunk.content,
+                });
+            });
+        }
+
+        return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
+
+    private getEmbeddings(): Embeddings {
+        if (!this.embeddings) {
+            this.embeddings = createEmbeddingModelInstance({ maxRetries: 7 });
+        }
+
+        return this.embeddings;
+    }
+
+    private async load(): Promise<IndexData> {
+        if (this.data) {
+            return this.data;
+        }
+
+        const modelId = getEmbeddingModelId();
+        this.data = { version: INDEX_VERSION, modelId: modelId, files: {} };
+
+        if (fs.existsSync(this.indexPath)) {
+            try {
+                const stored = JSON.parse(
+                    await fsp.readFile(this.indexPath, "utf-8")
+                ) as IndexData;
+
+                // Embeddings from a different model cannot be compared, so start again
+                if (
+                    stored.version === INDEX_VERSION &&
+                    stored.modelId === modelId
+                ) {
+                    this.data = stored;
+                }
+            } catch (error) {
+                this.indexLogger.warn(
+                    `Ignoring unreadable index ${this.indexPath}: ${(error as Error).message}`
+                );
+            }
+        }
+
+        return this.data;
+    }
+
+    private async save(): Promise<void> {
+        await fsp.mkdir(path.dirname(this.indexPath), { recursive: true });
+
+        // Write to a temporary file first so an interrupted write never corrupts the index
+        const temporaryPath = `${this.indexPath}.tmp`;
+        await fsp.writeFile(temporaryPath, JSON.stringify(this.data), "utf-8");
+        await fsp.rename(temporaryPath, this.indexPath);
+    }
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+        dotProduct += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
@@ -1,21 +1,22 @@
 /**
  * @module tools/file-system
- * @file This module provides agent tools for file system operations including searching using an embeddings model.
+ * @file This module provides agent tools for file system operations including searching by text, regular expression or using an embeddings model.
  */
 
 import { DynamicStructuredTool } from "@langchain/core/tools";
-import { Document } from "@langchain/core/documents";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { OpenAIEmbeddings } from "@langchain/openai";
 
 import * as fs from "fs";
 import * as fsp from "fs/promises";
 import * as path from "path";
-import { OllamaEmbeddings } from "@langchain/ollama";
+import * as readline from "readline";
 import z from "zod";
 import pino from "pino";
-import { createEmbeddingModelInstance } from "../model";
+import simpleGit from "simple-git";
+import {
+    getEmbeddingIndex,
+    invalidateIndexedFile,
+    unloadEmbeddingIndex,
+} from "./embedding-index";
 
 const logger = pino({
     level: "info",
@@ -51,11 +52,202 @@ export function createTempAgentDirectory(): string {
  * @returns {void} A promise that resolves when the directory is deleted.
  */
 export function deleteTempAgentDirectory(tempPath: string): void {
+    unloadEmbeddingIndex(tempPath);
+
     if (fs.existsSync(tempPath)) {
         fs.rmSync(tempPath, { recursive: true });
     }
+
+    const cacheDir = getWorkspaceCacheDirectory(tempPath);
+    if (fs.existsSync(cacheDir)) {
+        fs.rmSync(cacheDir, { recursive: true });
+    }
+}
+
+/**
+ * Gets the directory used to cache data about a temporary agent directory, such as its embedding index.
+ * The cache is kept outside the agent directory so it never ends up in the repository.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {string} The path to the cache directory.
+ */
+export function getWorkspaceCacheDirectory(tempPath: string): string {
+    return path.join(
+        path.dirname(path.resolve(tempPath)),
+        ".cache",
+        path.basename(tempPath)
+    );
 }
 
+/**
+ * Resolves a path supplied by an agent to a canonical absolute path inside the temporary agent directory.
+ * Symlinks are followed, so a link that points outside the agent directory is rejected as well.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} targetPath - The path to resolve, relative to the temporary agent directory.
+ * @param {string} agentId - The ID of the agent the path was supplied by, for logging.
+ * @returns {string} The canonical absolute path.
+ * @throws {Error} If the path resolves to a location outside the temporary agent directory.
+ */
+export function resolveAgentPath(
+    tempPath: string,
+    targetPath: string,
+    agentId?: string
+): string {
+    const rootPath = fs.realpathSync(tempPath);
+    const absolutePath = path.join(rootPath, targetPath);
+
+    // Canonicalise the longest existing part of the path, as the rest cannot contain symlinks yet
+    let existingPath = absolutePath;
+    const missingSegments: string[] = [];
+    while (!pathEntryExists(existingPath)) {
+        missingSegments.unshift(path.basename(existingPath));
+        existingPath = path.dirname(existingPath);
+    }
+
+    let canonicalPath: string;
+    try {
+        canonicalPath = path.join(
+            fs.realpathSync(existingPath),
+            ...missingSegments
+        );
+    } catch {
+        // Dangling symlinks cannot be canonicalised, so there is no way to tell where they point
+        canonicalPath = null;
+    }
+
+    if (
+        !canonicalPath ||
+        (canonicalPath !== rootPath &&
+            !canonicalPath.startsWith(rootPath + path.sep))
+    ) {
+        logger.warn(
+            {
+                agentId: agentId,
+                module: "tools/file-system",
+                tempPath: tempPath,
+                targetPath: targetPath,
+            },
+            "Blocked access to path outside agent directory"
+        );
+        throw new Error(
+            `Access denied: '${targetPath}' resolves to a location outside the repository. Use paths relative to the repository root.`
+        );
+    }
+
+    return canonicalPath;
+}
+
+const pathEntryExists = (entryPath: string): boolean => {
+    try {
+        fs.lstatSync(entryPath);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Paths each agent has written since its last commit, so that commits only include the agent's own changes
+const writtenPaths = new Map<string, Set<string>>();
+
+/**
+ * Records that an agent changed a file, so the file is re-indexed and included in the agent's next commit.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} agentId - The ID of the agent that changed the file.
+ * @param {string} absolutePath - The absolute path to the file that changed.
+ * @returns {void}
+ */
+const recordFileChange = (
+    tempPath: string,
+    agentId: string,
+    absolutePath: string
+): void => {
+    invalidateIndexedFile(tempPath, absolutePath);
+
+    if (!writtenPaths.has(agentId)) {
+        writtenPaths.set(agentId, new Set());
+    }
+    writtenPaths.get(agentId).add(absolutePath);
+};
+
+/**
+ * Gets the paths an agent has written, created or deleted since its changes were last committed.
+ * @param {string} agentId - The ID of the agent.
+ * @returns {string[]} The absolute paths to the files.
+ */
+export function getWrittenPaths(agentId: string): string[] {
+    return [...(writtenPaths.get(agentId) ?? [])];
+}
+
+/**
+ * Forgets paths an agent has written, e.g. once they have been committed.
+ * @param {string} agentId - The ID of the agent.
+ * @param {string[]} [absolutePaths] - The paths to forget. Defaults to every path the agent has written.
+ * @returns {void}
+ */
+export function forgetWrittenPaths(
+    agentId: string,
+    absolutePaths?: string[]
+): void {
+    if (!absolutePaths) {
+        writtenPaths.delete(agentId);
+        return;
+    }
+
+    for (const absolutePath of absolutePaths) {
+        writtenPaths.get(agentId)?.delete(absolutePath);
+    }
+}
+
+const READ_FILE_PAGE_SIZE = 250;
+const READ_FILE_MAX_LINES = 1000;
+const READ_FILE_MAX_LINE_LENGTH = 2000;
+const READ_FILE_MAX_CHARACTERS = 40_000;
+
+/**
+ * Checks whether a file is binary by looking for null bytes at the start of it.
+ * @param {string} absolutePath - The absolute path to the file.
+ * @returns {Promise<boolean>} True if the file appears to be binary.
+ */
+const isBinaryFile = async (absolutePath: string): Promise<boolean> => {
+    const handle = await fsp.open(absolutePath, "r");
+    try {
+        const buffer = Buffer.alloc(8000);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        return buffer.subarray(0, bytesRead).includes(0);
+    } finally {
+        await handle.close();
+    }
+};
+
+/**
+ * Reads a range of lines from a file without loading the whole file into memory.
+ * @param {string} absolutePath - The absolute path to the file.
+ * @param {number} startLine - The first line to read, starting from 1.
+ * @param {number} endLine - The last line to read, inclusive.
+ * @returns {Promise<{ lines: string[]; totalLines: number }>} The lines in the range and the total line count.
+ */
+const readLineRange = async (
+    absolutePath: string,
+    startLine: number,
+    endLine: number
+): Promise<{ lines: string[]; totalLines: number }> => {
+    const lines: string[] = [];
+    let totalLines = 0;
+
+    const lineReader = readline.createInterface({
+        input: fs.createReadStream(absolutePath, { encoding: "utf-8" }),
+        crlfDelay: Infinity,
+    });
+
+    for await (const line of lineReader) {
+        totalLines++;
+        if (totalLines >= startLine && totalLines <= endLine) {
+            lines.push(line);
+        }
+    }
+
+    return { lines, totalLines };
+};
+
 export const ReadFile = (tempPath: string, agentId: string) => {
     const schema = z.object({
         filePath: z
@@ -63,6 +255,26 @@ export const ReadFile = (tempPath: string, agentId: string) => {
             .describe(
                 "The path to the file to read, relative to the temporary agent directory."
             ),
+        startLine: z
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("The first line to read, starting from 1."),
+        endLine: z
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("The last line to read, inclusive."),
+        page: z
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe(
+                `The page of the file to read, starting from 1. Each page is ${READ_FILE_PAGE_SIZE} lines. Ignored if startLine is given.`
+            ),
     });
 
     const functionLogger = logger.child({
@@ -74,15 +286,105 @@ export const ReadFile = (tempPath: string, agentId: string) => {
 
     return new DynamicStructuredTool({
         name: "read_file",
-        description: "Reads the contents of a file.",
+        description: `Reads the contents of a file with line numbers. Returns at most ${READ_FILE_PAGE_SIZE} lines unless a line range is given, along with the total number of lines.`,
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Reading file", { filePath: input.filePath });
+            functionLogger.info(
+                {
+                    filePath: input.filePath,
+                    startLine: input.startLine,
+                    endLine: input.endLine,
+                    page: input.page,
+                },
+                "Reading file"
+            );
 
             try {
-                const { filePath } = input;
-                const absolutePath = path.join(tempPath, filePath);
-                return fsp.readFile(absolutePath, "utf-8");
+                const { filePath, page = 1 } = input;
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    filePath,
+                    agentId
+                );
+
+                const stats = await fsp.stat(absolutePath);
+                if (!stats.isFile()) {
+                    return `Error reading file: ${filePath} is not a file.`;
+                }
+
+                if (await isBinaryFile(absolutePath)) {
+                    return `${filePath} is a binary file (${stats.size} bytes) and cannot be displayed.`;
+                }
+
+                const startLine =
+                    input.startLine ?? (page - 1) * READ_FILE_PAGE_SIZE + 1;
+                const requestedEndLine =
+                    input.endLine ?? startLine + READ_FILE_PAGE_SIZE - 1;
+                const endLine = Math.min(
+                    requestedEndLine,
+                    startLine + READ_FILE_MAX_LINES - 1
+                );
+
+                if (endLine < startLine) {
+                    return `Error reading file: endLine (${endLine}) must not be before startLine (${startLine}).`;
+                }
+
+                const { lines, totalLines } = await readLineRange(
+                    absolutePath,
+                    startLine,
+                    endLine
+                );
+
+                if (totalLines === 0) {
+                    return `File: ${filePath} (empty)`;
+                }
+                if (lines.length === 0) {
+                    return `Error reading file: Line ${startLine} is past the end of ${filePath}, which has ${totalLines} lines.`;
+                }
+
+                const numberedLines: string[] = [];
+                let characterCount = 0;
+                for (const [index, line] of lines.entries()) {
+                    const displayLine =
+                        line.length > READ_FILE_MAX_LINE_LENGTH
+                            ? `${line.slice(0, READ_FILE_MAX_LINE_LENGTH)}... [line truncated, ${line.length} characters]`
+                            : line;
+
+                    characterCount += displayLine.length;
+                    if (
+                        characterCount > READ_FILE_MAX_CHARACTERS &&
+                        numberedLines.length > 0
+                    ) {
+                        break;
+                    }
+
+                    numberedLines.push(`${startLine + index}: ${displayLine}`);
+                }
+                const lastLine = startLine + numberedLines.length - 1;
+
+                const notices: string[] = [];
+                if (
+                    requestedEndLine > endLine ||
+                    numberedLines.length < lines.length
+                ) {
+                    notices.push(
+                        `At most ${READ_FILE_MAX_LINES} lines or ${READ_FILE_MAX_CHARACTERS} characters can be read at once.`
+                    );
+                }
+                if (startLine > 1 || lastLine < totalLines) {
+                    const totalPages = Math.ceil(
+                        totalLines / READ_FILE_PAGE_SIZE
+                    );
+                    notices.push(
+                        `[Truncated: showing lines ${startLine}-${lastLine} of ${totalLines} (${totalPages} pages of ${READ_FILE_PAGE_SIZE} lines). Use startLine/endLine or page to read more.]`
+                    );
+                }
+
+                return [
+                    `File: ${filePath} (lines ${startLine}-${lastLine} of ${totalLines})`,
+                    ...numberedLines,
+                    ...notices,
+                ].join("\n");
             } catch (error) {
                 return `Error reading file: ${(error as Error).message}`;
             }
@@ -112,14 +414,21 @@ export const WriteFile = (tempPath: string, agentId: string) => {
         description: "Writes content to a file.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Writing file", {
-                filePath: input.filePath,
-                contentLength: input.content.length,
-            });
+            functionLogger.info(
+                {
+                    filePath: input.filePath,
+                    contentLength: input.content.length,
+                },
+                "Writing file"
+            );
 
             try {
                 const { filePath, content } = input;
-                const absolutePath = path.join(tempPath, filePath);
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    filePath,
+                    agentId
+                );
 
                 let cleanedContent = content.trim();
 
@@ -143,6 +452,7 @@ export const WriteFile = (tempPath: string, agentId: string) => {
                 //     .replace(/\\\\/g, "\\");
 
                 await fsp.writeFile(absolutePath, cleanedContent, "utf-8");
+                recordFileChange(tempPath, agentId, absolutePath);
 
                 return `Successfully wrote to ${filePath}`;
             } catch (error) {
@@ -152,6 +462,501 @@ export const WriteFile = (tempPath: string, agentId: string) => {
     });
 };
 
+/**
+ * Formats the lines around an edited region of a file with line numbers, so the agent can confirm the change.
+ * @param {string[]} lines - The lines of the file after the edit.
+ * @param {number} startIndex - The index of the first edited line.
+ * @param {number} endIndex - The index after the last edited line.
+ * @returns {string} The edited region with surrounding context.
+ */
+const formatResultingHunk = (
+    lines: string[],
+    startIndex: number,
+    endIndex: number
+): string => {
+    const contextLines = 3;
+    const from = Math.max(0, startIndex - contextLines);
+    const to = Math.min(
+        lines.length,
+        Math.max(endIndex, startIndex) + contextLines
+    );
+
+    const body = lines
+        .slice(from, to)
+        .map((line, index) => `${from + index + 1}: ${line}`)
+        .join("\n");
+
+    return `@@ lines ${from + 1}-${to} of ${lines.length} @@\n${body}`;
+};
+
+/**
+ * Finds every line index at which a block of lines occurs in a file.
+ * @param {string[]} lines - The lines of the file.
+ * @param {string[]} block - The block of lines to find.
+ * @returns {number[]} The indexes of the first line of every occurrence.
+ */
+const findLineBlock = (lines: string[], block: string[]): number[] => {
+    const matches: number[] = [];
+
+    for (let i = 0; i + block.length <= lines.length; i++) {
+        if (block.every((line, offset) => lines[i + offset] === line)) {
+            matches.push(i);
+        }
+    }
+
+    return matches;
+};
+
+export const EditFile = (tempPath: string, agentId: string) => {
+    const schema = z.object({
+        filePath: z
+            .string()
+            .describe(
+                "The path to the file to edit, relative to the temporary agent directory."
+            ),
+        oldText: z
+            .string()
+            .describe(
+                "The exact snippet to replace, including whitespace and indentation. It must occur exactly once in the file."
+            ),
+        newText: z.string().describe("The text to replace the snippet with."),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/file-system",
+        function: "EditFile",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "edit_file",
+        description:
+            "Replaces an exact snippet in a file with new text. Prefer this over write_file for changes to existing files.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info({ filePath: input.filePath }, "Editing file");
+
+            try {
+                const { filePath, oldText, newText } = input;
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    filePath,
+                    agentId
+                );
+
+                if (oldText.length === 0) {
+                    return "Error editing file: The snippet to replace must not be empty.";
+                }
+
+                const content = await fsp.readFile(absolutePath, "utf-8");
+
+                const occurrences = content.split(oldText).length - 1;
+                if (occurrences !== 1) {
+                    return `Error editing file: The snippet to replace occurs ${occurrences} times in ${filePath}, but must occur exactly once. ${occurrences === 0 ? "Read the file again and copy the snippet exactly." : "Include more surrounding lines to make it unique."}`;
+                }
+
+                const index = content.indexOf(oldText);
+                const updatedContent =
+                    content.slice(0, index) +
+                    newText +
+                    content.slice(index + oldText.length);
+
+                await fsp.writeFile(absolutePath, updatedContent, "utf-8");
+                recordFileChange(tempPath, agentId, absolutePath);
+
+                const startIndex =
+                    content.slice(0, index).split("\n").length - 1;
+                const endIndex = startIndex + newText.split("\n").length;
+
+                return `Successfully edited ${filePath}\n${formatResultingHunk(updatedContent.split("\n"), startIndex, endIndex)}`;
+            } catch (error) {
+                return `Error editing file: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const ReplaceLines = (tempPath: string, agentId: string) => {
+    const schema = z.object({
+        filePath: z
+            .string()
+            .describe(
+                "The path to the file to edit, relative to the temporary agent directory."
+            ),
+        startLine: z
+            .number()
+            .int()
+            .min(1)
+            .describe("The first line to replace, starting from 1."),
+        endLine: z
+            .number()
+            .int()
+            .min(1)
+            .describe("The last line to replace, inclusive."),
+        expectedText: z
+            .string()
+            .describe(
+                "The current text of the lines being replaced, used to check the line numbers are still correct."
+            ),
+        content: z
+            .string()
+            .describe(
+                "The text to replace the lines with. Use an empty string to delete the lines."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/file-system",
+        function: "ReplaceLines",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "replace_lines",
+        description:
+            "Replaces a range of lines in a file. The current text of the lines must be supplied to guard against stale line numbers.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                {
+                    filePath: input.filePath,
+                    startLine: input.startLine,
+                    endLine: input.endLine,
+                },
+                "Replacing lines"
+            );
+
+            try {
+                const { filePath, startLine, endLine, expectedText, content } =
+                    input;
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    filePath,
+                    agentId
+                );
+
+                const lines = (await fsp.readFile(absolutePath, "utf-8")).split(
+                    "\n"
+                );
+
+                if (endLine < startLine || endLine > lines.length) {
+                    return `Error replacing lines: Lines ${startLine}-${endLine} are out of range, ${filePath} has ${lines.length} lines.`;
+                }
+
+                const currentText = lines
+                    .slice(startLine - 1, endLine)
+                    .join("\n");
+                if (currentText !== expectedText) {
+                    return `Error replacing lines: Lines ${startLine}-${endLine} of ${filePath} do not match the expected text. They currently contain:\n${currentText}`;
+                }
+
+                const replacementLines =
+                    content.length > 0 ? content.split("\n") : [];
+                lines.splice(
+                    startLine - 1,
+                    endLine - startLine + 1,
+                    ...replacementLines
+                );
+
+                await fsp.writeFile(absolutePath, lines.join("\n"), "utf-8");
+                recordFileChange(tempPath, agentId, absolutePath);
+
+                return `Successfully replaced lines ${startLine}-${endLine} of ${filePath}\n${formatResultingHunk(lines, startLine - 1, startLine - 1 + replacementLines.length)}`;
+            } catch (error) {
+                return `Error replacing lines: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export interface PatchHunk {
+    // The line the hunk starts at in the original file according to its header, or null if the header has no line numbers
+    oldStart: number | null;
+    oldLines: string[];
+    newLines: string[];
+}
+
+export interface FilePatch {
+    oldPath: string | null;
+    newPath: string | null;
+    hunks: PatchHunk[];
+    // Whether the patch marks the new file with "\ No newline at end of file"
+    noNewlineAtEnd: boolean;
+}
+
+/**
+ * Parses a unified diff into the hunks to apply to each file.
+ * @param {string} patch - The unified diff.
+ * @returns {FilePatch[]} The patches for each file in the diff.
+ */
+export const parseUnifiedDiff = (patch: string): FilePatch[] => {
+    const filePatches: FilePatch[] = [];
+    const stripPrefix = (headerPath: string): string | null => {
+        const cleanPath = headerPath.split("\t")[0].trim();
+        if (cleanPath === "/dev/null") {
+            return null;
+        }
+        return cleanPath.replace(/^[ab]\//, "");
+    };
+
+    let currentFile: FilePatch | null = null;
+    let currentHunk: PatchHunk | null = null;
+    // Whether the last hunk line belongs to the new file, which a "\ No newline at end of file" marker applies to
+    let lastLineInNewFile = false;
+
+    const lines = patch.replace(/\r\n/g, "\n").split("\n");
+    for (const [index, line] of lines.entries()) {
+        // A removed line starting with "-- " looks like a file header, so also require the "+++ " line
+        if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+            currentFile = {
+                oldPath: stripPrefix(line.slice(4)),
+                newPath: null,
+                hunks: [],
+                noNewlineAtEnd: false,
+            };
+            filePatches.push(currentFile);
+            currentHunk = null;
+        } else if (
+            line.startsWith("+++ ") &&
+            lines[index - 1]?.startsWith("--- ") &&
+            currentFile &&
+            currentFile.hunks.length === 0
+        ) {
+            currentFile.newPath = stripPrefix(line.slice(4));
+        } else if (line.startsWith("@@")) {
+            if (!currentFile) {
+                throw new Error("Hunk found before a '---' file header.");
+            }
+            const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+            currentHunk = {
+                oldStart: header ? parseInt(header[1], 10) : null,
+                oldLines: [],
+                newLines: [],
+            };
+            currentFile.hunks.push(currentHunk);
+        } else if (currentHunk) {
+            if (line.startsWith(" ")) {
+                currentHunk.oldLines.push(line.slice(1));
+                currentHunk.newLines.push(line.slice(1));
+                lastLineInNewFile = true;
+            } else if (line.startsWith("-")) {
+                currentHunk.oldLines.push(line.slice(1));
+                lastLineInNewFile = false;
+            } else if (line.startsWith("+")) {
+                currentHunk.newLines.push(line.slice(1));
+                lastLineInNewFile = true;
+            } else if (line.startsWith("\\")) {
+                if (lastLineInNewFile) {
+                    currentFile.noNewlineAtEnd = true;
+                }
+            } else if (line === "") {
+                // Some models strip the leading space from empty context lines
+                currentHunk.oldLines.push("");
+                currentHunk.newLines.push("");
+                lastLineInNewFile = true;
+            }
+        }
+    }
+
+    // Drop trailing blank context lines picked up from the end of the patch text
+    for (const filePatch of filePatches) {
+        for (const hunk of filePatch.hunks) {
+            while (
+                hunk.oldLines.length > 0 &&
+                hunk.newLines.length > 0 &&
+                hunk.oldLines[hunk.oldLines.length - 1] === "" &&
+                hunk.newLines[hunk.newLines.length - 1] === ""
+            ) {
+                hunk.oldLines.pop();
+                hunk.newLines.pop();
+            }
+        }
+    }
+
+    return filePatches;
+};
+
+/**
+ * Finds where to apply a hunk in a file. The position given by the hunk header is preferred, shifted by the lines
+ * earlier hunks added or removed, and otherwise the hunk must match exactly once after the previous hunk.
+ * @param {string[]} lines - The lines of the file, with the earlier hunks already applied.
+ * @param {PatchHunk} hunk - The hunk to locate.
+ * @param {number} lineOffset - The number of lines the earlier hunks added, or removed if negative.
+ * @param {number} searchStart - The index of the first line after the previous hunk.
+ * @returns {number} The index of the first line the hunk replaces.
+ * @throws {Error} If the hunk matches nowhere, or in several places and the header does not say which.
+ */
+const locateHunk = (
+    lines: string[],
+    hunk: PatchHunk,
+    lineOffset: number,
+    searchStart: number
+): number => {
+    // Hunks without old lines insert after the line in their header, while others start at it
+    const expectedIndex =
+        hunk.oldStart === null
+            ? null
+            : hunk.oldLines.length === 0
+              ? hunk.oldStart + lineOffset
+              : hunk.oldStart - 1 + lineOffset;
+
+    if (hunk.oldLines.length === 0) {
+        if (expectedIndex === null) {
+            throw new Error(
+                "has no context lines or line numbers to anchor it."
+            );
+        }
+        if (expectedIndex < searchStart || expectedIndex > lines.length) {
+            throw new Error(
+                `starts at line ${hunk.oldStart}, which is outside the file.`
+            );
+        }
+        return expectedIndex;
+    }
+
+    const matches = findLineBlock(lines, hunk.oldLines).filter(
+        (index) => index >= searchStart
+    );
+    if (expectedIndex !== null && matches.includes(expectedIndex)) {
+        return expectedIndex;
+    }
+    if (matches.length !== 1) {
+        throw new Error(
+            matches.length === 0
+                ? "does not match the file. Read the file again and copy the context lines exactly."
+                : `matches ${matches.length} locations${expectedIndex === null ? "" : ", none of them at the line in its header"}. Include more context lines or correct the line numbers in the hunk header to make it unique.`
+        );
+    }
+
+    return matches[0];
+};
+
+export const ApplyPatch = (tempPath: string, agentId: string) => {
+    const schema = z.object({
+        patch: z
+            .string()
+            .describe(
+                "A unified diff with '--- a/path' and '+++ b/path' headers and '@@' hunks. Paths are relative to the temporary agent directory. Each hunk is applied at the line in its '@@ -start,count +start,count @@' header, or where its context and removed lines occur exactly once in the file."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/file-system",
+        function: "ApplyPatch",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "apply_patch",
+        description:
+            "Applies a unified diff to one or more files. Either every hunk is applied or none are.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                { patchLength: input.patch.length },
+                "Applying patch"
+            );
+
+            try {
+                const filePatches = parseUnifiedDiff(input.patch);
+                if (filePatches.length === 0) {
+                    return "Error applying patch: No file headers found in the patch.";
+                }
+
+                // Apply every hunk in memory first so a failing hunk leaves all files untouched
+                const pendingWrites: {
+                    absolutePath: string;
+                    content: string | null;
+                }[] = [];
+                const results: string[] = [];
+
+                for (const filePatch of filePatches) {
+                    const filePath = filePatch.newPath ?? filePatch.oldPath;
+                    if (!filePath) {
+                        return "Error applying patch: A file header has no path.";
+                    }
+
+                    const absolutePath = resolveAgentPath(
+                        tempPath,
+                        filePath,
+                        agentId
+                    );
+
+                    if (filePatch.newPath === null) {
+                        pendingWrites.push({ absolutePath, content: null });
+                        results.push(`Deleted ${filePath}`);
+                        continue;
+                    }
+
+                    const lines =
+                        filePatch.oldPath === null
+                            ? []
+                            : (await fsp.readFile(absolutePath, "utf-8")).split(
+                                  "\n"
+                              );
+
+                    let lineOffset = 0;
+                    let searchStart = 0;
+                    for (const [hunkIndex, hunk] of filePatch.hunks.entries()) {
+                        let startIndex: number;
+                        try {
+                            startIndex =
+                                filePatch.oldPath === null
+                                    ? lines.length
+                                    : locateHunk(
+                                          lines,
+                                          hunk,
+                                          lineOffset,
+                                          searchStart
+                                      );
+                        } catch (error) {
+                            return `Error applying patch: Hunk ${hunkIndex + 1} for ${filePath} ${(error as Error).message}`;
+                        }
+
+                        lines.splice(
+                            startIndex,
+                            hunk.oldLines.length,
+                            ...hunk.newLines
+                        );
+                        lineOffset +=
+                            hunk.newLines.length - hunk.oldLines.length;
+                        searchStart = startIndex + hunk.newLines.length;
+                        results.push(
+                            `${filePath}\n${formatResultingHunk(lines, startIndex, startIndex + hunk.newLines.length)}`
+                        );
+                    }
+
+                    // Files read from disk keep their final newline as a trailing empty line, but created files need one added
+                    const content =
+                        filePatch.oldPath === null && !filePatch.noNewlineAtEnd
+                            ? `${lines.join("\n")}\n`
+                            : lines.join("\n");
+                    pendingWrites.push({ absolutePath, content });
+                }
+
+                for (const { absolutePath, content } of pendingWrites) {
+                    if (content === null) {
+                        await fsp.unlink(absolutePath);
+                    } else {
+                        await fsp.mkdir(path.dirname(absolutePath), {
+                            recursive: true,
+                        });
+                        await fsp.writeFile(absolutePath, content, "utf-8");
+                    }
+                    recordFileChange(tempPath, agentId, absolutePath);
+                }
+
+                return `Successfully applied patch\n${results.join("\n\n")}`;
+            } catch (error) {
+                return `Error applying patch: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
 export const DeleteFile = (tempPath: string, agentId: string) => {
     const schema = z.object({
         filePath: z
@@ -173,12 +978,17 @@ export const DeleteFile = (tempPath: string, agentId: string) => {
         description: "Deletes a file.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Deleting file", { filePath: input.filePath });
+            functionLogger.info({ filePath: input.filePath }, "Deleting file");
 
             try {
                 const { filePath } = input;
-                const absolutePath = path.join(tempPath, filePath);
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    filePath,
+                    agentId
+                );
                 await fsp.unlink(absolutePath);
+                recordFileChange(tempPath, agentId, absolutePath);
                 return `Successfully deleted ${filePath}`;
             } catch (error) {
                 return `Error deleting file: ${(error as Error).message}`;
@@ -208,13 +1018,18 @@ export const ListDirectory = (tempPath: string, agentId: string) => {
         description: "Lists the contents of a directory.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Listing directory", {
-                dirPath: input.dirPath,
-            });
+            functionLogger.info(
+                { dirPath: input.dirPath },
+                "Listing directory"
+            );
 
             try {
                 const { dirPath } = input;
-                const absolutePath = path.join(tempPath, dirPath);
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    dirPath,
+                    agentId
+                );
                 const items = await fsp.readdir(absolutePath, {
                     withFileTypes: true,
                 });
@@ -250,13 +1065,18 @@ export const CreateDirectory = (tempPath: string, agentId: string) => {
         description: "Creates a new directory.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Creating directory", {
-                dirPath: input.dirPath,
-            });
+            functionLogger.info(
+                { dirPath: input.dirPath },
+                "Creating directory"
+            );
 
             try {
                 const { dirPath } = input;
-                const absolutePath = path.join(tempPath, dirPath);
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    dirPath,
+                    agentId
+                );
                 await fsp.mkdir(absolutePath, { recursive: true });
                 return `Successfully created directory ${dirPath}`;
             } catch (error) {
@@ -287,14 +1107,41 @@ export const RemoveDirectory = (tempPath: string, agentId: string) => {
         description: "Removes a directory.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Removing directory", {
-                dirPath: input.dirPath,
-            });
+            functionLogger.info(
+                { dirPath: input.dirPath },
+                "Removing directory"
+            );
 
             try {
                 const { dirPath } = input;
-                const absolutePath = path.join(tempPath, dirPath);
-                await fsp.rmdir(absolutePath, { recursive: true });
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    dirPath,
+                    agentId
+                );
+
+                // Removing the workspace itself or its git metadata would destroy the repository
+                const relativePath = path.relative(
+                    fs.realpathSync(tempPath),
+                    absolutePath
+                );
+                if (relativePath === "") {
+                    throw new Error(
+                        "The root of the agent directory cannot be removed"
+                    );
+                }
+                if (relativePath.split(path.sep).includes(".git")) {
+                    throw new Error(
+                        `${dirPath} is git metadata and cannot be removed`
+                    );
+                }
+
+                if (!(await fsp.stat(absolutePath)).isDirectory()) {
+                    throw new Error(`${dirPath} is not a directory`);
+                }
+
+                await fsp.rm(absolutePath, { recursive: true });
+                recordFileChange(tempPath, agentId, absolutePath);
                 return `Successfully removed directory ${dirPath}`;
             } catch (error) {
                 return `Error removing directory: ${(error as Error).message}`;
@@ -324,13 +1171,18 @@ export const PathExists = (tempPath: string, agentId: string) => {
         description: "Checks if a path exists.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Checking path existence", {
-                pathToCheck: input.pathToCheck,
-            });
+            functionLogger.info(
+                { pathToCheck: input.pathToCheck },
+                "Checking path existence"
+            );
 
             try {
                 const { pathToCheck } = input;
-                const absolutePath = path.join(tempPath, pathToCheck);
+                const absolutePath = resolveAgentPath(
+                    tempPath,
+                    pathToCheck,
+                    agentId
+                );
                 try {
                     await fsp.access(absolutePath);
                     return JSON.stringify({ exists: true });
@@ -369,7 +1221,19 @@ const shouldProcessFile = (filePath: string): boolean => {
     return textExtensions.includes(ext);
 };
 
-const getProcessableFiles = async (dirPath: string): Promise<string[]> => {
+// Directories that are never searched or indexed
+const SKIPPED_DIRECTORIES = [
+    "node_modules",
+    ".git",
+    ".vscode",
+    "dist",
+    "build",
+];
+
+const getProcessableFiles = async (
+    dirPath: string,
+    filter: (filePath: string) => boolean = shouldProcessFile
+): Promise<string[]> => {
     const files: string[] = [];
 
     const processDir = async (currentPath: string) => {
@@ -378,22 +1242,15 @@ const getProcessableFiles = async (dirPath: string): Promise<string[]> => {
 
             for (const item of items) {
                 const itemPath = path.join(currentPath, item);
-                const stats = await fsp.stat(itemPath);
+                // Symlinks are not followed, as they could point outside the agent directory
+                const stats = await fsp.lstat(itemPath);
 
                 if (stats.isDirectory()) {
                     // Skip common directories that shouldn't be indexed
-                    if (
-                        ![
-                            "node_modules",
-                            ".git",
-                            ".vscode",
-                            "dist",
-                            "build",
-                        ].includes(item)
-                    ) {
+                    if (!SKIPPED_DIRECTORIES.includes(item)) {
                         await processDir(itemPath);
                     }
-                } else if (stats.isFile() && shouldProcessFile(itemPath)) {
+                } else if (stats.isFile() && filter(itemPath)) {
                     files.push(itemPath);
                 }
             }
@@ -436,17 +1293,25 @@ export const SearchFiles = (tempPath: string, agentId: string) => {
         description: "Searches for files in a directory based on a query.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Searching files", {
-                dirPath: input.dirPath,
-                query: input.query,
-                topK: input.topK ?? 5,
-            });
+            functionLogger.info(
+                {
+                    dirPath: input.dirPath,
+                    query: input.query,
+                    topK: input.topK ?? 5,
+                },
+                "Searching files"
+            );
 
             try {
                 const { dirPath, query, topK = 5 } = input;
 
-                // Get all processable files
-                const files = await getProcessableFiles(dirPath);
+                // Bring the index up to date, only re-embedding files that changed since the last search
+                const absoluteDirPath = resolveAgentPath(
+                    tempPath,
+                    dirPath,
+                    agentId
+                );
+                const files = await getProcessableFiles(absoluteDirPath);
 
                 if (files.length === 0) {
                     return JSON.stringify({
@@ -456,83 +1321,24 @@ export const SearchFiles = (tempPath: string, agentId: string) => {
                     });
                 }
 
-                // Create documents from files
-                const documents: Document[] = [];
-                const textSplitter = new RecursiveCharacterTextSplitter({
-                    chunkSize: 1000,
-                    chunkOverlap: 200,
-                });
-
-                for (const filePath of files) {
-                    try {
-                        const content = await fsp.readFile(filePath, "utf-8");
-                        const chunks = await textSplitter.splitText(content);
-
-                        for (let i = 0; i < chunks.length; i++) {
-                            documents.push(
-                                new Document({
-                                    pageContent: chunks[i],
-                                    metadata: {
-                                        filePath,
-                                        chunkIndex: i,
-                                        totalChunks: chunks.length,
-                                    },
-                                })
-                            );
-                        }
-                    } catch (error) {
-                        console.warn(
-                            `Skipping file ${filePath}: ${(error as Error).message}`
-                        );
-                    }
-                }
-
-                if (documents.length === 0) {
-                    return JSON.stringify({
-                        success: true,
-                        results: [],
-                        message: "No content could be extracted from files",
-                    });
-                }
-
-                // Create vector store and perform search
-                const embeddings = createEmbeddingModelInstance({
-                    maxRetries: 7,
-                });
-                const vectorStore = await MemoryVectorStore.fromDocuments(
-                    documents,
-                    embeddings
+                const index = getEmbeddingIndex(
+                    tempPath,
+                    path.join(
+                        getWorkspaceCacheDirectory(tempPath),
+                        "embeddings.json"
+                    )
                 );
-                const searchResults =
-                    await vectorStore.similaritySearchWithScore(query, topK);
-
-                // Format results
-                const results = await Promise.all(
-                    searchResults.map(async ([doc, score]) => {
-                        const result: any = {
-                            filePath: doc.metadata.filePath,
-                            score,
-                            chunkIndex: doc.metadata.chunkIndex,
-                            totalChunks: doc.metadata.totalChunks,
-                        };
-
-                        // Get file stats
-                        try {
-                            const stats = await fsp.stat(doc.metadata.filePath);
-                            result.fileSize = stats.size;
-                            result.lastModified = stats.mtime;
-                        } catch (error) {
-                            // File might have been deleted, skip stats
-                        }
-
-                        return result;
-                    })
+                const updateStats = await index.update(absoluteDirPath, files);
+                const results = await index.search(
+                    query,
+                    topK,
+                    absoluteDirPath
                 );
 
                 return JSON.stringify({
                     success: true,
                     results,
-                    message: `Found ${results.length} relevant chunks across ${files.length} files`,
+                    message: `Found ${results.length} relevant chunks across ${files.length} files (${updateStats.embedded} files re-indexed)`,
                 });
             } catch (error) {
                 return JSON.stringify({
@@ -545,14 +1351,344 @@ export const SearchFiles = (tempPath: string, agentId: string) => {
     });
 };
 
-export const fileSystemTools = (tempPath: string) => {
+const GREP_DEFAULT_MAX_RESULTS = 50;
+const GREP_MAX_RESULTS = 200;
+const GREP_MAX_CONTEXT_LINES = 10;
+const GREP_MAX_LINE_LENGTH = 500;
+const GREP_MAX_FILE_SIZE = 1_000_000;
+
+/**
+ * Converts a glob pattern into a regular expression matching paths relative to the repository root.
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`. Patterns without a slash match against the file name only.
+ * @param {string} pattern - The glob pattern.
+ * @returns {RegExp} The equivalent regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const normalised = pattern.replace(/\\/g, "/").replace(/^\.?\//, "");
+    const matchBaseName = !normalised.includes("/");
+
+    let source = "";
+    let inBraces = false;
+
+    for (let i = 0; i < normalised.length; i++) {
+        const char = normalised[i];
+
+        if (char === "*") {
+            if (normalised[i + 1] === "*") {
+                // `**/` matches any number of directories, including none
+                const followedBySlash = normalised[i + 2] === "/";
+                source += followedBySlash ? "(?:.*/)?" : ".*";
+                i += followedBySlash ? 2 : 1;
+            } else {
+                source += "[^/]*";
+            }
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "[") {
+            const end = normalised.indexOf("]", i + 1);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                source += `[${normalised.slice(i + 1, end).replace(/^!/, "^")}]`;
+                i = end;
+            }
+        } else if (char === "{") {
+            inBraces = true;
+            source += "(?:";
+        } else if (char === "}" && inBraces) {
+            inBraces = false;
+            source += ")";
+        } else if (char === "," && inBraces) {
+            source += "|";
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(matchBaseName ? `(?:^|/)${source}$` : `^${source}$`);
+}
+
+/**
+ * Lists the files under a directory that are not ignored, using git so that `.gitignore` is respected.
+ * Falls back to walking the directory when it is not the root of a git repository.
+ * @param {string} rootPath - The canonical path to the root of the temporary agent directory.
+ * @param {string} dirPath - The canonical path to the directory to list.
+ * @returns {Promise<string[]>} The absolute paths to the files.
+ */
+export const listRepositoryFiles = async (
+    rootPath: string,
+    dirPath: string
+): Promise<string[]> => {
+    try {
+        const git = simpleGit(rootPath);
+        const topLevel = (await git.revparse(["--show-toplevel"])).trim();
+
+        if (fs.realpathSync(topLevel) === rootPath) {
+            const output = await git.raw([
+                "ls-files",
+                "--cached",
+                "--others",
+                "--exclude-standard",
+                "-z",
+                "--",
+                path.relative(rootPath, dirPath) || ".",
+            ]);
+
+            return [...new Set(output.split("\0"))]
+                .filter((file) => file.length > 0)
+                .filter(
+                    (file) =>
+                        !file
+                            .split("/")
+                            .some((segment) =>
+                                SKIPPED_DIRECTORIES.includes(segment)
+                            )
+                )
+                .map((file) => path.join(rootPath, file))
+                .filter((file) => pathEntryExists(file));
+        }
+    } catch {
+        // Not a git repository, so fall back to walking the directory
+    }
+
+    return getProcessableFiles(dirPath, () => true);
+};
+
+export const GrepFiles = (tempPath: string, agentId: string) => {
+    const schema = z.object({
+        query: z
+            .string()
+            .describe(
+                "The text to search for, or a JavaScript regular expression if regex is true."
+            ),
+        regex: z
+            .boolean()
+            .optional()
+            .describe(
+                "Whether the query is a regular expression. Defaults to false, which matches the query literally."
+            ),
+        caseSensitive: z
+            .boolean()
+            .optional()
+            .describe(
+                "Whether the search is case sensitive. Defaults to true."
+            ),
+        include: z
+            .array(z.string())
+            .optional()
+            .describe(
+                "Glob patterns of files to search, relative to the repository root, for example ['src/**/*.ts']. Patterns without a slash match file names anywhere."
+            ),
+        exclude: z
+            .array(z.string())
+            .optional()
+            .describe(
+                "Glob patterns of files to skip, relative to the repository root, for example ['**/*.test.ts']."
+            ),
+        dirPath: z
+            .string()
+            .optional()
+            .describe(
+                "The directory to search in, relative to the temporary agent directory. Defaults to the root of the agent directory."
+            ),
+        contextLines: z
+            .number()
+            .optional()
+            .describe(
+                `The number of lines to show before and after each match. Defaults to 2, at most ${GREP_MAX_CONTEXT_LINES}.`
+            ),
+        maxResults: z
+            .number()
+            .optional()
+            .describe(
+                `The maximum number of matching lines to return. Defaults to ${GREP_DEFAULT_MAX_RESULTS}, at most ${GREP_MAX_RESULTS}.`
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/file-system",
+        function: "GrepFiles",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "grep_files",
+        description:
+            "Searches the contents of files for exact text or a regular expression, like grep. Respects .gitignore. Returns matches as file:line:text with surrounding context lines, where context lines use file-line-text. Use this to find where a symbol is defined or used.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            const {
+                query,
+                regex = false,
+                caseSensitive = true,
+                include = [],
+                exclude = [],
+                dirPath = ".",
+            } = input;
+            const contextLines = Math.min(
+                Math.max(Math.floor(input.contextLines ?? 2), 0),
+                GREP_MAX_CONTEXT_LINES
+            );
+            const maxResults = Math.min(
+                Math.max(
+                    Math.floor(input.maxResults ?? GREP_DEFAULT_MAX_RESULTS),
+                    1
+                ),
+                GREP_MAX_RESULTS
+            );
+
+            functionLogger.info(
+                { query: query, regex: regex, dirPath: dirPath },
+                "Grepping files"
+            );
+
+            try {
+                const pattern = new RegExp(
+                    regex
+                        ? query
+                        : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+                    caseSensitive ? "" : "i"
+                );
+                const includePatterns = include.map(globToRegExp);
+                const excludePatterns = exclude.map(globToRegExp);
+
+                const rootPath = fs.realpathSync(tempPath);
+                const absoluteDirPath = resolveAgentPath(
+                    tempPath,
+                    dirPath,
+                    agentId
+                );
+                const files = (
+                    await listRepositoryFiles(rootPath, absoluteDirPath)
+                )
+                    .map((file) =>
+                        path.relative(rootPath, file).split(path.sep).join("/")
+                    )
+                    .filter(
+                        (file) =>
+                            (includePatterns.length === 0 ||
+                                includePatterns.some((glob) =>
+                                    glob.test(file)
+                                )) &&
+                            !excludePatterns.some((glob) => glob.test(file))
+                    )
+                    .sort();
+
+                const output: string[] = [];
+                let matchCount = 0;
+                let matchedFiles = 0;
+                let truncated = false;
+
+                for (const file of files) {
+                    // Symlinks are followed only while they stay inside the agent directory
+                    let absolutePath: string;
+                    try {
+                        absolutePath = resolveAgentPath(
+                            tempPath,
+                            file,
+                            agentId
+                        );
+                    } catch {
+                        continue;
+                    }
+
+                    const stats = await fsp.stat(absolutePath);
+                    if (
+                        !stats.isFile() ||
+                        stats.size > GREP_MAX_FILE_SIZE ||
+                        (await isBinaryFile(absolutePath))
+                    ) {
+                        continue;
+                    }
+
+                    const lines = (
+                        await fsp.readFile(absolutePath, "utf-8")
+                    ).split(/\r?\n/);
+                    if (lines[lines.length - 1] === "") {
+                        lines.pop();
+                    }
+                    const matchingLines: number[] = [];
+                    for (let i = 0; i < lines.length; i++) {
+                        if (pattern.test(lines[i])) {
+                            if (matchCount === maxResults) {
+                                truncated = true;
+                                break;
+                            }
+                            matchingLines.push(i);
+                            matchCount++;
+                        }
+                    }
+
+                    if (matchingLines.length > 0) {
+                        matchedFiles++;
+
+                        // Merge the context of nearby matches into a single group, separated like grep with `--`
+                        let lastPrinted = -1;
+                        for (const lineIndex of matchingLines) {
+                            const start = Math.max(
+                                lineIndex - contextLines,
+                                lastPrinted + 1
+                            );
+                            const end = Math.min(
+                                lineIndex + contextLines,
+                                lines.length - 1
+                            );
+                            if (
+                                output.length > 0 &&
+                                (lastPrinted === -1 || start > lastPrinted + 1)
+                            ) {
+                                output.push("--");
+                            }
+                            for (let i = start; i <= end; i++) {
+                                const separator = matchingLines.includes(i)
+                                    ? ":"
+                                    : "-";
+                                const line =
+                                    lines[i].length > GREP_MAX_LINE_LENGTH
+                                        ? `${lines[i].slice(0, GREP_MAX_LINE_LENGTH)}... [line truncated]`
+                                        : lines[i];
+                                output.push(
+                                    `${file}${separator}${i + 1}${separator}${line}`
+                                );
+                            }
+                            lastPrinted = Math.max(lastPrinted, end);
+                        }
+                    }
+
+                    if (truncated) {
+                        break;
+                    }
+                }
+
+                if (matchCount === 0) {
+                    return `No matches found for '${query}' in ${files.length} files`;
+                }
+
+                const truncationNotice = truncated
+                    ? `\n\n[Results truncated to the first ${maxResults} matches. Narrow the query or use include patterns to see more.]`
+                    : "";
+
+                return `Found ${matchCount} matches in ${matchedFiles} files\n${output.join("\n")}${truncationNotice}`;
+            } catch (error) {
+                return `Error searching files: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const fileSystemTools = (tempPath: string, agentId: string) => {
     return [
-        ReadFile(tempPath),
-        WriteFile(tempPath),
-        DeleteFile(tempPath),
-        ListDirectory(tempPath),
-        CreateDirectory(tempPath),
-        PathExists(tempPath),
-        SearchFiles(tempPath),
+        ReadFile(tempPath, agentId),
+        WriteFile(tempPath, agentId),
+        EditFile(tempPath, agentId),
+        ReplaceLines(tempPath, agentId),
+        ApplyPatch(tempPath, agentId),
+        DeleteFile(tempPath, agentId),
+        ListDirectory(tempPath, agentId),
+        CreateDirectory(tempPath, agentId),
+        PathExists(tempPath, agentId),
+        SearchFiles(tempPath, agentId),
+        GrepFiles(tempPath, agentId),
     ];
 };
@@ -0,0 +1,285 @@
+/**
+ * @module tools/forge
+ * @file This module provides adapters for opening pull requests on code forges such as GitHub, and a local fake for use without network access.
+ */
+
+import axios, { AxiosInstance } from "axios";
+
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as path from "path";
+import pino from "pino";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+export interface PullRequestOptions {
+    title: string;
+    body: string;
+    headBranch: string;
+    baseBranch: string;
+    comments?: string[];
+}
+
+export interface PullRequest {
+    number: number;
+    url: string;
+    title: string;
+    body: string;
+    headBranch: string;
+    baseBranch: string;
+    comments: string[];
+}
+
+/**
+ * A code forge that pull requests can be opened on.
+ */
+export interface Forge {
+    /**
+     * Whether the head branch must be pushed to the remote before a pull request can be opened from it.
+     */
+    readonly requiresPush: boolean;
+
+    /**
+     * Opens a pull request and attaches the given comments to it.
+     * @param {PullRequestOptions} options - The title, body, branches and comments of the pull request.
+     * @returns {Promise<PullRequest>} The opened pull request.
+     */
+    createPullRequest(options: PullRequestOptions): Promise<PullRequest>;
+}
+
+export interface GitHubForgeOptions {
+    repository: string;
+    token?: string;
+    apiUrl?: string;
+}
+
+/**
+ * Extracts the owner and name of a GitHub repository from its URL or `owner/name` shorthand.
+ * @param {string} repository - The URL of the repository, or its `owner/name` shorthand.
+ * @returns {{ owner: string; name: string }} The owner and name of the repository.
+ */
+export function parseGitHubRepository(repository: string): {
+    owner: string;
+    name: string;
+} {
+    const match = repository
+        .trim()
+        .match(
+            /^(?:(?:https?:\/\/|ssh:\/\/)?(?:[^@/]+@)?github\.com[/:])?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/
+        );
+    if (!match) {
+        throw new Error(`Not a GitHub repository: ${repository}`);
+    }
+
+    return { owner: match[1], name: match[2] };
+}
+
+/**
+ * Opens pull requests on GitHub through its REST API.
+ */
+export class GitHubForge implements Forge {
+    readonly requiresPush = true;
+
+    private owner: string;
+    private name: string;
+    private client: AxiosInstance;
+    private forgeLogger: pino.Logger;
+
+    /**
+     * @param {GitHubForgeOptions} options - The repository to open pull requests on, and the token and API URL to use. The token defaults to the GITHUB_TOKEN environment variable.
+     */
+    constructor(options: GitHubForgeOptions) {
+        const {
+            repository,
+            token = process.env.GITHUB_TOKEN,
+            apiUrl = "https://api.github.com",
+        } = options;
+
+        if (!token) {
+            throw new Error(
+                "A GitHub token is required to open pull requests, set GITHUB_TOKEN or pass a token"
+            );
+        }
+
+        const { owner, name } = parseGitHubRepository(repository);
+        this.owner = owner;
+        this.name = name;
+        this.client = axios.create({
+            baseURL: apiUrl,
+            headers: {
+                Accept: "application/vnd.github+json",
+                Authorization: `Bearer ${token}`,
+                "X-GitHub-Api-Version": "2022-11-28",
+            },
+        });
+        this.forgeLogger = logger.child({
+            module: "tools/forge",
+            forge: "github",
+            repository: `${owner}/${name}`,
+        });
+    }
+
+    async createPullRequest(options: PullRequestOptions): Promise<PullRequest> {
+        const { title, body, headBranch, baseBranch, comments = [] } = options;
+        const repositoryPath = `/repos/${this.owner}/${this.name}`;
+
+        let response;
+        try {
+            response = await this.client.post(`${repositoryPath}/pulls`, {
+                title: title,
+                body: body,
+                head: headBranch,
+                base: baseBranch,
+            });
+        } catch (error) {
+            throw new Error(
+                `Unable to open a pull request from ${headBranch} into ${baseBranch}: ${getGitHubErrorMessage(error)}`
+            );
+        }
+
+        const number: number = response.data.number;
+        for (const comment of comments) {
+            try {
+                await this.client.post(
+                    `${repositoryPath}/issues/${number}/comments`,
+                    { body: comment }
+                );
+            } catch (error) {
+                this.forgeLogger.warn(
+                    `Unable to comment on pull request #${number}: ${getGitHubErrorMessage(error)}`
+                );
+            }
+        }
+
+        this.forgeLogger.info(
+            `Opened pull request #${number} from ${headBranch} into ${baseBranch}`
+        );
+
+        return {
+            number: number,
+            url: response.data.html_url,
+            title: title,
+            body: body,
+            headBranch: headBranch,
+            baseBranch: baseBranch,
+            comments: comments,
+        };
+    }
+}
+
+const getGitHubErrorMessage = (error: unknown): string => {
+    if (axios.isAxiosError(error) && error.response) {
+        const details = error.response.data?.errors
+            ?.map((detail: { message?: string }) => detail.message)
+            .filter(Boolean)
+            .join(", ");
+
+        return `${error.response.status} ${error.response.data?.message ?? error.message}${details ? ` (${details})` : ""}`;
+    }
+
+    return (error as Error).message;
+};
+
+/**
+ * Stores pull requests as JSON files in a local directory, so the pull request flow can run without network access.
+ */
+export class LocalForge implements Forge {
+    readonly requiresPush = false;
+
+    private directory: string;
+    private forgeLogger: pino.Logger;
+
+    /**
+     * @param {string} directory - The directory to store the pull requests in. It is created if it does not exist.
+     */
+    constructor(directory: string) {
+        this.directory = path.resolve(directory);
+        this.forgeLogger = logger.child({
+            module: "tools/forge",
+            forge: "local",
+            directory: this.directory,
+        });
+    }
+
+    async createPullRequest(options: PullRequestOptions): Promise<PullRequest> {
+        const { title, body, headBranch, baseBranch, comments = [] } = options;
+
+        await fsp.mkdir(this.directory, { recursive: true });
+
+        // Pull requests can be opened concurrently, so a number is only taken once its file is created
+        let number = (await this.listPullRequestFiles()).length + 1;
+        for (;;) {
+            const filePath = path.join(this.directory, `${number}.json`);
+            const pullRequest: PullRequest = {
+                number: number,
+                url: `file://${filePath}`,
+                title: title,
+                body: body,
+                headBranch: headBranch,
+                baseBranch: baseBranch,
+                comments: comments,
+            };
+
+            try {
+                await fsp.writeFile(
+                    filePath,
+                    JSON.stringify(pullRequest, null, 4),
+                    { encoding: "utf-8", flag: "wx" }
+                );
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                    throw error;
+                }
+                number++;
+                continue;
+            }
+
+            this.forgeLogger.info(
+                `Opened pull request #${number} from ${headBranch} into ${baseBranch}`
+            );
+
+            return pullRequest;
+        }
+    }
+
+    /**
+     * Lists the pull requests stored in the directory.
+     * @returns {Promise<PullRequest[]>} The stored pull requests, in the order they were opened.
+     */
+    async listPullRequests(): Promise<PullRequest[]> {
+        const files = await this.listPullRequestFiles();
+        const pullRequests = await Promise.all(
+            files.map(
+                async (file) =>
+                    JSON.parse(
+                        await fsp.readFile(
+                            path.join(this.directory, file),
+                            "utf-8"
+                        )
+                    ) as PullRequest
+            )
+        );
+
+        return pullRequests.sort((a, b) => a.number - b.number);
+    }
+
+    /**
+     * Lists the names of the pull request files in the directory.
+     * @returns {Promise<string[]>} The file names, one per pull request.
+     */
+    private async listPullRequestFiles(): Promise<string[]> {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+
+        return (await fsp.readdir(this.directory)).filter((file) =>
+            /^\d+\.json$/.test(file)
+        );
+    }
+}
@@ -1,13 +1,16 @@
 /**
  * @module tools/git
- * @file This module provides agent tools for Git operations including cloning repositories and checking out branches.
+ * @file This module provides agent tools for Git operations including cloning repositories, inspecting changes and history, managing branches and committing.
  */
 
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { SimpleGit } from "simple-git";
 
+import * as fs from "fs";
+import * as path from "path";
 import z from "zod";
 import pino from "pino";
+import { forgetWrittenPaths, getWrittenPaths } from "./file-system";
 
 const logger = pino({
     level: "info",
@@ -17,49 +20,374 @@ const logger = pino({
             : { target: "pino-pretty", options: { colorize: true } },
 });
 
+export interface CloneRepositoryOptions {
+    baseBranch?: string;
+    workingBranch?: string;
+    sparseCheckoutPaths?: string[];
+}
+
 /**
  * Clones a Git repository to a specified local path.
- * * @param git The SimpleGit instance to use for the operation.
- * @param repositoryUrl The URL of the repository to clone.
+ * The repository can be a remote URL or a path to a local repository, including bare repositories.
+ * @param git The SimpleGit instance to use for the operation.
+ * @param repositoryUrl The URL of, or local path to, the repository to clone.
  * @param localPath The local path where the repository should be cloned.
+ * @param options The branch to check out, the branch to create for the changes and the directories to check out.
  * @returns A promise that resolves to the SimpleGit instance for the cloned repository.
  */
 export async function cloneRepository(
     git: SimpleGit,
     repositoryUrl: string,
     localPath: string,
-    agentId?: string
+    options: CloneRepositoryOptions = {}
 ): Promise<SimpleGit> {
-    await git.clone(repositoryUrl, localPath);
+    const { baseBranch, workingBranch, sparseCheckoutPaths = [] } = options;
+
+    // Resolve local paths so that relative paths work regardless of the working directory of the git instance
+    const source = fs.existsSync(repositoryUrl)
+        ? path.resolve(repositoryUrl)
+        : repositoryUrl;
+
+    const cloneOptions = [];
+    if (baseBranch) {
+        cloneOptions.push("--branch", baseBranch);
+    }
+    if (sparseCheckoutPaths.length > 0) {
+        cloneOptions.push("--no-checkout");
+    }
+
+    await git.clone(source, localPath, cloneOptions);
     await git.cwd(localPath);
 
-    if (agentId) {
-        await git.branch(["-m", agentId]);
-        await git.checkout(agentId);
+    if (sparseCheckoutPaths.length > 0) {
+        await git.raw(["sparse-checkout", "set", ...sparseCheckoutPaths]);
+        await git.checkout(baseBranch ?? "HEAD");
+    }
+
+    if (workingBranch) {
+        await git.checkoutLocalBranch(workingBranch);
     }
 
     return git;
 }
 
+export interface CommitAuthor {
+    name: string;
+    email: string;
+}
+
+export interface CommitChangesOptions {
+    files: string[];
+    author?: CommitAuthor;
+}
+
+export interface CommitChangesResult {
+    commit: string;
+    files: string[];
+    repositoryRoot: string;
+}
+
+export interface CommitChangesToolOptions {
+    author?: CommitAuthor;
+}
+
+export const CONVENTIONAL_COMMIT_TYPES = [
+    "build",
+    "chore",
+    "ci",
+    "docs",
+    "feat",
+    "fix",
+    "perf",
+    "refactor",
+    "revert",
+    "style",
+    "test",
+];
+
+const MAX_COMMIT_HEADER_LENGTH = 100;
+
 /**
- * Checks out a specific branch in a Git repository.
+ * Checks that a commit message follows the Conventional Commits specification.
+ * @param message The commit message.
+ * @returns The reason the message is invalid, or null if it is valid.
+ */
+export function validateConventionalCommitMessage(
+    message: string
+): string | null {
+    const lines = message.split("\n");
+    const header = lines[0].trim();
+
+    const match = header.match(/^([a-z]+)(\([^()\s][^()]*\))?(!)?: (\S.*)$/);
+    if (!match) {
+        return `The header '${header}' must have the form 'type(optional scope): description'`;
+    }
+    if (!CONVENTIONAL_COMMIT_TYPES.includes(match[1])) {
+        return `'${match[1]}' is not a Conventional Commits type. Use one of: ${CONVENTIONAL_COMMIT_TYPES.join(", ")}`;
+    }
+    if (header.length > MAX_COMMIT_HEADER_LENGTH) {
+        return `The header must be at most ${MAX_COMMIT_HEADER_LENGTH} characters long`;
+    }
+    if (lines.length > 1 && lines[1].trim() !== "") {
+        return "The header must be followed by a blank line before the body";
+    }
+
+    return null;
+}
+
+/**
+ * Sets the identity used for commits in a repository, including commits made in its worktrees.
  * @param git The SimpleGit instance for the repository.
- * @param branchName The name of the branch to check out.
- * @returns A promise that resolves when the checkout is complete.
+ * @param author The name and email address to commit as.
+ * @returns A promise that resolves when the identity is configured.
+ */
+export async function configureCommitAuthor(
+    git: SimpleGit,
+    author: CommitAuthor
+): Promise<void> {
+    await git.addConfig("user.name", author.name);
+    await git.addConfig("user.email", author.email);
+}
+
+/**
+ * Stages and commits only the given files, leaving any other changes in the working tree untouched.
+ * @param git The SimpleGit instance for the repository.
+ * @param message The commit message, which must follow the Conventional Commits specification.
+ * @param options The files or directories to commit and the identity to commit as.
+ * @returns A promise that resolves to the new commit and the files it contains, relative to the repository root.
  */
 export async function commitChanges(
     git: SimpleGit,
     message: string,
-    branch: string = "main"
-): Promise<void> {
-    await git.add("./*");
-    await git.commit(message);
-    await git.push("origin", branch);
+    options: CommitChangesOptions
+): Promise<CommitChangesResult> {
+    const { files, author } = options;
+
+    const invalidReason = validateConventionalCommitMessage(message);
+    if (invalidReason) {
+        throw new Error(`Invalid commit message: ${invalidReason}`);
+    }
+    if (files.length === 0) {
+        throw new Error("No files to commit");
+    }
+
+    const repositoryRoot = fs.realpathSync(
+        (await git.revparse(["--show-toplevel"])).trim()
+    );
+    const requestedPaths = files.map((file) =>
+        path
+            .relative(repositoryRoot, path.resolve(repositoryRoot, file))
+            .split(path.sep)
+            .join("/")
+    );
+
+    // Only commit requested files, or files in requested directories, that actually changed
+    const changedFiles = (await git.status()).files
+        .flatMap((file) => (file.from ? [file.from, file.path] : [file.path]))
+        .filter((file) =>
+            requestedPaths.some(
+                (requested) =>
+                    requested === "" ||
+                    file === requested ||
+                    file.startsWith(`${requested}/`)
+            )
+        );
+
+    if (changedFiles.length === 0) {
+        throw new Error(
+            `None of the files have changes to commit: ${files.join(", ")}`
+        );
+    }
+
+    await git.raw(["add", "--all", "--", ...changedFiles]);
+
+    const identity = author
+        ? ["-c", `user.name=${author.name}`, "-c", `user.email=${author.email}`]
+        : [];
+    await git.raw([
+        ...identity,
+        "commit",
+        "--message",
+        message,
+        "--",
+        ...changedFiles,
+    ]);
+
+    return {
+        commit: (await git.revparse(["HEAD"])).trim(),
+        files: changedFiles,
+        repositoryRoot: repositoryRoot,
+    };
+}
+
+/**
+ * Pushes a branch to a remote, setting it as the upstream of the branch.
+ * @param git The SimpleGit instance for the repository.
+ * @param remote The name of the remote to push to.
+ * @param branch The branch to push. Defaults to the current branch.
+ * @returns A promise that resolves to the name of the pushed branch.
+ */
+export async function pushChanges(
+    git: SimpleGit,
+    remote: string = "origin",
+    branch?: string
+): Promise<string> {
+    const branchToPush =
+        branch ?? (await git.revparse(["--abbrev-ref", "HEAD"])).trim();
+
+    await git.push(remote, branchToPush, ["--set-upstream"]);
+
+    return branchToPush;
+}
+
+export interface DiffHunk {
+    header: string;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: string[];
+}
+
+export interface ChangedFile {
+    path: string;
+    oldPath: string | null;
+    status: "added" | "modified" | "deleted" | "renamed";
+    binary: boolean;
+    insertions: number;
+    deletions: number;
+    hunks: DiffHunk[];
+}
+
+export interface ChangeSet {
+    baseCommit: string;
+    files: ChangedFile[];
+    insertions: number;
+    deletions: number;
+    diff: string;
 }
 
-export const CommitChanges = (git: SimpleGit, agentId: string) => {
+/**
+ * Parses the output of `git diff` into per-file hunks and stats.
+ * @param diff The output of `git diff`.
+ * @returns The changed files, in the order they appear in the diff.
+ */
+export function parseGitDiff(diff: string): ChangedFile[] {
+    const files: ChangedFile[] = [];
+    let currentFile: ChangedFile | null = null;
+    let currentHunk: DiffHunk | null = null;
+
+    for (const line of diff.split("\n")) {
+        const fileHeader = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+        if (fileHeader) {
+            currentFile = {
+                path: fileHeader[2],
+                oldPath: null,
+                status: "modified",
+                binary: false,
+                insertions: 0,
+                deletions: 0,
+                hunks: [],
+            };
+            currentHunk = null;
+            files.push(currentFile);
+            continue;
+        }
+        if (!currentFile) {
+            continue;
+        }
+
+        const hunkHeader = line.match(
+            /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+        );
+        if (hunkHeader) {
+            currentHunk = {
+                header: line,
+                oldStart: Number(hunkHeader[1]),
+                oldLines: Number(hunkHeader[2] ?? 1),
+                newStart: Number(hunkHeader[3]),
+                newLines: Number(hunkHeader[4] ?? 1),
+                lines: [],
+            };
+            currentFile.hunks.push(currentHunk);
+        } else if (currentHunk) {
+            if (line.startsWith("+")) {
+                currentFile.insertions++;
+            } else if (line.startsWith("-")) {
+                currentFile.deletions++;
+            }
+            if (line.length > 0) {
+                currentHunk.lines.push(line);
+            }
+        } else if (line.startsWith("new file mode")) {
+            currentFile.status = "added";
+        } else if (line.startsWith("deleted file mode")) {
+            currentFile.status = "deleted";
+        } else if (line.startsWith("rename from ")) {
+            currentFile.status = "renamed";
+            currentFile.oldPath = line.slice("rename from ".length);
+        } else if (line.startsWith("Binary files ")) {
+            currentFile.binary = true;
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Captures every change in the working tree against a base commit, including commits made since,
+ * uncommitted changes and untracked files.
+ * @param git The SimpleGit instance for the repository.
+ * @param baseCommit The commit to compare against.
+ * @returns A promise that resolves to the per-file hunks and stats, and the full diff.
+ */
+export async function captureChanges(
+    git: SimpleGit,
+    baseCommit: string
+): Promise<ChangeSet> {
+    // Untracked files only show up in the diff once git knows about them, so mark them as intended to be added
+    const untrackedFiles = (await git.status()).not_added;
+    if (untrackedFiles.length > 0) {
+        await git.raw(["add", "--intent-to-add", "--", ...untrackedFiles]);
+    }
+
+    let diff: string;
+    try {
+        diff = await git.diff(["--find-renames", baseCommit]);
+    } finally {
+        if (untrackedFiles.length > 0) {
+            await git.raw(["reset", "--quiet", "--", ...untrackedFiles]);
+        }
+    }
+
+    const files = parseGitDiff(diff);
+
+    return {
+        baseCommit: baseCommit,
+        files: files,
+        insertions: files.reduce((total, file) => total + file.insertions, 0),
+        deletions: files.reduce((total, file) => total + file.deletions, 0),
+        diff: diff,
+    };
+}
+
+export const CommitChanges = (
+    git: SimpleGit,
+    agentId: string,
+    options: CommitChangesToolOptions = {}
+) => {
     const schema = z.object({
-        message: z.string().describe("The commit message for the changes."),
+        message: z
+            .string()
+            .describe(
+                "The commit message for the changes, following the Conventional Commits specification, e.g. 'feat(parser): support nested lists'."
+            ),
+        files: z
+            .array(z.string())
+            .optional()
+            .describe(
+                "The files or directories to commit, relative to the repository root. Defaults to the files you have written, edited or deleted since your last commit."
+            ),
     });
 
     const functionLogger = logger.child({
@@ -70,21 +398,544 @@ export const CommitChanges = (git: SimpleGit, agentId: string) => {
 
     return new DynamicStructuredTool({
         name: "commit_changes",
-        description: "Commits changes in the repository with a message.",
+        description:
+            "Commits the files you have changed, or the given files, with a Conventional Commits message. Other changes in the working tree are not committed. Does not push.",
         schema: schema,
         func: async (input: z.infer<typeof schema>): Promise<string> => {
-            functionLogger.info("Committing changes", {
-                message: input.message,
-                agentId: agentId,
-            });
+            functionLogger.info(
+                { message: input.message, files: input.files },
+                "Committing changes"
+            );
 
             try {
                 const { message } = input;
-                await commitChanges(git, message, agentId);
-                return `Successfully committed changes with message: ${message}`;
+                const explicitFiles = input.files?.length > 0;
+                const files = explicitFiles
+                    ? input.files
+                    : getWrittenPaths(agentId);
+
+                if (files.length === 0) {
+                    return "Error committing changes: You have not written any files. Pass the files to commit.";
+                }
+
+                const result = await commitChanges(git, message, {
+                    files: files,
+                    author: options.author,
+                });
+                forgetWrittenPaths(
+                    agentId,
+                    explicitFiles
+                        ? result.files.map((file) =>
+                              path.join(result.repositoryRoot, file)
+                          )
+                        : undefined
+                );
+
+                return `Successfully committed ${result.files.length} files (${result.commit.slice(0, 10)}) with message: ${message}\n${result.files.join("\n")}`;
             } catch (error) {
                 return `Error committing changes: ${(error as Error).message}`;
             }
         },
     });
 };
+
+export const PushChanges = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        remote: z
+            .string()
+            .optional()
+            .describe("The remote to push to. Defaults to origin."),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "PushChanges",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "push_changes",
+        description:
+            "Pushes the commits on the current branch to the remote repository.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info({ remote: input.remote }, "Pushing changes");
+
+            try {
+                const { remote = "origin" } = input;
+                assertNotOption(remote, "remote");
+
+                const branch = await pushChanges(git, remote);
+                return `Successfully pushed ${branch} to ${remote}`;
+            } catch (error) {
+                return `Error pushing changes: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+const MAX_STATUS_FILES = 200;
+const MAX_DIFF_LENGTH = 20_000;
+const DEFAULT_LOG_COUNT = 20;
+const MAX_LOG_COUNT = 100;
+const MAX_BLAME_LINES = 200;
+
+/**
+ * Rejects arguments that git would interpret as options, such as `--output=<file>` passed as a ref.
+ * @param {string} value - The argument provided by the agent.
+ * @param {string} name - The name of the argument, used in the error message.
+ * @returns {void}
+ */
+const assertNotOption = (value: string, name: string): void => {
+    if (value.startsWith("-")) {
+        throw new Error(`Invalid ${name} '${value}': must not start with '-'`);
+    }
+};
+
+export const GitStatus = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({});
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitStatus",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_status",
+        description:
+            "Shows the current branch, how far it is ahead of or behind its upstream, and the staged, unstaged, untracked and conflicted files. Status codes follow `git status --short`.",
+        schema: schema,
+        func: async (): Promise<string> => {
+            functionLogger.info("Getting status");
+
+            try {
+                const status = await git.status();
+
+                return JSON.stringify({
+                    branch: status.current,
+                    tracking: status.tracking,
+                    ahead: status.ahead,
+                    behind: status.behind,
+                    clean: status.isClean(),
+                    conflicted: status.conflicted,
+                    files: status.files
+                        .slice(0, MAX_STATUS_FILES)
+                        .map((file) => ({
+                            path: file.path,
+                            staged: file.index.trim(),
+                            unstaged: file.working_dir.trim(),
+                        })),
+                    truncated: status.files.length > MAX_STATUS_FILES,
+                });
+            } catch (error) {
+                return `Error getting status: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GitDiff = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        staged: z
+            .boolean()
+            .optional()
+            .describe(
+                "Whether to show the staged changes instead of the unstaged changes in the working tree. Ignored when ref is provided."
+            ),
+        ref: z
+            .string()
+            .optional()
+            .describe(
+                "A commit, branch or range to compare against, e.g. 'HEAD~1', 'main' or 'main...HEAD'."
+            ),
+        paths: z
+            .array(z.string())
+            .optional()
+            .describe(
+                "Only show changes to these files or directories, relative to the repository root."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitDiff",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_diff",
+        description:
+            "Shows the changes in the working tree, the staged changes, or the changes against a commit, as per-file stats and a unified diff.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                { staged: input.staged, ref: input.ref, paths: input.paths },
+                "Getting diff"
+            );
+
+            try {
+                const { staged = false, ref, paths = [] } = input;
+
+                const args: string[] = [];
+                if (ref) {
+                    assertNotOption(ref, "ref");
+                    args.push(ref);
+                } else if (staged) {
+                    args.push("--cached");
+                }
+                args.push("--", ...paths);
+
+                const summary = await git.diffSummary(args);
+                const diff = await git.diff(args);
+
+                return JSON.stringify({
+                    files: summary.files.map((file) => ({
+                        file: file.file,
+                        insertions: "insertions" in file ? file.insertions : 0,
+                        deletions: "deletions" in file ? file.deletions : 0,
+                        binary: file.binary,
+                    })),
+                    insertions: summary.insertions,
+                    deletions: summary.deletions,
+                    diff:
+                        diff.length > MAX_DIFF_LENGTH
+                            ? `${diff.slice(0, MAX_DIFF_LENGTH)}\n[Diff truncated to ${MAX_DIFF_LENGTH} characters. Pass paths to see the rest.]`
+                            : diff,
+                });
+            } catch (error) {
+                return `Error getting diff: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GitLog = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        maxCount: z
+            .number()
+            .optional()
+            .describe(
+                `The maximum number of commits to show. Defaults to ${DEFAULT_LOG_COUNT}, at most ${MAX_LOG_COUNT}.`
+            ),
+        ref: z
+            .string()
+            .optional()
+            .describe(
+                "The branch, commit or range to show the history of. Defaults to HEAD."
+            ),
+        paths: z
+            .array(z.string())
+            .optional()
+            .describe(
+                "Only show commits that changed these files or directories, relative to the repository root."
+            ),
+        author: z
+            .string()
+            .optional()
+            .describe("Only show commits by authors matching this pattern."),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitLog",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_log",
+        description:
+            "Shows the commit history, optionally limited to a ref, to commits touching certain paths or to an author.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                { ref: input.ref, paths: input.paths },
+                "Getting log"
+            );
+
+            try {
+                const { ref, paths = [], author } = input;
+                const maxCount = Math.min(
+                    Math.max(
+                        Math.floor(input.maxCount ?? DEFAULT_LOG_COUNT),
+                        1
+                    ),
+                    MAX_LOG_COUNT
+                );
+
+                const args = [`--max-count=${maxCount}`];
+                if (author) {
+                    args.push(`--author=${author}`);
+                }
+                if (ref) {
+                    assertNotOption(ref, "ref");
+                    args.push(ref);
+                }
+                args.push("--", ...paths);
+
+                const log = await git.log(args);
+
+                return JSON.stringify(
+                    log.all.map((commit) => ({
+                        hash: commit.hash.slice(0, 10),
+                        date: commit.date,
+                        author: commit.author_name,
+                        message: commit.message,
+                    }))
+                );
+            } catch (error) {
+                return `Error getting log: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GitBlame = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        filePath: z
+            .string()
+            .describe(
+                "The path to the file to blame, relative to the repository root."
+            ),
+        startLine: z.number().describe("The 1-based first line to blame."),
+        endLine: z
+            .number()
+            .describe(
+                `The 1-based last line to blame, inclusive. At most ${MAX_BLAME_LINES} lines are blamed at once.`
+            ),
+        ref: z
+            .string()
+            .optional()
+            .describe("The commit to blame the file at. Defaults to HEAD."),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitBlame",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_blame",
+        description:
+            "Shows which commit, author and date last changed each line in a range of a file.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                {
+                    filePath: input.filePath,
+                    startLine: input.startLine,
+                    endLine: input.endLine,
+                },
+                "Getting blame"
+            );
+
+            try {
+                const { filePath, ref } = input;
+                const startLine = Math.max(Math.floor(input.startLine), 1);
+                const endLine = Math.min(
+                    Math.max(Math.floor(input.endLine), startLine),
+                    startLine + MAX_BLAME_LINES - 1
+                );
+
+                const args = [
+                    "blame",
+                    "--line-porcelain",
+                    "-L",
+                    `${startLine},${endLine}`,
+                ];
+                if (ref) {
+                    assertNotOption(ref, "ref");
+                    args.push(ref);
+                }
+                args.push("--", filePath);
+
+                // Every line in porcelain output starts with a header and ends with the tab-prefixed content
+                const lines: Record<string, string | number>[] = [];
+                let current: Record<string, string | number> = {};
+                for (const outputLine of (await git.raw(args)).split("\n")) {
+                    const header = outputLine.match(
+                        /^([0-9a-f]{40}) \d+ (\d+)/
+                    );
+                    if (header) {
+                        current = {
+                            line: Number(header[2]),
+                            hash: header[1].slice(0, 10),
+                        };
+                    } else if (outputLine.startsWith("author ")) {
+                        current.author = outputLine.slice("author ".length);
+                    } else if (outputLine.startsWith("author-time ")) {
+                        current.date = new Date(
+                            Number(outputLine.slice("author-time ".length)) *
+                                1000
+                        )
+                            .toISOString()
+                            .slice(0, 10);
+                    } else if (outputLine.startsWith("summary ")) {
+                        current.summary = outputLine.slice("summary ".length);
+                    } else if (outputLine.startsWith("\t")) {
+                        current.content = outputLine.slice(1);
+                        lines.push(current);
+                    }
+                }
+
+                return JSON.stringify(lines);
+            } catch (error) {
+                return `Error getting blame: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GitBranch = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        action: z
+            .enum(["list", "create", "switch"])
+            .describe(
+                "Whether to list the local branches, create a new branch or switch to an existing branch."
+            ),
+        name: z
+            .string()
+            .optional()
+            .describe("The name of the branch to create or switch to."),
+        startPoint: z
+            .string()
+            .optional()
+            .describe(
+                "The commit or branch to create the new branch from. Defaults to HEAD."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitBranch",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_branch",
+        description:
+            "Lists the local branches, creates a new branch without switching to it, or switches to an existing branch. Only commits on the branch you started on are merged back, so switch back to it before you finish.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                { action: input.action, name: input.name },
+                "Managing branches"
+            );
+
+            try {
+                const { action, name, startPoint = "HEAD" } = input;
+
+                if (action === "list") {
+                    const branches = await git.branchLocal();
+                    return JSON.stringify({
+                        current: branches.current,
+                        branches: branches.all,
+                    });
+                }
+
+                if (!name) {
+                    throw new Error(`A branch name is required to ${action}`);
+                }
+                assertNotOption(name, "branch name");
+
+                if (action === "create") {
+                    assertNotOption(startPoint, "start point");
+                    await git.branch([name, startPoint]);
+                    return `Successfully created branch ${name} from ${startPoint}`;
+                }
+
+                // Only switch to local branches, as checking out any other name could detach HEAD or restore files
+                if (!(await git.branchLocal()).all.includes(name)) {
+                    throw new Error(
+                        `Branch ${name} does not exist, create it first`
+                    );
+                }
+                await git.raw(["switch", name]);
+                return `Successfully switched to branch ${name}`;
+            } catch (error) {
+                return `Error managing branches: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GitStash = (git: SimpleGit, agentId: string) => {
+    const schema = z.object({
+        action: z
+            .enum(["push", "pop", "apply", "drop", "list"])
+            .describe(
+                "Whether to stash the current changes, restore a stash and remove it, restore a stash and keep it, remove a stash, or list the stashes."
+            ),
+        message: z
+            .string()
+            .optional()
+            .describe("A description of the stashed changes, for push."),
+        index: z
+            .number()
+            .optional()
+            .describe(
+                "The index of the stash to pop, apply or drop. Defaults to the most recent stash, 0."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        module: "tools/git",
+        function: "GitStash",
+        agentId: agentId,
+    });
+
+    return new DynamicStructuredTool({
+        name: "git_stash",
+        description:
+            "Temporarily sets aside uncommitted changes, including untracked files, and restores them later.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info({ action: input.action }, "Managing stashes");
+
+            try {
+                const { action, message, index = 0 } = input;
+
+                if (action === "list") {
+                    const stashes = await git.stashList();
+                    return JSON.stringify(
+                        stashes.all.map((stash, stashIndex) => ({
+                            index: stashIndex,
+                            hash: stash.hash.slice(0, 10),
+                            message: stash.message,
+                        }))
+                    );
+                }
+
+                if (action === "push") {
+                    const args = ["push", "--include-untracked"];
+                    if (message) {
+                        args.push("--message", message);
+                    }
+                    const output = await git.stash(args);
+                    return output.trim() || "No local changes to stash";
+                }
+
+                const output = await git.stash([
+                    action,
+                    `stash@{${Math.max(Math.floor(index), 0)}}`,
+                ]);
+                return output.trim() || `Successfully ran stash ${action}`;
+            } catch (error) {
+                return `Error managing stashes: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const gitTools = (git: SimpleGit, agentId: string) => {
+    return [
+        GitStatus(git, agentId),
+        GitDiff(git, agentId),
+        GitLog(git, agentId),
+        GitBlame(git, agentId),
+        GitBranch(git, agentId),
+        GitStash(git, agentId),
+        CommitChanges(git, agentId),
+    ];
+};
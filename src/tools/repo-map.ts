@@ -0,0 +1,364 @@
+/**
+ * @module tools/repo-map
+ * @file This module builds a compact map of a repository's directories, files and exports, so agents start with an overview of the codebase.
+ */
+
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as path from "path";
+import * as ts from "typescript";
+import pino from "pino";
+import simpleGit from "simple-git";
+import {
+    getWorkspaceCacheDirectory,
+    listRepositoryFiles,
+    resolveAgentPath,
+} from "./file-system";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+export interface RepositoryMapOptions {
+    maxLength?: number;
+    maxExportsPerFile?: number;
+}
+
+interface RepositoryMapCache {
+    commit: string | null;
+    map: string;
+}
+
+interface MapFile {
+    name: string;
+    size: number;
+    exports: string[];
+}
+
+interface MapDirectory {
+    name: string;
+    directories: Map<string, MapDirectory>;
+    files: MapFile[];
+    fileCount: number;
+    size: number;
+}
+
+const DEFAULT_MAX_LENGTH = 8000;
+const DEFAULT_MAX_EXPORTS_PER_FILE = 12;
+const MAX_PARSED_FILE_SIZE = 500_000;
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx"];
+
+/**
+ * Gets the names a TypeScript or JavaScript file exports at the top level.
+ * @param {string} fileName - The name of the file, used to pick the script kind.
+ * @param {string} content - The content of the file.
+ * @returns {string[]} The exported names.
+ */
+const getScriptExports = (fileName: string, content: string): string[] => {
+    const sourceFile = ts.createSourceFile(
+        fileName,
+        content,
+        ts.ScriptTarget.Latest
+    );
+    const exports: string[] = [];
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportDeclaration(statement)) {
+            if (
+                statement.exportClause &&
+                ts.isNamedExports(statement.exportClause)
+            ) {
+                exports.push(
+                    ...statement.exportClause.elements.map(
+                        (element) => element.name.text
+                    )
+                );
+            } else if (statement.moduleSpecifier) {
+                exports.push(
+                    `* from ${statement.moduleSpecifier.getText(sourceFile)}`
+                );
+            }
+            continue;
+        }
+        if (ts.isExportAssignment(statement)) {
+            exports.push("default");
+            continue;
+        }
+
+        const modifiers = ts.canHaveModifiers(statement)
+            ? ts.getModifiers(statement)
+            : undefined;
+        if (
+            !modifiers?.some(
+                (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+            )
+        ) {
+            continue;
+        }
+
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                exports.push(declaration.name.getText(sourceFile));
+            }
+        } else if (
+            ts.isFunctionDeclaration(statement) ||
+            ts.isClassDeclaration(statement) ||
+            ts.isInterfaceDeclaration(statement) ||
+            ts.isTypeAliasDeclaration(statement) ||
+            ts.isEnumDeclaration(statement) ||
+            ts.isModuleDeclaration(statement)
+        ) {
+            exports.push(
+                statement.name ? statement.name.getText(sourceFile) : "default"
+            );
+        }
+    }
+
+    return exports;
+};
+
+/**
+ * Gets the public top-level functions and classes of a Python file.
+ * @param {string} content - The content of the file.
+ * @returns {string[]} The names of the functions and classes.
+ */
+const getPythonExports = (content: string): string[] => {
+    return [...content.matchAll(/^(?:async\s+)?(?:def|class)\s+(\w+)/gm)]
+        .map((match) => match[1])
+        .filter((name) => !name.startsWith("_"));
+};
+
+/**
+ * Gets the top-level exports of a source file, if its language is supported.
+ * @param {string} absolutePath - The absolute path to the file.
+ * @param {number} size - The size of the file in bytes.
+ * @returns {Promise<string[]>} The exported names, or an empty list.
+ */
+const getFileExports = async (
+    absolutePath: string,
+    size: number
+): Promise<string[]> => {
+    const extension = path.extname(absolutePath).toLowerCase();
+    const isScript = SCRIPT_EXTENSIONS.includes(extension);
+    if ((!isScript && extension !== ".py") || size > MAX_PARSED_FILE_SIZE) {
+        return [];
+    }
+
+    const content = await fsp.readFile(absolutePath, "utf-8");
+    return isScript
+        ? getScriptExports(absolutePath, content)
+        : getPythonExports(content);
+};
+
+const formatSize = (bytes: number): string => {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Renders a directory of the map as an indented tree.
+ * @param {MapDirectory} directory - The directory to render.
+ * @param {number} depth - The depth of the directory in the tree.
+ * @param {number} maxDepth - The depth below which directories are only summarised.
+ * @param {number} maxExportsPerFile - The number of exports to list per file.
+ * @returns {string[]} The lines of the rendered tree.
+ */
+const renderDirectory = (
+    directory: MapDirectory,
+    depth: number,
+    maxDepth: number,
+    maxExportsPerFile: number
+): string[] => {
+    const indent = "  ".repeat(depth);
+    const lines: string[] = [];
+
+    for (const subdirectory of [...directory.directories.values()].sort(
+        (a, b) => a.name.localeCompare(b.name)
+    )) {
+        lines.push(
+            `${indent}${subdirectory.name}/ (${subdirectory.fileCount} files, ${formatSize(subdirectory.size)})`
+        );
+        if (depth < maxDepth) {
+            lines.push(
+                ...renderDirectory(
+                    subdirectory,
+                    depth + 1,
+                    maxDepth,
+                    maxExportsPerFile
+                )
+            );
+        }
+    }
+
+    for (const file of [...directory.files].sort((a, b) =>
+        a.name.localeCompare(b.name)
+    )) {
+        const shownExports = file.exports.slice(0, maxExportsPerFile);
+        const hiddenExports = file.exports.length - shownExports.length;
+        const exportsText =
+            shownExports.length > 0
+                ? `: ${shownExports.join(", ")}${hiddenExports > 0 ? ` (+${hiddenExports} more)` : ""}`
+                : "";
+
+        lines.push(
+            `${indent}${file.name} (${formatSize(file.size)})${exportsText}`
+        );
+    }
+
+    return lines;
+};
+
+/**
+ * Builds a compact tree of the directories and files in a repository, with their sizes and top-level exports.
+ * Directories are collapsed from the deepest level up until the map fits in the maximum length.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {RepositoryMapOptions} options - The size limits of the map.
+ * @returns {Promise<string>} The repository map.
+ */
+export async function generateRepositoryMap(
+    tempPath: string,
+    options: RepositoryMapOptions = {}
+): Promise<string> {
+    const {
+        maxLength = DEFAULT_MAX_LENGTH,
+        maxExportsPerFile = DEFAULT_MAX_EXPORTS_PER_FILE,
+    } = options;
+
+    const rootPath = fs.realpathSync(tempPath);
+    const root: MapDirectory = {
+        name: ".",
+        directories: new Map(),
+        files: [],
+        fileCount: 0,
+        size: 0,
+    };
+    let maxDepth = 0;
+
+    for (const absolutePath of await listRepositoryFiles(rootPath, rootPath)) {
+        // Symlinks are listed only while they stay inside the agent directory, as their size and exports are read
+        let resolvedPath: string;
+        let stats: fs.Stats;
+        try {
+            resolvedPath = resolveAgentPath(
+                rootPath,
+                path.relative(rootPath, absolutePath)
+            );
+            stats = await fsp.stat(resolvedPath);
+        } catch {
+            continue;
+        }
+        if (!stats.isFile()) {
+            continue;
+        }
+
+        const segments = path.relative(rootPath, absolutePath).split(path.sep);
+        maxDepth = Math.max(maxDepth, segments.length - 1);
+
+        let directory = root;
+        directory.fileCount++;
+        directory.size += stats.size;
+        for (const segment of segments.slice(0, -1)) {
+            if (!directory.directories.has(segment)) {
+                directory.directories.set(segment, {
+                    name: segment,
+                    directories: new Map(),
+                    files: [],
+                    fileCount: 0,
+                    size: 0,
+                });
+            }
+            directory = directory.directories.get(segment);
+            directory.fileCount++;
+            directory.size += stats.size;
+        }
+
+        let exports: string[] = [];
+        try {
+            exports = await getFileExports(resolvedPath, stats.size);
+        } catch {
+            // Files that cannot be parsed are listed without their exports
+        }
+
+        directory.files.push({
+            name: segments[segments.length - 1],
+            size: stats.size,
+            exports: exports,
+        });
+    }
+
+    const header = `Repository map (${root.fileCount} files, ${formatSize(root.size)}):`;
+    for (let depth = maxDepth; depth >= 0; depth--) {
+        const map = [
+            header,
+            ...renderDirectory(root, 0, depth, maxExportsPerFile),
+        ].join("\n");
+        if (map.length <= maxLength || depth === 0) {
+            return map.length <= maxLength
+                ? map
+                : `${map.slice(0, maxLength)}\n[Repository map truncated]`;
+        }
+    }
+
+    return header;
+}
+
+/**
+ * Gets the repository map for an agent directory, generating it if the cached map is missing or was built for another commit.
+ * The map is cached in the workspace cache directory so that every agent working on the repository can reuse it.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {RepositoryMapOptions} options - The size limits of the map.
+ * @returns {Promise<string>} The repository map.
+ */
+export async function getRepositoryMap(
+    tempPath: string,
+    options: RepositoryMapOptions = {}
+): Promise<string> {
+    const cachePath = path.join(
+        getWorkspaceCacheDirectory(tempPath),
+        "repo-map.json"
+    );
+
+    let commit: string | null = null;
+    try {
+        commit = (await simpleGit(tempPath).revparse(["HEAD"])).trim();
+    } catch {
+        // Not a git repository, or there are no commits yet
+    }
+
+    if (fs.existsSync(cachePath)) {
+        try {
+            const cache = JSON.parse(
+                await fsp.readFile(cachePath, "utf-8")
+            ) as RepositoryMapCache;
+            if (cache.commit === commit) {
+                return cache.map;
+            }
+        } catch (error) {
+            logger.warn(
+                `Ignoring unreadable repository map cache ${cachePath}: ${(error as Error).message}`
+            );
+        }
+    }
+
+    const map = await generateRepositoryMap(tempPath, options);
+
+    const cache: RepositoryMapCache = { commit: commit, map: map };
+    await fsp.mkdir(path.dirname(cachePath), { recursive: true });
+    await fsp.writeFile(cachePath, JSON.stringify(cache), "utf-8");
+
+    logger.info(
+        `Generated repository map for ${tempPath} (${map.length} characters)`
+    );
+
+    return map;
+}
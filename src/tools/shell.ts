@@ -0,0 +1,508 @@
+/**
+ * @module tools/shell
+ * @file This module provides agent tools for running shell commands in the agent directory. Commands are checked
+ * against allow and deny lists, may only refer to paths inside the agent directory and run with a scrubbed environment,
+ * but they are not isolated from the rest of the system.
+ */
+
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { spawn } from "child_process";
+
+import * as fs from "fs";
+import * as path from "path";
+import z from "zod";
+import pino from "pino";
+import { getWorkspaceCacheDirectory, resolveAgentPath } from "./file-system";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+export interface ShellCommandOptions {
+    // Programs that may be run, or invocations such as `node -e` for interpreters given inline code
+    allowedCommands?: string[];
+    deniedCommands?: string[];
+    timeoutMs?: number;
+    maxOutputLength?: number;
+    env?: Record<string, string>;
+}
+
+export interface ShellCommandResult {
+    command: string;
+    exitCode: number | null;
+    signal: string | null;
+    timedOut: boolean;
+    truncated: boolean;
+    output: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_OUTPUT_LENGTH = 20_000;
+
+// Programs agents must never run, regardless of the allow list
+export const DEFAULT_DENIED_COMMANDS = [
+    "sudo",
+    "su",
+    "doas",
+    "ssh",
+    "scp",
+    "sftp",
+    "rsync",
+    "curl",
+    "wget",
+    "nc",
+    "ncat",
+    "telnet",
+    "shutdown",
+    "reboot",
+    "mkfs",
+    "dd",
+    "chown",
+    "kill",
+    "pkill",
+    "killall",
+    "docker",
+    "eval",
+    "exec",
+    "source",
+];
+
+// Programs the code writer and tester may run, covering package managers, build and test tools and read-only utilities.
+// Interpreters such as node and python and package runners such as npx are left out, as they run any script or package.
+export const DEFAULT_ALLOWED_COMMANDS = [
+    "npm",
+    "yarn",
+    "pnpm",
+    "tsc",
+    "jest",
+    "vitest",
+    "mocha",
+    "eslint",
+    "prettier",
+    "make",
+    "cargo",
+    "go",
+    "pytest",
+    "pwd",
+    "ls",
+    "cat",
+    "head",
+    "tail",
+    "wc",
+    "grep",
+    "diff",
+    "sort",
+    "echo",
+];
+
+// Programs that run other commands, so they would bypass the allow and deny lists unless explicitly allowed
+const COMMAND_RUNNING_PROGRAMS = [
+    "sh",
+    "bash",
+    "zsh",
+    "dash",
+    "ksh",
+    "fish",
+    "csh",
+    "tcsh",
+    "env",
+    "xargs",
+    "nohup",
+    "time",
+    "timeout",
+    "nice",
+    "ionice",
+    "stdbuf",
+    "setsid",
+    "command",
+    "builtin",
+    "watch",
+    "script",
+    "parallel",
+    "busybox",
+];
+
+// Flags that make an interpreter run code given on the command line, which must be explicitly allowed such as `node -e`
+const INLINE_CODE_FLAGS: Record<string, string[]> = {
+    node: ["-e", "--eval", "-p", "--print"],
+    bun: ["-e", "--eval", "-p", "--print"],
+    deno: ["eval"],
+    python: ["-c"],
+    perl: ["-e", "-E"],
+    ruby: ["-e"],
+    php: ["-r"],
+    npx: ["-c", "--call"],
+};
+
+// Paths in a command that could refer to something outside the agent directory: absolute and home directory paths,
+// variables such as `$HOME`, `..` segments, globs such as `.*` that match `..`, and brace expansions
+const OUTSIDE_PATH_PATTERNS = [
+    /^\//,
+    /^~/,
+    /^\$[A-Za-z_{]/,
+    /(^|\/)\.\.(\/|$)/,
+    /(^|\/)\.[.*?]*[*?][.*?]*(\/|$)/,
+    /\{[^}]*(,|\.\.)[^}]*\}/,
+];
+
+// Environment variables matching these patterns are removed before running a command
+const SENSITIVE_ENV_PATTERNS = [
+    /KEY/i,
+    /TOKEN/i,
+    /SECRET/i,
+    /PASSWORD/i,
+    /PASSWD/i,
+    /CREDENTIAL/i,
+    /^OPENAI_/i,
+    /^AWS_/i,
+    /^GITHUB_/i,
+    /^NPM_CONFIG_/i,
+    /_URL$/i,
+];
+
+/**
+ * Builds the environment for an agent command, removing anything that could leak secrets.
+ * @param {string} homeDirectory - The directory to use as the home directory of the command, which should be outside the repository.
+ * @param {Record<string, string>} extraEnv - Additional variables to set for the command.
+ * @returns {NodeJS.ProcessEnv} The scrubbed environment.
+ */
+export function scrubEnvironment(
+    homeDirectory: string,
+    extraEnv: Record<string, string> = {}
+): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+
+    for (const [key, value] of Object.entries(process.env)) {
+        if (!SENSITIVE_ENV_PATTERNS.some((pattern) => pattern.test(key))) {
+            env[key] = value;
+        }
+    }
+
+    return { ...env, HOME: homeDirectory, CI: "1", ...extraEnv };
+}
+
+/**
+ * Gets the home directory for the commands of an agent, kept in the workspace cache so tools that write to the
+ * home directory, such as package manager caches, never change the repository.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {string} The path to the home directory.
+ */
+function getCommandHomeDirectory(tempPath: string): string {
+    return path.join(getWorkspaceCacheDirectory(tempPath), "home");
+}
+
+/**
+ * Splits a shell command line into the words of each command it runs, including command substitutions, with quotes
+ * and escapes removed.
+ * @param {string} command - The shell command line.
+ * @returns {string[][]} The words of each command, including leading environment variable assignments.
+ */
+function splitCommandWords(command: string): string[][] {
+    return command
+        .split(/&&|\|\||[;|&\n]|\$\(|[<>]\(|`/)
+        .map((segment) =>
+            segment
+                .split(/\s+/)
+                .map((word) => word.replace(/["'\\]/g, ""))
+                .filter((word) => word.length > 0)
+        )
+        .filter((words) => words.length > 0);
+}
+
+/**
+ * Splits a shell command line into the words of each command it runs, including command substitutions. Quotes and
+ * escapes are removed, leading environment variable assignments such as `FOO=bar npm test` are skipped and programs
+ * are reduced to their base name, so `/usr/bin/curl` and `"curl"` are both matched as `curl`.
+ * @param {string} command - The shell command line.
+ * @returns {string[][]} The words of each command, starting with the program name.
+ */
+function getCommandWords(command: string): string[][] {
+    return splitCommandWords(command)
+        .map((words) => {
+            // Skip environment variable assignments and the openings of subshells and groups such as `( curl x )`
+            const start = words.findIndex(
+                (word) =>
+                    !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word) &&
+                    !/^[({]+$/.test(word)
+            );
+            return start === -1 ? [] : words.slice(start);
+        })
+        .filter((words) => words.length > 0)
+        .map(([program, ...args]) => [
+            path.basename(program.replace(/^[({]+/, "")),
+            ...args,
+        ]);
+}
+
+/**
+ * Finds a word of a shell command line that could refer to a path outside the agent directory. Redirections such as
+ * `>/etc/passwd` are checked by their target, and assignments and flags such as `--prefix=/usr` by their value.
+ * @param {string} command - The shell command line.
+ * @returns {string | null} The word referring outside the agent directory, or null if there is none.
+ */
+function findPathOutsideAgentDirectory(command: string): string | null {
+    for (const words of splitCommandWords(command)) {
+        for (const word of words) {
+            const target = word.replace(/^[0-9]*[<>]+[&|]?/, "");
+            const value = target.slice(target.indexOf("=") + 1);
+
+            if (
+                OUTSIDE_PATH_PATTERNS.some(
+                    (pattern) => pattern.test(target) || pattern.test(value)
+                )
+            ) {
+                return word;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Finds the flag an interpreter is given to run code from the command line, such as `node -e` or `python -c`.
+ * @param {string} program - The name of the program.
+ * @param {string[]} args - The arguments of the program.
+ * @returns {string | null} The inline code flag, or null if the program is not given one.
+ */
+function findInlineCodeFlag(program: string, args: string[]): string | null {
+    // Versioned names such as `python3.12` take the flags of the interpreter they run
+    const flags = INLINE_CODE_FLAGS[program.replace(/[0-9.]+$/, "")] ?? [];
+
+    for (const arg of args) {
+        const flag = flags.find(
+            (flag) =>
+                arg === flag ||
+                (flag.startsWith("--") && arg.startsWith(`${flag}=`)) ||
+                // Short flags can be combined, as in `node -pe`
+                (/^-[A-Za-z]$/.test(flag) &&
+                    /^-[A-Za-z]+$/.test(arg) &&
+                    arg.includes(flag[1]))
+        );
+        if (flag) {
+            return flag;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks a shell command line against the allow and deny lists. Shells, interpreters given inline code and
+ * programs that run other commands, such as `bash`, `node -e` and `xargs`, are rejected unless they are explicitly
+ * allowed, as they could otherwise run any program. Paths outside the agent directory are always rejected, including
+ * in arguments and redirections.
+ * @param {string} command - The shell command line.
+ * @param {ShellCommandOptions} options - The allow and deny lists to check against.
+ * @returns {string | null} The reason the command is not permitted, or null if it is permitted.
+ */
+export function checkCommandPermitted(
+    command: string,
+    options: ShellCommandOptions = {}
+): string | null {
+    const { allowedCommands, deniedCommands = DEFAULT_DENIED_COMMANDS } =
+        options;
+
+    for (const [program, ...args] of getCommandWords(command)) {
+        if (deniedCommands.includes(program)) {
+            return `'${program}' is not permitted`;
+        }
+        if (allowedCommands && !allowedCommands.includes(program)) {
+            return `'${program}' is not in the list of allowed commands (${allowedCommands.join(", ")})`;
+        }
+
+        if (COMMAND_RUNNING_PROGRAMS.includes(program)) {
+            if (!allowedCommands?.includes(program)) {
+                return `'${program}' runs other commands and must be explicitly allowed`;
+            }
+
+            // An allowed wrapper must still not run a denied program, as in `timeout 10 curl`
+            const deniedProgram = args
+                .map((arg) => path.basename(arg))
+                .find((arg) => deniedCommands.includes(arg));
+            if (deniedProgram) {
+                return `'${deniedProgram}' is not permitted`;
+            }
+        }
+
+        const inlineCodeFlag = findInlineCodeFlag(program, args);
+        if (
+            inlineCodeFlag &&
+            !allowedCommands?.includes(`${program} ${inlineCodeFlag}`)
+        ) {
+            return `'${program} ${inlineCodeFlag}' runs inline code and must be explicitly allowed`;
+        }
+    }
+
+    const outsidePath = findPathOutsideAgentDirectory(command);
+    if (outsidePath) {
+        return `'${outsidePath}' refers to a path outside the agent directory`;
+    }
+
+    return null;
+}
+
+/**
+ * Runs a shell command in a subprocess, starting in the temporary agent directory. The command is checked against
+ * the allow and deny lists, but it is not isolated, so only permit programs that are safe to run on the host.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} command - The shell command line to run.
+ * @param {string} workingDirectory - The directory to run the command in, relative to the temporary agent directory.
+ * @param {ShellCommandOptions} options - The restrictions and limits for the command.
+ * @returns {Promise<ShellCommandResult>} The exit code and output of the command.
+ */
+export function runShellCommand(
+    tempPath: string,
+    command: string,
+    workingDirectory: string = ".",
+    options: ShellCommandOptions = {}
+): Promise<ShellCommandResult> {
+    const {
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH,
+        env = {},
+    } = options;
+
+    const notPermittedReason = checkCommandPermitted(command, options);
+    if (notPermittedReason) {
+        return Promise.reject(
+            new Error(`Command not permitted: ${notPermittedReason}`)
+        );
+    }
+
+    let cwd: string;
+    const homeDirectory = getCommandHomeDirectory(tempPath);
+    try {
+        cwd = resolveAgentPath(tempPath, workingDirectory);
+        fs.mkdirSync(homeDirectory, { recursive: true });
+    } catch (error) {
+        return Promise.reject(error);
+    }
+
+    return new Promise((resolve) => {
+        let output = "";
+        let truncated = false;
+        let timedOut = false;
+
+        const child = spawn(command, {
+            cwd: cwd,
+            shell: true,
+            detached: true,
+            env: scrubEnvironment(homeDirectory, env),
+        });
+
+        const appendOutput = (data: Buffer) => {
+            output += data.toString();
+            if (output.length > maxOutputLength * 2) {
+                output = output.slice(-maxOutputLength);
+                truncated = true;
+            }
+        };
+
+        child.stdout.on("data", appendOutput);
+        child.stderr.on("data", appendOutput);
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            try {
+                // Kill the whole process group so that child processes of the shell are stopped too
+                process.kill(-child.pid, "SIGKILL");
+            } catch {
+                child.kill("SIGKILL");
+            }
+        }, timeoutMs);
+
+        const finish = (exitCode: number | null, signal: string | null) => {
+            clearTimeout(timer);
+
+            if (output.length > maxOutputLength) {
+                output = output.slice(-maxOutputLength);
+                truncated = true;
+            }
+
+            resolve({
+                command: command,
+                exitCode: exitCode,
+                signal: signal,
+                timedOut: timedOut,
+                truncated: truncated,
+                output: truncated
+                    ? `[Output truncated to the last ${maxOutputLength} characters]\n${output}`
+                    : output,
+            });
+        };
+
+        child.on("error", (error) => {
+            output += error.message;
+            finish(null, null);
+        });
+        child.on("close", finish);
+    });
+}
+
+export const RunCommand = (
+    tempPath: string,
+    agentId: string,
+    options: ShellCommandOptions = {}
+) => {
+    const schema = z.object({
+        command: z
+            .string()
+            .describe(
+                "The shell command to run, for example 'npm install' or 'npm run build'."
+            ),
+        workingDirectory: z
+            .string()
+            .optional()
+            .describe(
+                "The directory to run the command in, relative to the temporary agent directory. Defaults to the root of the agent directory."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/shell",
+        function: "RunCommand",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "run_command",
+        description: `Runs a shell command in the project repository, for example to install dependencies, build, lint or run tests. Returns the exit code and output.${
+            options.allowedCommands
+                ? ` Only these programs may be run: ${options.allowedCommands.join(", ")}.`
+                : ""
+        }`,
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                {
+                    command: input.command,
+                    workingDirectory: input.workingDirectory,
+                },
+                "Running command"
+            );
+
+            try {
+                const { command, workingDirectory = "." } = input;
+                const result = await runShellCommand(
+                    tempPath,
+                    command,
+                    workingDirectory,
+                    options
+                );
+                return JSON.stringify(result);
+            } catch (error) {
+                functionLogger.warn(
+                    { command: input.command, error: (error as Error).message },
+                    "Rejected command"
+                );
+                return `Error running command: ${(error as Error).message}`;
+            }
+        },
+    });
+};
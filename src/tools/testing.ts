@@ -0,0 +1,147 @@
+/**
+ * @module tools/testing
+ * @file This module provides agent tools for running a project's test suite inside the agent directory.
+ */
+
+import { DynamicStructuredTool } from "@langchain/core/tools";
+
+import * as fs from "fs";
+import * as path from "path";
+import z from "zod";
+import pino from "pino";
+import {
+    runShellCommand,
+    ShellCommandOptions,
+    ShellCommandResult,
+} from "./shell";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+// The test script npm init writes into a new package.json, which fails without running any tests
+const NPM_PLACEHOLDER_TEST_SCRIPT = 'echo "Error: no test specified" && exit 1';
+
+export interface TestCommandResult extends ShellCommandResult {
+    passed: boolean;
+}
+
+/**
+ * Detects the command used to run the tests of the project in the given directory.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {string | null} The test command, or null if the project type is not recognised or has no tests.
+ */
+export function detectTestCommand(tempPath: string): string | null {
+    const packageJsonPath = path.join(tempPath, "package.json");
+    if (fs.existsSync(packageJsonPath)) {
+        try {
+            const packageJson = JSON.parse(
+                fs.readFileSync(packageJsonPath, "utf-8")
+            );
+            const testScript = packageJson.scripts?.test;
+            if (
+                typeof testScript === "string" &&
+                testScript.trim() !== NPM_PLACEHOLDER_TEST_SCRIPT
+            ) {
+                return "npm test";
+            }
+        } catch {
+            // Fall through to the other project types
+        }
+    }
+
+    if (fs.existsSync(path.join(tempPath, "Cargo.toml"))) {
+        return "cargo test";
+    }
+    if (fs.existsSync(path.join(tempPath, "go.mod"))) {
+        return "go test ./...";
+    }
+    if (
+        fs.existsSync(path.join(tempPath, "pyproject.toml")) ||
+        fs.existsSync(path.join(tempPath, "setup.py"))
+    ) {
+        return "pytest";
+    }
+
+    return null;
+}
+
+/**
+ * Runs a test command in a subprocess, starting in the temporary agent directory.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} command - The test command to run.
+ * @param {ShellCommandOptions} options - The restrictions and limits for the test command.
+ * @returns {Promise<TestCommandResult>} The result of running the tests.
+ */
+export async function runTestCommand(
+    tempPath: string,
+    command: string,
+    options: ShellCommandOptions = {}
+): Promise<TestCommandResult> {
+    const result = await runShellCommand(tempPath, command, ".", {
+        ...options,
+        env: { NODE_ENV: "test", ...options.env },
+    });
+
+    return { ...result, passed: result.exitCode === 0 && !result.timedOut };
+}
+
+export const RunTests = (
+    tempPath: string,
+    agentId: string,
+    testCommand?: string,
+    options: ShellCommandOptions = {}
+) => {
+    const schema = z.object({
+        testPath: z
+            .string()
+            .optional()
+            .describe(
+                "An optional test file or directory to run instead of the whole test suite, relative to the temporary agent directory."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/testing",
+        function: "RunTests",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "run_tests",
+        description:
+            "Runs the project's test suite and returns the exit code and output.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            const command = testCommand ?? detectTestCommand(tempPath);
+            if (!command) {
+                return "Error running tests: Unable to detect the test command for this project.";
+            }
+
+            // npm needs a separator to forward arguments to the test script
+            const fullCommand = !input.testPath
+                ? command
+                : command.startsWith("npm ")
+                  ? `${command} -- ${JSON.stringify(input.testPath)}`
+                  : `${command} ${JSON.stringify(input.testPath)}`;
+
+            functionLogger.info({ command: fullCommand }, "Running tests");
+
+            try {
+                const result = await runTestCommand(
+                    tempPath,
+                    fullCommand,
+                    options
+                );
+                return JSON.stringify(result);
+            } catch (error) {
+                return `Error running tests: ${(error as Error).message}`;
+            }
+        },
+    });
+};
@@ -0,0 +1,597 @@
+/**
+ * @module tools/typescript
+ * @file This module provides agent tools for navigating TypeScript and JavaScript code using the TypeScript language service.
+ */
+
+import { DynamicStructuredTool } from "@langchain/core/tools";
+
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import z from "zod";
+import pino from "pino";
+import { resolveAgentPath } from "./file-system";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+interface TypeScriptProject {
+    rootPath: string;
+    fileNames: string[];
+    service: ts.LanguageService;
+}
+
+interface SymbolPosition {
+    fileName: string;
+    position: number;
+}
+
+const MAX_REFERENCES = 100;
+const MAX_LOCATION_LINE_LENGTH = 200;
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx"];
+
+// Language services loaded in this process, keyed by the canonical path to the agent directory
+const loadedProjects = new Map<string, TypeScriptProject>();
+
+/**
+ * Gets the TypeScript project for an agent directory, creating its language service the first time it is used.
+ * Uses the tsconfig.json at the root of the directory if there is one, otherwise every source file in it.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {TypeScriptProject} The TypeScript project for the agent directory.
+ */
+function getTypeScriptProject(tempPath: string): TypeScriptProject {
+    const rootPath = fs.realpathSync(tempPath);
+
+    const loadedProject = loadedProjects.get(rootPath);
+    if (loadedProject) {
+        return loadedProject;
+    }
+
+    let options: ts.CompilerOptions = { allowJs: true, noEmit: true };
+    let fileNames: string[];
+
+    const configPath = path.join(rootPath, "tsconfig.json");
+    if (fs.existsSync(configPath)) {
+        const { config, error } = ts.readConfigFile(
+            configPath,
+            ts.sys.readFile
+        );
+        if (error) {
+            throw new Error(
+                `Unable to read tsconfig.json: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`
+            );
+        }
+
+        const parsedConfig = ts.parseJsonConfigFileContent(
+            config,
+            ts.sys,
+            rootPath
+        );
+        options = { ...parsedConfig.options, noEmit: true };
+        fileNames = parsedConfig.fileNames;
+    } else {
+        fileNames = ts.sys.readDirectory(rootPath, SOURCE_EXTENSIONS, [
+            "**/node_modules",
+            "**/.git",
+            "**/dist",
+            "**/build",
+        ]);
+    }
+
+    if (fileNames.length === 0) {
+        throw new Error("No TypeScript or JavaScript files found");
+    }
+
+    // Versions come from modification times, so files changed by other agents are picked up automatically
+    const host: ts.LanguageServiceHost = {
+        getScriptFileNames: () => fileNames,
+        getScriptVersion: (fileName) =>
+            fs.existsSync(fileName)
+                ? fs.statSync(fileName).mtimeMs.toString()
+                : "0",
+        getScriptSnapshot: (fileName) =>
+            fs.existsSync(fileName)
+                ? ts.ScriptSnapshot.fromString(
+                      fs.readFileSync(fileName, "utf-8")
+                  )
+                : undefined,
+        getCurrentDirectory: () => rootPath,
+        getCompilationSettings: () => options,
+        getDefaultLibFileName: ts.getDefaultLibFilePath,
+        fileExists: ts.sys.fileExists,
+        readFile: ts.sys.readFile,
+        readDirectory: ts.sys.readDirectory,
+        directoryExists: ts.sys.directoryExists,
+        getDirectories: ts.sys.getDirectories,
+    };
+
+    const project: TypeScriptProject = {
+        rootPath: rootPath,
+        fileNames: fileNames,
+        service: ts.createLanguageService(host, ts.createDocumentRegistry()),
+    };
+    loadedProjects.set(rootPath, project);
+
+    return project;
+}
+
+/**
+ * Releases the language service for an agent directory, e.g. when the directory is deleted.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @returns {void}
+ */
+export function unloadTypeScriptProject(tempPath: string): void {
+    if (!fs.existsSync(tempPath)) {
+        return;
+    }
+
+    const rootPath = fs.realpathSync(tempPath);
+    loadedProjects.get(rootPath)?.service.dispose();
+    loadedProjects.delete(rootPath);
+}
+
+/**
+ * Gets the source file for a path in the agent directory, adding it to the project if it was created after the project was loaded.
+ * @param {TypeScriptProject} project - The TypeScript project.
+ * @param {string} fileName - The absolute path to the file.
+ * @returns {ts.SourceFile} The source file.
+ */
+const getSourceFile = (
+    project: TypeScriptProject,
+    fileName: string
+): ts.SourceFile => {
+    if (!SOURCE_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) {
+        throw new Error(
+            `'${path.relative(project.rootPath, fileName)}' is not a TypeScript or JavaScript file`
+        );
+    }
+    if (!project.fileNames.includes(fileName)) {
+        project.fileNames.push(fileName);
+    }
+
+    const sourceFile = project.service.getProgram().getSourceFile(fileName);
+    if (!sourceFile) {
+        throw new Error(
+            `Unable to load '${path.relative(project.rootPath, fileName)}'`
+        );
+    }
+
+    return sourceFile;
+};
+
+/**
+ * Finds the first identifier with the given name, optionally restricted to a line or a range of the file.
+ * @param {ts.SourceFile} sourceFile - The source file to search.
+ * @param {string} name - The name of the identifier.
+ * @param {number} line - The 1-based line the identifier must be on, if any.
+ * @param {ts.TextSpan} span - The range the identifier must be in, if any.
+ * @returns {number | null} The position of the identifier, or null if it was not found.
+ */
+const findIdentifier = (
+    sourceFile: ts.SourceFile,
+    name: string,
+    line?: number,
+    span?: ts.TextSpan
+): number | null => {
+    let position: number | null = null;
+
+    const visit = (node: ts.Node) => {
+        if (position !== null) {
+            return;
+        }
+        if (
+            span &&
+            (node.getEnd() < span.start ||
+                node.getStart(sourceFile) > span.start + span.length)
+        ) {
+            return;
+        }
+        if (
+            (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) &&
+            node.text === name
+        ) {
+            const start = node.getStart(sourceFile);
+            const nodeLine =
+                sourceFile.getLineAndCharacterOfPosition(start).line + 1;
+            if (line === undefined || nodeLine === line) {
+                position = start;
+                return;
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return position;
+};
+
+/**
+ * Finds the position of a symbol, either in a given file or by looking up its declaration across the project.
+ * @param {TypeScriptProject} project - The TypeScript project.
+ * @param {string} tempPath - The path to the temporary agent directory.
+ * @param {string} agentId - The ID of the agent looking up the symbol.
+ * @param {string} symbol - The name of the symbol, optionally qualified with its container, e.g. 'MyClass.myMethod'.
+ * @param {string} filePath - The file the symbol appears in, relative to the agent directory, if known.
+ * @param {number} line - The 1-based line the symbol appears on, if known.
+ * @returns {SymbolPosition} The file and position of the symbol.
+ */
+const findSymbolPosition = (
+    project: TypeScriptProject,
+    tempPath: string,
+    agentId: string,
+    symbol: string,
+    filePath?: string,
+    line?: number
+): SymbolPosition => {
+    const nameParts = symbol.split(".");
+    const name = nameParts[nameParts.length - 1];
+    const containerName = nameParts.slice(0, -1).join(".");
+
+    if (filePath) {
+        const fileName = resolveAgentPath(tempPath, filePath, agentId);
+        const position = findIdentifier(
+            getSourceFile(project, fileName),
+            name,
+            line
+        );
+        if (position === null) {
+            throw new Error(
+                `Symbol '${name}' not found in ${filePath}${line ? ` on line ${line}` : ""}`
+            );
+        }
+
+        return { fileName, position };
+    }
+
+    const declaration = project.service
+        .getNavigateToItems(name, 50, undefined, true)
+        .filter(
+            (item) =>
+                item.name === name &&
+                (!containerName || item.containerName === containerName) &&
+                !path.relative(project.rootPath, item.fileName).startsWith("..")
+        )[0];
+    if (!declaration) {
+        throw new Error(
+            `No declaration of '${symbol}' found in the project. Pass the file it is used in to look it up there.`
+        );
+    }
+
+    const position = findIdentifier(
+        getSourceFile(project, declaration.fileName),
+        name,
+        undefined,
+        declaration.textSpan
+    );
+
+    return {
+        fileName: declaration.fileName,
+        position: position ?? declaration.textSpan.start,
+    };
+};
+
+/**
+ * Formats a location in the project as `file:line: text`, like grep.
+ * @param {TypeScriptProject} project - The TypeScript project.
+ * @param {string} fileName - The absolute path to the file.
+ * @param {number} position - The position in the file.
+ * @returns {string} The formatted location.
+ */
+const formatLocation = (
+    project: TypeScriptProject,
+    fileName: string,
+    position: number
+): string => {
+    const sourceFile = project.service.getProgram().getSourceFile(fileName);
+    const relativePath = path.relative(project.rootPath, fileName);
+    const displayPath = relativePath.startsWith("..")
+        ? `[external] ${path.basename(fileName)}`
+        : relativePath.split(path.sep).join("/");
+
+    if (!sourceFile) {
+        return displayPath;
+    }
+
+    const { line } = sourceFile.getLineAndCharacterOfPosition(position);
+    const lineText = sourceFile.text
+        .slice(
+            sourceFile.getPositionOfLineAndCharacter(line, 0),
+            sourceFile.getLineEndOfPosition(position)
+        )
+        .trim();
+
+    return `${displayPath}:${line + 1}: ${lineText.length > MAX_LOCATION_LINE_LENGTH ? `${lineText.slice(0, MAX_LOCATION_LINE_LENGTH)}...` : lineText}`;
+};
+
+/**
+ * Gets the signature and documentation of the symbol at a position.
+ * @param {TypeScriptProject} project - The TypeScript project.
+ * @param {SymbolPosition} symbolPosition - The file and position of the symbol.
+ * @returns {string | null} The signature followed by any documentation, or null if there is none.
+ */
+const getSignature = (
+    project: TypeScriptProject,
+    symbolPosition: SymbolPosition
+): string | null => {
+    const quickInfo = project.service.getQuickInfoAtPosition(
+        symbolPosition.fileName,
+        symbolPosition.position
+    );
+    if (!quickInfo) {
+        return null;
+    }
+
+    const signature = ts.displayPartsToString(quickInfo.displayParts);
+    const documentation = ts.displayPartsToString(quickInfo.documentation);
+
+    return documentation ? `${signature}\n${documentation}` : signature;
+};
+
+const symbolSchema = z.object({
+    symbol: z
+        .string()
+        .describe(
+            "The name of the symbol, optionally qualified with its class or namespace, e.g. 'cloneRepository' or 'DevelopmentTeamManager.invoke'."
+        ),
+    filePath: z
+        .string()
+        .optional()
+        .describe(
+            "A file the symbol appears in, relative to the temporary agent directory. If omitted, the symbol's declaration is looked up across the project."
+        ),
+    line: z
+        .number()
+        .optional()
+        .describe(
+            "The 1-based line in the file the symbol appears on, to pick between symbols with the same name."
+        ),
+});
+
+export const ListExports = (tempPath: string, agentId: string) => {
+    const schema = z.object({
+        filePath: z
+            .string()
+            .describe(
+                "The path to the TypeScript or JavaScript file, relative to the temporary agent directory."
+            ),
+    });
+
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/typescript",
+        function: "ListExports",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "list_exports",
+        description:
+            "Lists the symbols a TypeScript or JavaScript file exports, with their kind, location and type signature.",
+        schema: schema,
+        func: async (input: z.infer<typeof schema>): Promise<string> => {
+            functionLogger.info(
+                { filePath: input.filePath },
+                "Listing exports"
+            );
+
+            try {
+                const project = getTypeScriptProject(tempPath);
+                const fileName = resolveAgentPath(
+                    tempPath,
+                    input.filePath,
+                    agentId
+                );
+                const sourceFile = getSourceFile(project, fileName);
+                const checker = project.service.getProgram().getTypeChecker();
+
+                const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+                const exports = moduleSymbol
+                    ? checker.getExportsOfModule(moduleSymbol)
+                    : [];
+                if (exports.length === 0) {
+                    return `${input.filePath} has no exports`;
+                }
+
+                const lines = exports.map((exportedSymbol) => {
+                    // Follow re-exports to where the symbol is declared
+                    const symbol =
+                        exportedSymbol.flags & ts.SymbolFlags.Alias
+                            ? checker.getAliasedSymbol(exportedSymbol)
+                            : exportedSymbol;
+                    const declaration = symbol.declarations?.[0];
+                    if (!declaration) {
+                        return exportedSymbol.getName();
+                    }
+
+                    const declarationFile = declaration.getSourceFile();
+                    const position = (
+                        ts.getNameOfDeclaration(declaration) ?? declaration
+                    ).getStart(declarationFile);
+                    const signature = getSignature(project, {
+                        fileName: declarationFile.fileName,
+                        position: position,
+                    });
+
+                    return `${exportedSymbol.getName()}\n  ${formatLocation(project, declarationFile.fileName, position)}${signature ? `\n  ${signature.split("\n").join("\n  ")}` : ""}`;
+                });
+
+                return `${input.filePath} exports ${exports.length} symbols:\n${lines.join("\n")}`;
+            } catch (error) {
+                return `Error listing exports: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const FindDefinition = (tempPath: string, agentId: string) => {
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/typescript",
+        function: "FindDefinition",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "find_definition",
+        description:
+            "Finds where a TypeScript or JavaScript symbol is defined, following imports. Pass the file the symbol is used in to resolve that particular usage.",
+        schema: symbolSchema,
+        func: async (input: z.infer<typeof symbolSchema>): Promise<string> => {
+            functionLogger.info(
+                { symbol: input.symbol, filePath: input.filePath },
+                "Finding definition"
+            );
+
+            try {
+                const project = getTypeScriptProject(tempPath);
+                const symbolPosition = findSymbolPosition(
+                    project,
+                    tempPath,
+                    agentId,
+                    input.symbol,
+                    input.filePath,
+                    input.line
+                );
+
+                const definitions =
+                    project.service.getDefinitionAtPosition(
+                        symbolPosition.fileName,
+                        symbolPosition.position
+                    ) ?? [];
+                if (definitions.length === 0) {
+                    return `No definition found for '${input.symbol}'`;
+                }
+
+                const locations = definitions.map((definition) =>
+                    formatLocation(
+                        project,
+                        definition.fileName,
+                        definition.textSpan.start
+                    )
+                );
+                const signature = getSignature(project, symbolPosition);
+
+                return `${locations.join("\n")}${signature ? `\n\n${signature}` : ""}`;
+            } catch (error) {
+                return `Error finding definition: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const FindReferences = (tempPath: string, agentId: string) => {
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/typescript",
+        function: "FindReferences",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "find_references",
+        description:
+            "Finds every reference to a TypeScript or JavaScript symbol across the project, including its definition, as file:line: text.",
+        schema: symbolSchema,
+        func: async (input: z.infer<typeof symbolSchema>): Promise<string> => {
+            functionLogger.info(
+                { symbol: input.symbol, filePath: input.filePath },
+                "Finding references"
+            );
+
+            try {
+                const project = getTypeScriptProject(tempPath);
+                const symbolPosition = findSymbolPosition(
+                    project,
+                    tempPath,
+                    agentId,
+                    input.symbol,
+                    input.filePath,
+                    input.line
+                );
+
+                const references = (
+                    project.service.findReferences(
+                        symbolPosition.fileName,
+                        symbolPosition.position
+                    ) ?? []
+                ).flatMap((referencedSymbol) => referencedSymbol.references);
+                if (references.length === 0) {
+                    return `No references found for '${input.symbol}'`;
+                }
+
+                const locations = references
+                    .slice(0, MAX_REFERENCES)
+                    .map(
+                        (reference) =>
+                            `${formatLocation(project, reference.fileName, reference.textSpan.start)}${reference.isDefinition ? " [definition]" : ""}`
+                    );
+                const truncationNotice =
+                    references.length > MAX_REFERENCES
+                        ? `\n\n[Showing the first ${MAX_REFERENCES} of ${references.length} references]`
+                        : "";
+
+                return `Found ${references.length} references to '${input.symbol}'\n${locations.join("\n")}${truncationNotice}`;
+            } catch (error) {
+                return `Error finding references: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const GetTypeSignature = (tempPath: string, agentId: string) => {
+    const functionLogger = logger.child({
+        agentId: agentId,
+        module: "tools/typescript",
+        function: "GetTypeSignature",
+        tempPath: tempPath,
+    });
+
+    return new DynamicStructuredTool({
+        name: "get_type_signature",
+        description:
+            "Prints the type signature and documentation of a TypeScript or JavaScript symbol, e.g. the parameters and return type of a function.",
+        schema: symbolSchema,
+        func: async (input: z.infer<typeof symbolSchema>): Promise<string> => {
+            functionLogger.info(
+                { symbol: input.symbol, filePath: input.filePath },
+                "Getting type signature"
+            );
+
+            try {
+                const project = getTypeScriptProject(tempPath);
+                const symbolPosition = findSymbolPosition(
+                    project,
+                    tempPath,
+                    agentId,
+                    input.symbol,
+                    input.filePath,
+                    input.line
+                );
+
+                const signature = getSignature(project, symbolPosition);
+                if (!signature) {
+                    return `No type information found for '${input.symbol}'`;
+                }
+
+                return `${formatLocation(project, symbolPosition.fileName, symbolPosition.position)}\n\n${signature}`;
+            } catch (error) {
+                return `Error getting type signature: ${(error as Error).message}`;
+            }
+        },
+    });
+};
+
+export const typeScriptTools = (tempPath: string, agentId: string) => {
+    return [
+        ListExports(tempPath, agentId),
+        FindDefinition(tempPath, agentId),
+        FindReferences(tempPath, agentId),
+        GetTypeSignature(tempPath, agentId),
+    ];
+};
@@ -0,0 +1,288 @@
+/**
+ * @module tools/workspace
+ * @file This module manages isolated git worktrees for agents, created from a single base clone and merged back into it.
+ */
+
+import simpleGit, { SimpleGit } from "simple-git";
+
+import * as fs from "fs";
+import pino from "pino";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+} from "./file-system";
+import { unloadTypeScriptProject } from "./typescript";
+
+const logger = pino({
+    level: "info",
+    transport:
+        process.env.ENVIRONMENT === "production"
+            ? undefined
+            : { target: "pino-pretty", options: { colorize: true } },
+});
+
+export interface AgentWorkspace {
+    agentId: string;
+    path: string;
+    branch: string;
+    baseCommit: string;
+}
+
+export type WorkspaceIntegrationStrategy = "merge" | "cherry-pick";
+
+export interface WorkspaceIntegrationResult {
+    success: boolean;
+    previousHead: string;
+    commits: string[];
+    conflicts: string[];
+    // Files the agent left uncommitted, which stop the workspace from being integrated
+    uncommitted: string[];
+}
+
+/**
+ * Creates one git worktree per agent from a base clone, so that agents can work on their own branch
+ * without changing each other's files, and integrates their commits back into the base clone.
+ */
+export class WorkspaceManager {
+    private baseGit: SimpleGit;
+    private workspaces: AgentWorkspace[] = [];
+    private workspaceLogger: pino.Logger;
+
+    /**
+     * @param {string} basePath - The path to the base clone the worktrees are created from.
+     */
+    constructor(basePath: string) {
+        this.baseGit = simpleGit(basePath);
+        this.workspaceLogger = logger.child({
+            module: "tools/workspace",
+            basePath: basePath,
+        });
+    }
+
+    /**
+     * Creates a worktree for an agent on a new branch starting at the current commit of the base clone.
+     * @param {string} agentId - The ID of the agent the workspace is for.
+     * @param {string} [branch] - The name of the branch to create. Defaults to `agents/<agentId>`.
+     * @returns {Promise<AgentWorkspace>} The created workspace.
+     */
+    async createWorkspace(
+        agentId: string,
+        branch: string = `agents/${agentId}`
+    ): Promise<AgentWorkspace> {
+        const baseCommit = (await this.baseGit.revparse(["HEAD"])).trim();
+        const workspacePath = createTempAgentDirectory();
+
+        await this.baseGit.raw([
+            "worktree",
+            "add",
+            "-b",
+            branch,
+            workspacePath,
+            baseCommit,
+        ]);
+
+        const workspace: AgentWorkspace = {
+            agentId: agentId,
+            path: workspacePath,
+            branch: branch,
+            baseCommit: baseCommit,
+        };
+        this.workspaces.push(workspace);
+
+        this.workspaceLogger.info(
+            `Created workspace for ${agentId} on branch ${branch} at ${workspacePath}`
+        );
+
+        return workspace;
+    }
+
+    /**
+     * Takes over a workspace created earlier, e.g. by an interrupted run, so that it is managed by this manager again.
+     * @param {AgentWorkspace} workspace - The workspace to take over.
+     * @returns {Promise<AgentWorkspace | null>} The workspace, or null if its worktree no longer exists.
+     */
+    async restoreWorkspace(
+        workspace: AgentWorkspace
+    ): Promise<AgentWorkspace | null> {
+        if (!fs.existsSync(workspace.path)) {
+            return null;
+        }
+
+        const workspacePath = fs.realpathSync(workspace.path);
+        const worktrees = (
+            await this.baseGit.raw(["worktree", "list", "--porcelain"])
+        )
+            .split("\n")
+            .filter((line) => line.startsWith("worktree "))
+            .map((line) => line.substring("worktree ".length));
+        if (!worktrees.includes(workspacePath)) {
+            return null;
+        }
+
+        this.workspaces.push(workspace);
+
+        this.workspaceLogger.info(
+            `Restored workspace for ${workspace.agentId} on branch ${workspace.branch} at ${workspace.path}`
+        );
+
+        return workspace;
+    }
+
+    /**
+     * Brings a workspace up to date with the base clone, e.g. after other agents' work has been integrated.
+     * @param {AgentWorkspace} workspace - The workspace to update.
+     * @returns {Promise<void>} A promise that resolves when the workspace is up to date.
+     */
+    async syncWorkspace(workspace: AgentWorkspace): Promise<void> {
+        const baseHead = (await this.baseGit.revparse(["HEAD"])).trim();
+        const workspaceGit = simpleGit(workspace.path);
+
+        try {
+            await workspaceGit.merge(["--no-edit", baseHead]);
+        } catch (error) {
+            await workspaceGit.merge(["--abort"]).catch(() => {});
+            throw new Error(
+                `Unable to update the workspace of ${workspace.agentId}: ${(error as Error).message}`
+            );
+        }
+    }
+
+    /**
+     * Integrates the commits of a workspace into the base clone. Workspaces with uncommitted changes are not integrated,
+     * as only the agent knows which of them belong in a commit. Conflicting integrations are aborted, leaving the base
+     * clone unchanged.
+     * @param {AgentWorkspace} workspace - The workspace to integrate.
+     * @param {WorkspaceIntegrationStrategy} strategy - Whether to merge the workspace branch or cherry-pick its commits.
+     * @returns {Promise<WorkspaceIntegrationResult>} The integrated commits, or the conflicting files if the integration failed.
+     */
+    async integrateWorkspace(
+        workspace: AgentWorkspace,
+        strategy: WorkspaceIntegrationStrategy = "merge"
+    ): Promise<WorkspaceIntegrationResult> {
+        const previousHead = (await this.baseGit.revparse(["HEAD"])).trim();
+
+        const uncommitted = (
+            await simpleGit(workspace.path).status()
+        ).files.map((file) => file.path);
+        if (uncommitted.length > 0) {
+            this.workspaceLogger.warn(
+                `Not integrating ${workspace.branch}, which has uncommitted changes to ${uncommitted.join(", ")}`
+            );
+
+            return {
+                success: false,
+                previousHead: previousHead,
+                commits: [],
+                conflicts: [],
+                uncommitted: uncommitted,
+            };
+        }
+
+        const commits = (
+            await this.baseGit.raw([
+                "rev-list",
+                "--reverse",
+                `HEAD..${workspace.branch}`,
+            ])
+        )
+            .split("\n")
+            .filter((commit) => commit.length > 0);
+
+        if (commits.length === 0) {
+            return {
+                success: true,
+                previousHead: previousHead,
+                commits: [],
+                conflicts: [],
+                uncommitted: [],
+            };
+        }
+
+        try {
+            if (strategy === "merge") {
+                await this.baseGit.merge([
+                    "--no-ff",
+                    "-m",
+                    `Merge branch '${workspace.branch}'`,
+                    workspace.branch,
+                ]);
+            } else {
+                await this.baseGit.raw(["cherry-pick", ...commits]);
+            }
+        } catch (error) {
+            const conflicts = (
+                await this.baseGit.diff(["--name-only", "--diff-filter=U"])
+            )
+                .split("\n")
+                .filter((file) => file.length > 0);
+
+            await this.baseGit
+                .raw([
+                    strategy === "merge" ? "merge" : "cherry-pick",
+                    "--abort",
+                ])
+                .catch(() => {});
+
+            this.workspaceLogger.warn(
+                `Unable to ${strategy} ${workspace.branch}: ${(error as Error).message}`
+            );
+
+            return {
+                success: false,
+                previousHead: previousHead,
+                commits: commits,
+                conflicts: conflicts,
+                uncommitted: [],
+            };
+        }
+
+        this.workspaceLogger.info(
+            `Integrated ${commits.length} commits from ${workspace.branch} using ${strategy}`
+        );
+
+        return {
+            success: true,
+            previousHead: previousHead,
+            commits: commits,
+            conflicts: [],
+            uncommitted: [],
+        };
+    }
+
+    /**
+     * Removes a workspace and its worktree, optionally deleting its branch too.
+     * @param {AgentWorkspace} workspace - The workspace to remove.
+     * @param {boolean} deleteBranch - Whether to delete the workspace branch from the base clone.
+     * @returns {Promise<void>} A promise that resolves when the workspace is removed.
+     */
+    async removeWorkspace(
+        workspace: AgentWorkspace,
+        deleteBranch: boolean = true
+    ): Promise<void> {
+        unloadTypeScriptProject(workspace.path);
+        deleteTempAgentDirectory(workspace.path);
+        await this.baseGit.raw(["worktree", "prune"]);
+
+        if (deleteBranch) {
+            await this.baseGit.branch(["-D", workspace.branch]);
+        }
+
+        this.workspaces = this.workspaces.filter(
+            (existing) => existing !== workspace
+        );
+    }
+
+    /**
+     * Removes every workspace created by this manager.
+     * @returns {Promise<void>} A promise that resolves when all workspaces are removed.
+     */
+    async dispose(): Promise<void> {
+        for (const workspace of [...this.workspaces]) {
+            await this.removeWorkspace(workspace).catch((error) => {
+                this.workspaceLogger.warn(
+                    `Unable to remove workspace ${workspace.path}: ${(error as Error).message}`
+                );
+            });
+        }
+    }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Annotation, END, START, StateGraph } from "@langchain/langgraph";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileCheckpointer } from "../src/checkpointer";
+
+const CounterState = Annotation.Root({
+    count: Annotation<number>({ reducer: (x, y) => y ?? x, default: () => 0 }),
+});
+
+/**
+ * Compiles a graph that increments a counter twice, failing on the second node while `fail` is set.
+ * @param {FileCheckpointer} checkpointer - The checkpointer to compile the graph with.
+ * @param {{ fail: boolean }} options - Whether the second node fails.
+ * @returns The compiled graph.
+ */
+const createCounterGraph = (
+    checkpointer: FileCheckpointer,
+    options: { fail: boolean }
+) =>
+    new StateGraph(CounterState)
+        .addNode("first", (state) => ({ count: state.count + 1 }))
+        .addNode("second", (state) => {
+            if (options.fail) {
+                throw new Error("Interrupted");
+            }
+            return { count: state.count + 1 };
+        })
+        .addEdge(START, "first")
+        .addEdge("first", "second")
+        .addEdge("second", END)
+        .compile({ checkpointer: checkpointer });
+
+describe("FileCheckpointer", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("resumes a graph from the last completed node in a new checkpointer", async () => {
+        const config = { configurable: { thread_id: "run/1" } };
+
+        await expect(
+            createCounterGraph(new FileCheckpointer(directory), {
+                fail: true,
+            }).invoke({ count: 0 }, config)
+        ).rejects.toThrow("Interrupted");
+
+        const checkpointer = new FileCheckpointer(directory);
+        expect(checkpointer.hasThread("run/1")).toBe(true);
+
+        const graph = createCounterGraph(checkpointer, { fail: false });
+        expect((await graph.getState(config)).next).toEqual(["second"]);
+        expect(await graph.invoke(null, config)).toEqual({ count: 2 });
+    });
+
+    it("keeps only the latest checkpoints of a thread", async () => {
+        const config = { configurable: { thread_id: "run" } };
+        const checkpointer = new FileCheckpointer(directory, 2);
+
+        await createCounterGraph(checkpointer, { fail: false }).invoke(
+            { count: 0 },
+            config
+        );
+
+        const checkpoints = [];
+        for await (const checkpoint of new FileCheckpointer(directory).list(
+            config
+        )) {
+            checkpoints.push(checkpoint);
+        }
+        expect(checkpoints).toHaveLength(2);
+    });
+
+    it("deletes threads", async () => {
+        const config = { configurable: { thread_id: "run" } };
+        const checkpointer = new FileCheckpointer(directory);
+        await createCounterGraph(checkpointer, { fail: false }).invoke(
+            { count: 0 },
+            config
+        );
+
+        await checkpointer.deleteThread("run");
+
+        expect(checkpointer.hasThread("run")).toBe(false);
+        expect(new FileCheckpointer(directory).hasThread("run")).toBe(false);
+    });
+
+    it("saves and loads run state", async () => {
+        const checkpointer = new FileCheckpointer(directory);
+
+        expect(checkpointer.loadRunState("run")).toBeNull();
+
+        await checkpointer.saveRunState("run", { tempPath: "/tmp/agent" });
+
+        expect(new FileCheckpointer(directory).loadRunState("run")).toEqual({
+            tempPath: "/tmp/agent",
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { HumanMessage } from "@langchain/core/messages";
+import {
+    ContextBudget,
+    createContextBudget,
+    getContextWindow,
+} from "../src/context-budget";
+import { configureModels } from "../src/model";
+
+describe("getContextWindow", () => {
+    it("matches model families regardless of provider prefixes and case", () => {
+        expect(getContextWindow("gpt-4o-mini")).toBe(128_000);
+        expect(getContextWindow("gpt-4.5-preview")).toBe(128_000);
+        expect(getContextWindow("gpt-4")).toBe(8_192);
+        expect(getContextWindow("Qwen/Qwen2.5-Coder-32B-Instruct")).toBe(
+            131_072
+        );
+        expect(getContextWindow("qwen2-7b")).toBe(32_768);
+    });
+
+    it("falls back to a conservative default for unknown and unnamed models", () => {
+        expect(getContextWindow("my-local-model")).toBe(32_768);
+        expect(getContextWindow(undefined)).toBe(32_768);
+    });
+});
+
+describe("ContextBudget", () => {
+    it("reserves room for the output", () => {
+        const budget = new ContextBudget("gpt-4o", 10_000);
+
+        expect(budget.reservedOutputTokens).toBe(2_500);
+        expect(budget.inputLimit).toBe(7_500);
+    });
+
+    it("counts message overhead on top of the text", () => {
+        const budget = new ContextBudget("gpt-4o");
+        const text = "The quick brown fox jumps over the lazy dog.";
+
+        expect(
+            budget.countMessagesTokens([new HumanMessage({ content: text })])
+        ).toBe(budget.countTokens(text) + 4 + 3);
+    });
+
+    it("never splits a multi-byte character across chunks", () => {
+        const budget = new ContextBudget("gpt-4o");
+        const text = Array.from(
+            { length: 200 },
+            (_, index) =>
+                `Line ${index} has some words, a café ☕ and 漢字 in it.`
+        ).join("\n");
+
+        const chunks = budget.splitText(text, 50);
+
+        expect(chunks.join("")).toBe(text);
+        for (const chunk of chunks) {
+            expect(chunk).not.toContain("\uFFFD");
+            expect(budget.countTokens(chunk)).toBeLessThanOrEqual(50);
+        }
+    });
+
+    it("splits text into chunks within the limit that join back into the original", () => {
+        const budget = new ContextBudget("gpt-4o");
+        const text = Array.from(
+            { length: 200 },
+            (_, index) => `Line ${index} has some words in it.`
+        ).join("\n");
+
+        const chunks = budget.splitText(text, 50);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.join("")).toBe(text);
+        for (const chunk of chunks) {
+            expect(budget.countTokens(chunk)).toBeLessThanOrEqual(50);
+        }
+    });
+});
+
+describe("createContextBudget", () => {
+    afterEach(() => {
+        configureModels({});
+    });
+
+    it("uses the context window and output tokens configured for the role", () => {
+        configureModels({
+            roles: {
+                writer: {
+                    provider: "fake",
+                    contextWindow: 20_000,
+                    maxOutputTokens: 1_000,
+                },
+            },
+        });
+
+        const budget = createContextBudget("writer");
+
+        expect(budget.contextWindow).toBe(20_000);
+        expect(budget.inputLimit).toBe(19_000);
+    });
+});
@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import * as path from "path";
+import simpleGit from "simple-git";
+import { createTempAgentDirectory } from "../src/tools/file-system";
+import { CommitAuthor, configureCommitAuthor } from "../src/tools/git";
+
+export const TEST_AUTHOR: CommitAuthor = {
+    name: "Test Author",
+    email: "test@example.com",
+};
+
+export const FIXTURES_PATH = path.join(__dirname, "fixtures");
+
+/**
+ * Creates a git repository in a new temporary agent directory, with the given files committed on the main branch.
+ * @param {Record<string, string>} files - The contents of the files to commit, keyed by their path in the repository.
+ * @returns {Promise<string>} The path to the repository.
+ */
+export async function createTestRepository(
+    files: Record<string, string>
+): Promise<string> {
+    const repositoryPath = createTempAgentDirectory();
+    const git = simpleGit(repositoryPath);
+
+    await git.init(["--initial-branch=main"]);
+    await configureCommitAuthor(git, TEST_AUTHOR);
+
+    for (const [filePath, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(repositoryPath, filePath)), {
+            recursive: true,
+        });
+        fs.writeFileSync(path.join(repositoryPath, filePath), content);
+    }
+    await git.add(".");
+    await git.commit("chore: initial commit");
+
+    return repositoryPath;
+}
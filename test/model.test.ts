@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import {
+    configureModels,
+    createModelInstance,
+    getEmbeddingModelId,
+    registerModelProvider,
+    resolveModelConfig,
+} from "../src/model";
+
+const MODEL_ENVIRONMENT_VARIABLES = [
+    "MODEL_PROVIDER",
+    "MODEL_NAME",
+    "WRITER_MODEL_PROVIDER",
+    "WRITER_MODEL_NAME",
+    "EMBEDDING_PROVIDER",
+    "EMBEDDING_MODEL_NAME",
+];
+
+describe("model registry", () => {
+    beforeEach(() => {
+        for (const name of MODEL_ENVIRONMENT_VARIABLES) {
+            vi.stubEnv(name, "");
+        }
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        configureModels({});
+    });
+
+    it("defaults to the openai provider and its default model", () => {
+        expect(resolveModelConfig("writer")).toMatchObject({
+            provider: "openai",
+            modelName: "qwen3",
+        });
+    });
+
+    it("lets roles and environment variables override the default model", () => {
+        configureModels({
+            default: { provider: "ollama", modelName: "llama3" },
+            roles: { reviewer: { modelName: "qwen3-coder" } },
+        });
+        vi.stubEnv("WRITER_MODEL_NAME", "deepseek-coder");
+
+        expect(resolveModelConfig("manager").modelName).toBe("llama3");
+        expect(resolveModelConfig("reviewer")).toMatchObject({
+            provider: "ollama",
+            modelName: "qwen3-coder",
+        });
+        expect(resolveModelConfig("writer").modelName).toBe("deepseek-coder");
+        expect(
+            resolveModelConfig("writer", { modelName: "override" }).modelName
+        ).toBe("override");
+    });
+
+    it("creates models through registered providers", async () => {
+        registerModelProvider(
+            "scripted",
+            (config) => new FakeListChatModel({ responses: [config.modelName] })
+        );
+        configureModels({
+            roles: { tester: { provider: "scripted", modelName: "tests" } },
+        });
+
+        const model = createModelInstance({ role: "tester" });
+
+        expect((await model.invoke("Hello")).content).toBe("tests");
+    });
+
+    it("rejects unknown providers", () => {
+        expect(() => createModelInstance({ provider: "missing" })).toThrow(
+            /Unknown model provider: missing/
+        );
+    });
+
+    it("identifies the embedding model so stored embeddings can be invalidated", () => {
+        configureModels({ embeddings: { provider: "ollama" } });
+
+        expect(getEmbeddingModelId()).toBe("ollama:nomic-embed-text");
+        expect(getEmbeddingModelId({ provider: "fake" })).toBe(
+            "fake:synthetic"
+        );
+    });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import {
+    RecordingChatModel,
+    resetFixtureSessions,
+    ScriptedChatModel,
+} from "../src/scripted-model";
+
+describe("ScriptedChatModel", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        resetFixtureSessions();
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "fixtures-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("replays responses and tool calls in order, shared by every model using the fixture", async () => {
+        const fixturePath = path.join(directory, "session.json");
+        fs.writeFileSync(
+            fixturePath,
+            JSON.stringify({
+                version: 1,
+                responses: [
+                    {
+                        content: "",
+                        tool_calls: [
+                            {
+                                name: "read_file",
+                                args: { filePath: "src/index.ts" },
+                                id: "call_read",
+                            },
+                        ],
+                    },
+                    { content: "Done" },
+                ],
+            })
+        );
+
+        const first = await new ScriptedChatModel({ fixturePath }).invoke(
+            "Read the file"
+        );
+        const second = await new ScriptedChatModel({ fixturePath }).invoke(
+            "Continue"
+        );
+
+        expect(first.tool_calls).toMatchObject([
+            { name: "read_file", args: { filePath: "src/index.ts" } },
+        ]);
+        expect(second.content).toBe("Done");
+        await expect(
+            new ScriptedChatModel({ fixturePath }).invoke("More")
+        ).rejects.toThrow(/no response left after 2 responses/);
+    });
+
+    it("can keep repeating the last response", async () => {
+        const model = new ScriptedChatModel({
+            responses: ["First", "Last"],
+            repeatLast: true,
+        });
+
+        expect((await model.invoke("1")).content).toBe("First");
+        expect((await model.invoke("2")).content).toBe("Last");
+        expect((await model.invoke("3")).content).toBe("Last");
+    });
+
+    it("records real sessions into fixtures that can be replayed", async () => {
+        const fixturePath = path.join(directory, "recorded", "session.json");
+        const recorder = new RecordingChatModel(
+            new FakeListChatModel({ responses: ["Recorded answer"] }),
+            fixturePath
+        );
+
+        await recorder.invoke("Question");
+        resetFixtureSessions();
+
+        expect(
+            (await new ScriptedChatModel({ fixturePath }).invoke("Question"))
+                .content
+        ).toBe("Recorded answer");
+    });
+});
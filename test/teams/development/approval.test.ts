@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    ApprovalRequest,
+    CallbackApprover,
+    FileApprover,
+    formatApprovalRequest,
+    requestApproval,
+} from "../../../src/teams/development/approval";
+import { DevelopmentPlan } from "../../../src/teams/development/plan";
+
+const plan: DevelopmentPlan = {
+    summary: "Fix the off-by-one error.",
+    steps: [
+        {
+            title: "Fix the loop bound",
+            description: "Use < instead of <=.",
+            files: [
+                {
+                    path: "src/loop.ts",
+                    action: "modify",
+                    description: "Fix the bound.",
+                },
+            ],
+        },
+    ],
+    acceptanceCriteria: [],
+    risks: [],
+};
+
+describe("requestApproval", () => {
+    it("pauses at the gate and returns the approver's decision", async () => {
+        const requests: ApprovalRequest[] = [];
+        const approver = new CallbackApprover(async (request) => {
+            requests.push(request);
+            return { action: "reject", comment: "Not now" };
+        });
+
+        const decision = await requestApproval(approver, {
+            gate: "push",
+            message: "Push the changes?",
+        });
+
+        expect(decision).toEqual({ action: "reject", comment: "Not now" });
+        expect(requests).toEqual([
+            { gate: "push", message: "Push the changes?" },
+        ]);
+    });
+
+    it("returns edited plans", async () => {
+        const editedPlan = { ...plan, summary: "Fix the loop bound." };
+        const approver = new CallbackApprover(async () => ({
+            action: "edit",
+            plan: editedPlan,
+        }));
+
+        const decision = await requestApproval(approver, {
+            gate: "plan",
+            message: "Approve the plan?",
+            plan: plan,
+        });
+
+        expect(decision).toEqual({ action: "edit", plan: editedPlan });
+    });
+
+    it("rejects edit decisions without a plan", async () => {
+        const approver = new CallbackApprover(async () => ({ action: "edit" }));
+
+        await expect(
+            requestApproval(approver, {
+                gate: "plan",
+                message: "Approve the plan?",
+                plan: plan,
+            })
+        ).rejects.toThrow(/must include the edited plan/);
+    });
+});
+
+describe("FileApprover", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "approvals-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("writes the request and waits for the decision file", async () => {
+        const approver = new FileApprover(directory, 10);
+
+        const decision = approver.requestApproval({
+            gate: "code",
+            message: "Approve the changes?",
+        });
+        while (!fs.existsSync(path.join(directory, "code-1.request.json"))) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        fs.writeFileSync(
+            path.join(directory, "code-1.decision.json"),
+            JSON.stringify({ action: "approve" })
+        );
+
+        expect(await decision).toEqual({ action: "approve" });
+    });
+
+    it("rejects when no decision is made in time", async () => {
+        const approver = new FileApprover(directory, 10, 50);
+
+        const decision = await approver.requestApproval({
+            gate: "push",
+            message: "Push the changes?",
+        });
+
+        expect(decision.action).toBe("reject");
+        expect(decision.comment).toMatch(/No decision was made within 50ms/);
+    });
+});
+
+describe("formatApprovalRequest", () => {
+    it("includes the plan and a summary of the changes", () => {
+        const formatted = formatApprovalRequest({
+            gate: "code",
+            message: "Approve the changes?",
+            plan: plan,
+            changes: {
+                baseCommit: "abc",
+                files: [
+                    {
+                        path: "src/loop.ts",
+                        oldPath: null,
+                        status: "modified",
+                        binary: false,
+                        insertions: 1,
+                        deletions: 1,
+                        hunks: [],
+                    },
+                ],
+                insertions: 1,
+                deletions: 1,
+                diff: "",
+            },
+        });
+
+        expect(formatted).toContain(
+            "Approval needed (code): Approve the changes?"
+        );
+        expect(formatted).toContain("1. Fix the loop bound");
+        expect(formatted).toContain(
+            "1 files changed, 1 insertions(+), 1 deletions(-)\n- modified src/loop.ts (+1 -1)"
+        );
+    });
+});
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import {
+    AIMessage,
+    BaseMessage,
+    HumanMessage,
+    isToolMessage,
+    ToolMessage,
+} from "@langchain/core/messages";
+import { DynamicStructuredTool } from "@langchain/core/tools";
+import { ChatResult } from "@langchain/core/outputs";
+import z from "zod";
+import { ContextBudget } from "../../../src/context-budget";
+import { configureModels, registerModelProvider } from "../../../src/model";
+import { ScriptedChatModel } from "../../../src/scripted-model";
+import { DevelopmentBaseAgent } from "../../../src/teams/development/base-agent";
+
+const SYSTEM_PROMPT =
+    "You read build logs and report whether the build passed.";
+const LOG_LINE = "[build] compiled module without errors in 12ms\n";
+const SUMMARY = "The agent read the build log three times.";
+
+const responseSchema = z.object({ passed: z.boolean() });
+
+class DevelopmentLogReader extends DevelopmentBaseAgent<typeof responseSchema> {
+    /**
+     * @param {number} [logLines] - The number of lines in the build log.
+     */
+    constructor(logLines: number = 400) {
+        super({
+            threadId: "log-reader",
+            module: "test/log-reader",
+            role: "writer",
+            systemPrompt: SYSTEM_PROMPT,
+            tools: [
+                new DynamicStructuredTool({
+                    name: "read_log",
+                    description: "Reads the build log.",
+                    schema: z.object({}),
+                    func: async () => LOG_LINE.repeat(logLines),
+                }),
+            ],
+            responseSchema: responseSchema,
+        });
+    }
+
+    async invoke(): Promise<z.infer<typeof responseSchema> | null> {
+        return this.run(
+            [new HumanMessage({ content: "Did the build pass?" })],
+            "read-log"
+        );
+    }
+}
+
+/**
+ * A scripted model that records the requests the agent makes and answers summary requests itself, as their number
+ * depends on how the conversation is split.
+ */
+class RecordingScriptedModel extends ScriptedChatModel {
+    static agentRequests: BaseMessage[][] = [];
+    static summaryRequests = 0;
+
+    async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+        const firstContent = String(messages[0]?.content ?? "");
+        if (firstContent.startsWith("You maintain the working memory")) {
+            RecordingScriptedModel.summaryRequests++;
+            return {
+                generations: [
+                    { text: SUMMARY, message: new AIMessage(SUMMARY) },
+                ],
+            };
+        }
+        if (firstContent.startsWith(SYSTEM_PROMPT)) {
+            RecordingScriptedModel.agentRequests.push(messages);
+        }
+
+        return super._generate(messages);
+    }
+}
+
+const responses = [
+    { tool_calls: [{ name: "read_log", args: {} }] },
+    { tool_calls: [{ name: "read_log", args: {} }] },
+    { tool_calls: [{ name: "read_log", args: {} }] },
+    { content: '{ "passed": true }' },
+    { tool_calls: [{ name: "format_response", args: { passed: true } }] },
+];
+
+describe("DevelopmentBaseAgent", () => {
+    beforeEach(() => {
+        RecordingScriptedModel.agentRequests = [];
+        RecordingScriptedModel.summaryRequests = 0;
+
+        // The script is replayed from the start in every test, as its position is kept per responses array
+        const testResponses = [...responses];
+        registerModelProvider(
+            "recording-scripted",
+            () => new RecordingScriptedModel({ responses: testResponses })
+        );
+        configureModels({
+            default: {
+                provider: "recording-scripted",
+                modelName: "fake",
+                contextWindow: 4_000,
+                maxOutputTokens: 1_000,
+            },
+        });
+    });
+
+    it("keeps every request within the context window by truncating and summarising tool output", async () => {
+        const response = await new DevelopmentLogReader().invoke();
+
+        expect(response).toEqual({ passed: true });
+
+        const budget = new ContextBudget("fake", 4_000, 1_000);
+        const requests = RecordingScriptedModel.agentRequests;
+        // Three tool calls, the answer and the request to format it
+        expect(requests).toHaveLength(5);
+        for (const request of requests) {
+            expect(budget.countMessagesTokens(request)).toBeLessThanOrEqual(
+                budget.inputLimit
+            );
+            // The task is never summarised or dropped
+            expect(request[1].content).toBe("Did the build pass?");
+        }
+
+        const lastRequestText = requests[3]
+            .map((message) => String(message.content))
+            .join("\n");
+        expect(lastRequestText).toContain(
+            "[Truncated to fit in the context window"
+        );
+        expect(lastRequestText).toContain(SUMMARY);
+        expect(RecordingScriptedModel.summaryRequests).toBeGreaterThan(0);
+
+        // The format request is sent the compacted history as well
+        const formatRequestText = requests[4]
+            .map((message) => String(message.content))
+            .join("\n");
+        expect(formatRequestText).toContain(SUMMARY);
+        expect(formatRequestText).toContain("Please format the response");
+    });
+
+    it("truncates large tool results instead of splitting them", async () => {
+        configureModels({
+            default: {
+                provider: "recording-scripted",
+                modelName: "fake",
+                contextWindow: 40_000,
+                maxOutputTokens: 1_000,
+            },
+        });
+
+        const response = await new DevelopmentLogReader(600).invoke();
+
+        expect(response).toEqual({ passed: true });
+        expect(RecordingScriptedModel.summaryRequests).toBe(0);
+        for (const request of RecordingScriptedModel.agentRequests) {
+            const toolResults = request.filter((message) =>
+                isToolMessage(message)
+            );
+            const toolCallIds = toolResults.map(
+                (message) => (message as ToolMessage).tool_call_id
+            );
+            expect(new Set(toolCallIds).size).toBe(toolCallIds.length);
+            for (const toolResult of toolResults) {
+                expect(String(toolResult.content)).toContain(
+                    "[Truncated to fit in the context window"
+                );
+            }
+        }
+    });
+});
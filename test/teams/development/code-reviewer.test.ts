@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import simpleGit from "simple-git";
+import { configureModels } from "../../../src/model";
+import { resetFixtureSessions } from "../../../src/scripted-model";
+import { DevelopmentCodeReviewer } from "../../../src/teams/development/code-reviewer";
+import { deleteTempAgentDirectory } from "../../../src/tools/file-system";
+import { captureChanges } from "../../../src/tools/git";
+import { createTestRepository, FIXTURES_PATH } from "../../helpers";
+
+describe("DevelopmentCodeReviewer", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        resetFixtureSessions();
+        configureModels({
+            default: {
+                provider: "fake",
+                fixturePath: path.join(FIXTURES_PATH, "code-reviewer.json"),
+            },
+        });
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const version = 1;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("reviews the changes since the base commit", async () => {
+        const git = simpleGit(repositoryPath);
+        const baseCommit = (await git.revparse(["HEAD"])).trim();
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "greeting.ts"),
+            "export const greet = (name: string): string => `Hello, ${name}!`;\n"
+        );
+
+        const changes = await captureChanges(git, baseCommit);
+        expect(changes.files.map((file) => file.path)).toEqual([
+            "src/greeting.ts",
+        ]);
+
+        const codeReviewer = await new DevelopmentCodeReviewer(
+            repositoryPath
+        ).init();
+        const response = await codeReviewer.invoke({
+            changes: changes,
+            context: "Add a greet function.",
+        });
+
+        expect(response).toEqual({
+            success: true,
+            approved: false,
+            suggestions: ["Trim the name before greeting it."],
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import simpleGit from "simple-git";
+import { configureModels } from "../../../src/model";
+import { resetFixtureSessions } from "../../../src/scripted-model";
+import { DevelopmentCodeWriter } from "../../../src/teams/development/code-writer";
+import { DevelopmentPlan } from "../../../src/teams/development/plan";
+import { deleteTempAgentDirectory } from "../../../src/tools/file-system";
+import { createTestRepository, FIXTURES_PATH } from "../../helpers";
+
+const plan: DevelopmentPlan = {
+    summary: "Add a greet function.",
+    steps: [
+        {
+            title: "Add the greeting module",
+            description: "Create src/greeting.ts exporting a greet function.",
+            files: [
+                {
+                    path: "src/greeting.ts",
+                    action: "create",
+                    description: "The greet function.",
+                },
+            ],
+        },
+    ],
+    acceptanceCriteria: ["greet('Ada') returns 'Hello, Ada!'"],
+    risks: [],
+};
+
+describe("DevelopmentCodeWriter", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        resetFixtureSessions();
+        configureModels({
+            default: {
+                provider: "fake",
+                fixturePath: path.join(FIXTURES_PATH, "code-writer.json"),
+            },
+        });
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const version = 1;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("implements and commits each step of the plan", async () => {
+        const codeWriter = await new DevelopmentCodeWriter(
+            repositoryPath
+        ).init();
+
+        const response = await codeWriter.invoke({ plan: plan });
+
+        expect(response).toEqual({
+            completed: true,
+            progress: [
+                {
+                    step: 1,
+                    title: "Add the greeting module",
+                    completed: true,
+                    summary:
+                        "Added src/greeting.ts with a greet function and committed it.",
+                },
+            ],
+        });
+        expect(
+            fs.readFileSync(
+                path.join(repositoryPath, "src", "greeting.ts"),
+                "utf-8"
+            )
+        ).toContain("Hello, ${name}!");
+
+        const log = await simpleGit(repositoryPath).log();
+        expect(log.latest.message).toBe("feat(greeting): add a greet function");
+        expect((await simpleGit(repositoryPath).status()).isClean()).toBe(true);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    createPlanProgress,
+    DevelopmentPlan,
+    developmentPlanSchema,
+    formatPlan,
+} from "../../../src/teams/development/plan";
+
+const plan: DevelopmentPlan = {
+    summary: "Add a parser for nested lists.",
+    steps: [
+        {
+            title: "Add the parser",
+            description: "Parse nested lists into a tree.",
+            files: [
+                {
+                    path: "src/parser.ts",
+                    action: "create",
+                    description: "Export parseList.",
+                },
+            ],
+        },
+        {
+            title: "Use the parser",
+            description: "Call parseList from the renderer.",
+            files: [
+                {
+                    path: "src/render.ts",
+                    action: "modify",
+                    description: "Render the parsed tree.",
+                },
+            ],
+        },
+    ],
+    acceptanceCriteria: ["Nested lists render as nested HTML lists"],
+    risks: [],
+};
+
+describe("development plans", () => {
+    it("formats the steps, files and acceptance criteria, omitting empty sections", () => {
+        expect(formatPlan(plan)).toBe(
+            [
+                "Add a parser for nested lists.",
+                "",
+                "Steps:",
+                "1. Add the parser",
+                "   Parse nested lists into a tree.",
+                "   - create src/parser.ts: Export parseList.",
+                "2. Use the parser",
+                "   Call parseList from the renderer.",
+                "   - modify src/render.ts: Render the parsed tree.",
+                "",
+                "Acceptance criteria:",
+                "- Nested lists render as nested HTML lists",
+            ].join("\n")
+        );
+    });
+
+    it("tracks the progress of every step", () => {
+        expect(createPlanProgress(plan)).toEqual([
+            { step: 1, title: "Add the parser", completed: false, summary: "" },
+            { step: 2, title: "Use the parser", completed: false, summary: "" },
+        ]);
+    });
+
+    it("rejects plans without steps", () => {
+        expect(
+            developmentPlanSchema.safeParse({ ...plan, steps: [] }).success
+        ).toBe(false);
+    });
+});
@@ -0,0 +1,365 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import simpleGit from "simple-git";
+import { FileCheckpointer } from "../../../src/checkpointer";
+import { configureModels } from "../../../src/model";
+import { resetFixtureSessions } from "../../../src/scripted-model";
+import {
+    DevelopmentTeamManager,
+    DevelopmentTeamManagerInvocationOptions,
+    DevelopmentTeamManagerInvocationTask,
+} from "../../../src/teams/development/team-manager";
+import { deleteTempAgentDirectory } from "../../../src/tools/file-system";
+import { GitHubForge, LocalForge } from "../../../src/tools/forge";
+import { WorkspaceManager } from "../../../src/tools/workspace";
+import {
+    createTestRepository,
+    FIXTURES_PATH,
+    TEST_AUTHOR,
+} from "../../helpers";
+
+/**
+ * Replays a fixture with every agent of the team, which share one session so the responses are given in order.
+ * @param {string} fixture - The name of the fixture file.
+ * @returns {void}
+ */
+const useFixture = (fixture: string): void => {
+    resetFixtureSessions();
+    configureModels({
+        default: {
+            provider: "fake",
+            fixturePath: path.join(FIXTURES_PATH, fixture),
+        },
+    });
+};
+
+const invocation: DevelopmentTeamManagerInvocationOptions = {
+    task: DevelopmentTeamManagerInvocationTask.AddFeature,
+    data: { description: "Add a greet function" },
+    maxReviewRounds: 1,
+    runTests: false,
+};
+
+describe("DevelopmentTeamManager", () => {
+    let repositoryPath: string;
+    let checkpointPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const version = 1;\n",
+        });
+        checkpointPath = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-"));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        deleteTempAgentDirectory(repositoryPath);
+        fs.rmSync(checkpointPath, { recursive: true, force: true });
+    });
+
+    it("plans, writes and reviews a feature", async () => {
+        useFixture("team-manager.json");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            const result = await manager.invoke(invocation);
+
+            expect(result.approved).toBe(true);
+            expect(result.plan.steps.map((step) => step.title)).toEqual([
+                "Add the greeting module",
+            ]);
+            expect(result.planProgress.every((step) => step.completed)).toBe(
+                true
+            );
+            expect(result.reviewRounds).toEqual([
+                { round: 1, approved: true, suggestions: [] },
+            ]);
+            expect(result.changes.files.map((file) => file.path)).toEqual([
+                "src/greeting.ts",
+            ]);
+            expect(result.pushedBranch).toBeNull();
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("runs the tests itself and reviews the tests the tester committed", async () => {
+        useFixture("team-manager-tests.json");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            const result = await manager.invoke({
+                ...invocation,
+                runTests: true,
+                testCommand: "grep -q greet src/greeting.test.ts",
+            });
+
+            expect(result.approved).toBe(true);
+            expect(result.testsPassed).toBe(true);
+            expect(result.reviewRounds[0].testReport).toMatchObject({
+                command: "grep -q greet src/greeting.test.ts",
+                passed: true,
+                exitCode: 0,
+                summary: "Added a test for greet, all tests pass.",
+            });
+            expect(result.changes.files.map((file) => file.path)).toEqual([
+                "src/greeting.test.ts",
+                "src/greeting.ts",
+            ]);
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("fails the tests by the exit status of the test command, whatever the tester reports", async () => {
+        useFixture("team-manager-tests.json");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            const result = await manager.invoke({
+                ...invocation,
+                runTests: true,
+                testCommand: "grep -q Goodbye src/greeting.ts",
+            });
+
+            expect(result.approved).toBe(false);
+            expect(result.testsPassed).toBe(false);
+            expect(result.reviewRounds).toHaveLength(1);
+            expect(result.reviewRounds[0].approved).toBe(false);
+            expect(result.reviewRounds[0].suggestions[0]).toMatch(
+                /^Fix the failing tests, `grep -q Goodbye src\/greeting.ts` exited with code 1/
+            );
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("sends rejected reviews back to the code writer until they are approved", async () => {
+        useFixture("team-manager-review-loop.json");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            const result = await manager.invoke({
+                task: DevelopmentTeamManagerInvocationTask.AddFeature,
+                data: { description: "Add a greet function" },
+                maxReviewRounds: 2,
+                runTests: false,
+            });
+
+            expect(result.approved).toBe(true);
+            expect(result.reviewRounds).toEqual([
+                {
+                    round: 1,
+                    approved: false,
+                    suggestions: ["Trim the name before greeting it."],
+                },
+                { round: 2, approved: true, suggestions: [] },
+            ]);
+            expect(result.changes.diff).toContain("${name.trim()}");
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("sends the code writer back to commit changes it left uncommitted", async () => {
+        useFixture("team-manager-uncommitted.json");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            const result = await manager.invoke({
+                ...invocation,
+                maxReviewRounds: 2,
+            });
+
+            expect(result.approved).toBe(true);
+            expect(result.reviewRounds).toEqual([
+                {
+                    round: 1,
+                    approved: false,
+                    suggestions: [
+                        "Commit or discard your uncommitted changes to src/greeting.ts, only committed changes are reviewed.",
+                    ],
+                },
+                { round: 2, approved: true, suggestions: [] },
+            ]);
+            expect(result.changes.files.map((file) => file.path)).toEqual([
+                "src/greeting.ts",
+            ]);
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("fixes a bug and opens a pull request with the remaining suggestions", async () => {
+        useFixture("team-manager-fix-bug.json");
+        const forgePath = fs.mkdtempSync(path.join(os.tmpdir(), "forge-"));
+        const git = simpleGit(repositoryPath);
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "greeting.ts"),
+            "export const greet = (name: string): string => `Hello, ${name}!`;\n"
+        );
+        await git.add(".");
+        await git.commit("feat(greeting): add a greet function");
+
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            workingBranch: "fix/greeting",
+            author: TEST_AUTHOR,
+            forge: new LocalForge(forgePath),
+        }).init();
+        try {
+            const result = await manager.invoke({
+                task: DevelopmentTeamManagerInvocationTask.FixBug,
+                data: {
+                    location: "src/greeting.ts",
+                    description: "greet keeps whitespace around the name.",
+                    severity: "low",
+                    expectedBehavior: "greet(' Ada ') returns 'Hello, Ada!'",
+                    actualBehavior: "greet(' Ada ') returns 'Hello,  Ada !'",
+                },
+                maxReviewRounds: 1,
+                runTests: false,
+                openPullRequest: true,
+            });
+
+            expect(result.approved).toBe(true);
+            expect(result.plan.steps.map((step) => step.title)).toEqual([
+                "Trim the name",
+            ]);
+            expect(result.pullRequest).toMatchObject({
+                number: 1,
+                title: "fix: greet keeps whitespace around the name",
+                headBranch: "fix/greeting",
+                baseBranch: "main",
+                comments: ["Add a test for names with tabs."],
+            });
+            expect(result.pullRequest.body).toContain("## Plan");
+            expect(result.pushedBranch).toBeNull();
+        } finally {
+            await manager.dispose();
+            fs.rmSync(forgePath, { recursive: true, force: true });
+        }
+    });
+
+    it("refuses to open a pull request that needs a push unless push is enabled", async () => {
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+            forge: new GitHubForge({
+                repository: "acme/widgets",
+                token: "test-token",
+            }),
+        }).init();
+        try {
+            await expect(
+                manager.invoke({
+                    task: DevelopmentTeamManagerInvocationTask.AddFeature,
+                    data: { description: "Add a greet function" },
+                    runTests: false,
+                    openPullRequest: true,
+                })
+            ).rejects.toThrow("push must be enabled");
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("refuses to push from the base branch before the run starts", async () => {
+        const manager = await new DevelopmentTeamManager({
+            url: repositoryPath,
+            author: TEST_AUTHOR,
+        }).init();
+        try {
+            await expect(
+                manager.invoke({
+                    task: DevelopmentTeamManagerInvocationTask.AddFeature,
+                    data: { description: "Add a greet function" },
+                    runTests: false,
+                    push: true,
+                })
+            ).rejects.toThrow("working branch different from the base branch");
+        } finally {
+            await manager.dispose();
+        }
+    });
+
+    it("resumes an interrupted run without repeating completed stages", async () => {
+        const checkpointer = new FileCheckpointer(checkpointPath);
+
+        // The fixture ends before the review, so the run is interrupted there
+        useFixture("team-manager-interrupted.json");
+        const interruptedManager = await new DevelopmentTeamManager(
+            { url: repositoryPath, author: TEST_AUTHOR },
+            false,
+            { checkpointer: checkpointer, threadId: "run" }
+        ).init();
+        await expect(interruptedManager.invoke(invocation)).rejects.toThrow(
+            "Failed to review the code changes"
+        );
+        await interruptedManager.dispose();
+
+        const runState = checkpointer.loadRunState<{
+            tempPath: string;
+            completedEffects: Record<string, unknown>;
+        }>("run");
+        expect(fs.existsSync(runState.tempPath)).toBe(true);
+        expect(Object.keys(runState.completedEffects)).toEqual([
+            "round-1:integrate",
+        ]);
+
+        // Only the review is left, so the resumed run must not ask the model for a plan or code again
+        useFixture("team-manager-resumed.json");
+        const integrateWorkspace = vi.spyOn(
+            WorkspaceManager.prototype,
+            "integrateWorkspace"
+        );
+        const resumedManager = await new DevelopmentTeamManager({}, false, {
+            checkpointer: new FileCheckpointer(checkpointPath),
+            threadId: "run",
+        }).init();
+        try {
+            await expect(resumedManager.invoke(invocation)).rejects.toThrow(
+                "already started a task"
+            );
+
+            const result = await resumedManager.resume();
+
+            expect(result.approved).toBe(true);
+            expect(integrateWorkspace).not.toHaveBeenCalled();
+            expect(result.changes.files.map((file) => file.path)).toEqual([
+                "src/greeting.ts",
+            ]);
+
+            const log = await simpleGit(runState.tempPath).log();
+            expect(
+                log.all.filter(
+                    (commit) =>
+                        commit.message ===
+                        "feat(greeting): add a greet function"
+                )
+            ).toHaveLength(1);
+        } finally {
+            await resumedManager.dispose();
+        }
+
+        expect(fs.existsSync(runState.tempPath)).toBe(false);
+    });
+});
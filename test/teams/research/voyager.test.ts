@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileCheckpointer } from "../../../src/checkpointer";
+import { configureModels } from "../../../src/model";
+import { resetFixtureSessions } from "../../../src/scripted-model";
+import { ResearchVoyager } from "../../../src/teams/research/voyager";
+import { FIXTURES_PATH } from "../../helpers";
+
+// There is no browser in tests, so the voyager is given a page that is always on the same URL
+vi.mock("../../../src/tools/browser", () => ({
+    initializeBrowser: async () => ({
+        browser: { close: async () => {} },
+        page: {
+            url: () => "https://example.com/releases",
+            goto: async () => null,
+            waitForNetworkIdle: async () => {},
+        },
+    }),
+    getMarkedPageB64: async () => ({ bboxes: [], base64Img: "" }),
+    browserTools: () => [],
+}));
+
+describe("ResearchVoyager", () => {
+    let checkpointPath: string;
+
+    beforeEach(() => {
+        resetFixtureSessions();
+        configureModels({
+            default: {
+                provider: "fake",
+                fixturePath: path.join(FIXTURES_PATH, "voyager.json"),
+            },
+        });
+        checkpointPath = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(checkpointPath, { recursive: true, force: true });
+    });
+
+    it("answers a question", async () => {
+        const voyager = await new ResearchVoyager().init();
+        try {
+            await expect(
+                voyager.invoke({ question: "What is the latest release?" })
+            ).resolves.toBe("3.2");
+        } finally {
+            await voyager.dispose();
+        }
+    });
+
+    it("returns the checkpointed answer when a question is asked again", async () => {
+        const checkpoint = {
+            checkpointer: new FileCheckpointer(checkpointPath),
+            threadId: "voyager",
+        };
+
+        const voyager = await new ResearchVoyager(false, checkpoint).init();
+        await voyager.invoke({ question: "What is the latest release?" });
+        await voyager.dispose();
+
+        // The fixture has a single response, so asking the model again would fail
+        const resumedVoyager = await new ResearchVoyager(false, {
+            ...checkpoint,
+            checkpointer: new FileCheckpointer(checkpointPath),
+        }).init();
+        try {
+            await expect(
+                resumedVoyager.invoke({
+                    question: "What is the latest release?",
+                })
+            ).resolves.toBe("3.2");
+            await expect(resumedVoyager.resume()).resolves.toBe("3.2");
+        } finally {
+            await resumedVoyager.dispose();
+        }
+    });
+});
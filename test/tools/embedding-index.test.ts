@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+} from "../../src/tools/file-system";
+import {
+    EmbeddingIndex,
+    getEmbeddingIndex,
+    invalidateIndexedFile,
+    unloadEmbeddingIndex,
+} from "../../src/tools/embedding-index";
+
+const embeddedTexts: string[] = [];
+
+/**
+ * Embeds a text as the number of times it mentions each fruit, so similar texts are easy to predict.
+ * @param {string} text - The text to embed.
+ * @returns {number[]} The embedding of the text.
+ */
+const embedText = (text: string): number[] => [
+    text.split("apple").length - 1,
+    text.split("banana").length - 1,
+    0.1,
+];
+
+vi.mock("../../src/model", () => ({
+    getEmbeddingModelId: () => "fake:fruit",
+    createEmbeddingModelInstance: () => ({
+        embedDocuments: async (texts: string[]) => {
+            embeddedTexts.push(...texts);
+            return texts.map(embedText);
+        },
+        embedQuery: async (text: string) => embedText(text),
+    }),
+}));
+
+describe("EmbeddingIndex", () => {
+    let tempPath: string;
+    let indexPath: string;
+
+    const writeFile = (name: string, content: string) =>
+        fs.writeFileSync(path.join(tempPath, name), content);
+    const allFiles = () =>
+        fs
+            .readdirSync(tempPath)
+            .map((name) => path.join(fs.realpathSync(tempPath), name));
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        indexPath = path.join(`${tempPath}-cache`, "embeddings.json");
+        embeddedTexts.length = 0;
+        writeFile("apple.txt", "apple apple pie");
+        writeFile("banana.txt", "banana bread");
+    });
+
+    afterEach(() => {
+        unloadEmbeddingIndex(tempPath);
+        deleteTempAgentDirectory(tempPath);
+        fs.rmSync(path.dirname(indexPath), { recursive: true, force: true });
+    });
+
+    it("finds the chunks most similar to a query", async () => {
+        const index = getEmbeddingIndex(tempPath, indexPath);
+        await index.update(fs.realpathSync(tempPath), allFiles());
+
+        const [best] = await index.search("banana", 1);
+
+        expect(best.filePath).toBe("banana.txt");
+        expect(best.content).toBe("banana bread");
+    });
+
+    it("only embeds files whose content changed and removes deleted files", async () => {
+        const index = getEmbeddingIndex(tempPath, indexPath);
+        const rootPath = fs.realpathSync(tempPath);
+
+        expect(await index.update(rootPath, allFiles())).toEqual({
+            embedded: 2,
+            unchanged: 0,
+            removed: 0,
+        });
+
+        writeFile("apple.txt", "apple crumble");
+        invalidateIndexedFile(tempPath, path.join(rootPath, "apple.txt"));
+        fs.rmSync(path.join(tempPath, "banana.txt"));
+
+        expect(await index.update(rootPath, allFiles())).toEqual({
+            embedded: 1,
+            unchanged: 0,
+            removed: 1,
+        });
+        expect(embeddedTexts).toEqual([
+            "apple apple pie",
+            "banana bread",
+            "apple crumble",
+        ]);
+    });
+
+    it("reuses the embeddings stored on disk", async () => {
+        const rootPath = fs.realpathSync(tempPath);
+        await getEmbeddingIndex(tempPath, indexPath).update(
+            rootPath,
+            allFiles()
+        );
+
+        const reloaded = new EmbeddingIndex(rootPath, indexPath);
+        const stats = await reloaded.update(rootPath, allFiles());
+
+        expect(stats).toEqual({ embedded: 0, unchanged: 2, removed: 0 });
+        expect(embeddedTexts).toHaveLength(2);
+    });
+
+    it("skips symlinked files, which could point outside the agent directory", async () => {
+        const outsidePath = fs.mkdtempSync(path.join(os.tmpdir(), "outside-"));
+        try {
+            fs.writeFileSync(
+                path.join(outsidePath, "secret.txt"),
+                "apple secret"
+            );
+            fs.symlinkSync(
+                path.join(outsidePath, "secret.txt"),
+                path.join(tempPath, "link.txt")
+            );
+            const index = getEmbeddingIndex(tempPath, indexPath);
+
+            expect(
+                await index.update(fs.realpathSync(tempPath), allFiles())
+            ).toEqual({ embedded: 2, unchanged: 0, removed: 0 });
+            expect(embeddedTexts).not.toContain("apple secret");
+        } finally {
+            fs.rmSync(outsidePath, { recursive: true, force: true });
+        }
+    });
+});
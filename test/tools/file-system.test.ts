@@ -0,0 +1,580 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    ApplyPatch,
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+    EditFile,
+    GrepFiles,
+    parseUnifiedDiff,
+    ReadFile,
+    RemoveDirectory,
+    ReplaceLines,
+    resolveAgentPath,
+    WriteFile,
+} from "../../src/tools/file-system";
+
+describe("parseUnifiedDiff", () => {
+    it("parses the files, hunks and start lines of a diff", () => {
+        const patches = parseUnifiedDiff(
+            [
+                "--- a/src/index.ts",
+                "+++ b/src/index.ts",
+                "@@ -2,3 +2,3 @@ export function main() {",
+                " const a = 1;",
+                "-const b = 2;",
+                "+const b = 3;",
+                " const c = 4;",
+                "--- /dev/null",
+                "+++ b/src/new.ts",
+                "@@ -0,0 +1 @@",
+                "+export const added = true;",
+                "\\ No newline at end of file",
+            ].join("\n")
+        );
+
+        expect(patches).toEqual([
+            {
+                oldPath: "src/index.ts",
+                newPath: "src/index.ts",
+                hunks: [
+                    {
+                        oldStart: 2,
+                        oldLines: [
+                            "const a = 1;",
+                            "const b = 2;",
+                            "const c = 4;",
+                        ],
+                        newLines: [
+                            "const a = 1;",
+                            "const b = 3;",
+                            "const c = 4;",
+                        ],
+                    },
+                ],
+                noNewlineAtEnd: false,
+            },
+            {
+                oldPath: null,
+                newPath: "src/new.ts",
+                hunks: [
+                    {
+                        oldStart: 0,
+                        oldLines: [],
+                        newLines: ["export const added = true;"],
+                    },
+                ],
+                noNewlineAtEnd: true,
+            },
+        ]);
+    });
+
+    it("treats removed lines starting with '-- ' as hunk lines", () => {
+        const [patch] = parseUnifiedDiff(
+            [
+                "--- a/query.sql",
+                "+++ b/query.sql",
+                "@@ -1,2 +1,1 @@",
+                "--- a comment",
+                " SELECT 1;",
+            ].join("\n")
+        );
+
+        expect(patch.hunks[0].oldLines).toEqual(["-- a comment", "SELECT 1;"]);
+        expect(patch.hunks[0].newLines).toEqual(["SELECT 1;"]);
+    });
+
+    it("only marks the new file when the newline marker follows a new line", () => {
+        const [patch] = parseUnifiedDiff(
+            [
+                "--- a/file.txt",
+                "+++ b/file.txt",
+                "@@ -1 +1 @@",
+                "-old",
+                "\\ No newline at end of file",
+                "+new",
+            ].join("\n")
+        );
+
+        expect(patch.noNewlineAtEnd).toBe(false);
+    });
+});
+
+describe("resolveAgentPath", () => {
+    let tempPath: string;
+    let outsidePath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        outsidePath = fs.mkdtempSync(path.join(os.tmpdir(), "outside-"));
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+        fs.rmSync(outsidePath, { recursive: true, force: true });
+    });
+
+    it("resolves paths inside the agent directory, including ones that do not exist yet", () => {
+        fs.mkdirSync(path.join(tempPath, "src"));
+
+        expect(resolveAgentPath(tempPath, "src/new/file.ts")).toBe(
+            path.join(fs.realpathSync(tempPath), "src", "new", "file.ts")
+        );
+    });
+
+    it("rejects paths that escape the agent directory", () => {
+        expect(() => resolveAgentPath(tempPath, "../secret.txt")).toThrow(
+            /Access denied/
+        );
+        expect(() =>
+            resolveAgentPath(tempPath, "src/../../secret.txt")
+        ).toThrow(/Access denied/);
+    });
+
+    it("rejects symlinks that point outside the agent directory", () => {
+        fs.symlinkSync(outsidePath, path.join(tempPath, "link"));
+        fs.symlinkSync(
+            path.join(outsidePath, "missing"),
+            path.join(tempPath, "dangling")
+        );
+
+        expect(() => resolveAgentPath(tempPath, "link/file.txt")).toThrow(
+            /Access denied/
+        );
+        expect(() => resolveAgentPath(tempPath, "dangling")).toThrow(
+            /Access denied/
+        );
+    });
+});
+
+describe("file tools", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("reads and writes files inside the agent directory", async () => {
+        await WriteFile(tempPath, "agent").invoke({
+            filePath: "notes.txt",
+            content: "hello",
+        });
+
+        expect(
+            await ReadFile(tempPath, "agent").invoke({ filePath: "notes.txt" })
+        ).toBe(["File: notes.txt (lines 1-1 of 1)", "1: hello"].join("\n"));
+    });
+
+    it("returns an error instead of touching paths outside the agent directory", async () => {
+        const outsideFile = path.join(
+            path.dirname(tempPath),
+            `${path.basename(tempPath)}-outside.txt`
+        );
+
+        const result = await WriteFile(tempPath, "agent").invoke({
+            filePath: path.relative(tempPath, outsideFile),
+            content: "escaped",
+        });
+
+        expect(result).toMatch(/Access denied/);
+        expect(fs.existsSync(outsideFile)).toBe(false);
+    });
+});
+
+describe("RemoveDirectory", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.mkdirSync(path.join(tempPath, ".git", "refs"), { recursive: true });
+        fs.mkdirSync(path.join(tempPath, "build", "cache"), {
+            recursive: true,
+        });
+        fs.writeFileSync(path.join(tempPath, "build", "cache", "a.txt"), "a");
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("removes a directory and its contents", async () => {
+        const result = await RemoveDirectory(tempPath, "test").invoke({
+            dirPath: "build",
+        });
+
+        expect(result).toBe("Successfully removed directory build");
+        expect(fs.existsSync(path.join(tempPath, "build"))).toBe(false);
+    });
+
+    it("refuses to remove the agent directory or its git metadata", async () => {
+        const tool = RemoveDirectory(tempPath, "test");
+
+        expect(await tool.invoke({ dirPath: "." })).toMatch(
+            /root of the agent directory cannot be removed/
+        );
+        expect(await tool.invoke({ dirPath: "build/.." })).toMatch(
+            /root of the agent directory cannot be removed/
+        );
+        expect(await tool.invoke({ dirPath: ".git/refs" })).toMatch(
+            /is git metadata and cannot be removed/
+        );
+        expect(fs.existsSync(path.join(tempPath, ".git", "refs"))).toBe(true);
+    });
+
+    it("does not remove files", async () => {
+        expect(
+            await RemoveDirectory(tempPath, "test").invoke({
+                dirPath: "build/cache/a.txt",
+            })
+        ).toMatch(/is not a directory/);
+    });
+});
+
+describe("ReadFile", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.writeFileSync(
+            path.join(tempPath, "long.txt"),
+            Array.from({ length: 600 }, (_, index) => `line ${index + 1}`).join(
+                "\n"
+            )
+        );
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("reads the first page with line numbers and says how to read more", async () => {
+        const result = await ReadFile(tempPath, "test").invoke({
+            filePath: "long.txt",
+        });
+        const lines = result.split("\n");
+
+        expect(lines[0]).toBe("File: long.txt (lines 1-250 of 600)");
+        expect(lines[1]).toBe("1: line 1");
+        expect(lines[250]).toBe("250: line 250");
+        expect(result).toContain(
+            "[Truncated: showing lines 1-250 of 600 (3 pages of 250 lines)."
+        );
+    });
+
+    it("reads a line range or a page", async () => {
+        const tool = ReadFile(tempPath, "test");
+
+        const range = await tool.invoke({
+            filePath: "long.txt",
+            startLine: 10,
+            endLine: 12,
+        });
+        expect(range.split("\n").slice(0, 4)).toEqual([
+            "File: long.txt (lines 10-12 of 600)",
+            "10: line 10",
+            "11: line 11",
+            "12: line 12",
+        ]);
+
+        const page = await tool.invoke({ filePath: "long.txt", page: 3 });
+        expect(page.split("\n")[0]).toBe(
+            "File: long.txt (lines 501-600 of 600)"
+        );
+    });
+
+    it("rejects ranges past the end of the file and does not print binary files", async () => {
+        fs.writeFileSync(
+            path.join(tempPath, "image.png"),
+            Buffer.from([0x89, 0x50, 0x00, 0x01])
+        );
+        const tool = ReadFile(tempPath, "test");
+
+        expect(
+            await tool.invoke({ filePath: "long.txt", startLine: 700 })
+        ).toMatch(/Line 700 is past the end of long.txt, which has 600 lines/);
+        expect(await tool.invoke({ filePath: "image.png" })).toMatch(
+            /is a binary file \(4 bytes\)/
+        );
+    });
+});
+
+describe("EditFile", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.writeFileSync(
+            path.join(tempPath, "index.ts"),
+            ["const a = 1;", "const b = 2;", "const a2 = 1;"].join("\n")
+        );
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("replaces a unique snippet and shows the resulting lines", async () => {
+        const result = await EditFile(tempPath, "test").invoke({
+            filePath: "index.ts",
+            oldText: "const b = 2;",
+            newText: "const b = 3;",
+        });
+
+        expect(result).toMatch(/^Successfully edited index.ts/);
+        expect(result).toContain("const b = 3;");
+        expect(fs.readFileSync(path.join(tempPath, "index.ts"), "utf-8")).toBe(
+            ["const a = 1;", "const b = 3;", "const a2 = 1;"].join("\n")
+        );
+    });
+
+    it("rejects snippets that are missing or occur more than once", async () => {
+        const tool = EditFile(tempPath, "test");
+
+        expect(
+            await tool.invoke({
+                filePath: "index.ts",
+                oldText: "const c = 3;",
+                newText: "",
+            })
+        ).toMatch(/occurs 0 times/);
+        expect(
+            await tool.invoke({
+                filePath: "index.ts",
+                oldText: " = 1;",
+                newText: " = 5;",
+            })
+        ).toMatch(/occurs 2 times/);
+    });
+});
+
+describe("ReplaceLines", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.writeFileSync(
+            path.join(tempPath, "file.txt"),
+            ["one", "two", "three", "four"].join("\n")
+        );
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("replaces a range of lines when the expected text matches", async () => {
+        const result = await ReplaceLines(tempPath, "test").invoke({
+            filePath: "file.txt",
+            startLine: 2,
+            endLine: 3,
+            expectedText: "two\nthree",
+            content: "2\n3",
+        });
+
+        expect(result).toMatch(/^Successfully replaced lines 2-3/);
+        expect(fs.readFileSync(path.join(tempPath, "file.txt"), "utf-8")).toBe(
+            ["one", "2", "3", "four"].join("\n")
+        );
+    });
+
+    it("rejects stale line numbers and ranges past the end of the file", async () => {
+        const tool = ReplaceLines(tempPath, "test");
+
+        expect(
+            await tool.invoke({
+                filePath: "file.txt",
+                startLine: 1,
+                endLine: 1,
+                expectedText: "two",
+                content: "2",
+            })
+        ).toMatch(/do not match the expected text/);
+        expect(
+            await tool.invoke({
+                filePath: "file.txt",
+                startLine: 4,
+                endLine: 6,
+                expectedText: "four",
+                content: "",
+            })
+        ).toMatch(/out of range/);
+    });
+});
+
+describe("ApplyPatch", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("applies hunks to existing files and creates new ones", async () => {
+        fs.writeFileSync(
+            path.join(tempPath, "file.txt"),
+            ["a", "b", "c"].join("\n") + "\n"
+        );
+
+        const result = await ApplyPatch(tempPath, "test").invoke({
+            patch: [
+                "--- a/file.txt",
+                "+++ b/file.txt",
+                "@@ -1,3 +1,3 @@",
+                " a",
+                "-b",
+                "+B",
+                " c",
+                "--- /dev/null",
+                "+++ b/new.txt",
+                "@@ -0,0 +1 @@",
+                "+created",
+            ].join("\n"),
+        });
+
+        expect(result).toMatch(/^Successfully applied patch/);
+        expect(fs.readFileSync(path.join(tempPath, "file.txt"), "utf-8")).toBe(
+            ["a", "B", "c"].join("\n") + "\n"
+        );
+        expect(fs.existsSync(path.join(tempPath, "new.txt"))).toBe(true);
+    });
+
+    it("applies a hunk at the line in its header when the context repeats", async () => {
+        fs.writeFileSync(
+            path.join(tempPath, "file.txt"),
+            ["x", "y", "x", "y"].join("\n") + "\n"
+        );
+
+        const result = await ApplyPatch(tempPath, "test").invoke({
+            patch: [
+                "--- a/file.txt",
+                "+++ b/file.txt",
+                "@@ -3,2 +3,2 @@",
+                " x",
+                "-y",
+                "+z",
+            ].join("\n"),
+        });
+
+        expect(result).not.toMatch(/^Error/);
+        expect(fs.readFileSync(path.join(tempPath, "file.txt"), "utf-8")).toBe(
+            ["x", "y", "x", "z"].join("\n") + "\n"
+        );
+    });
+
+    it("rejects an ambiguous hunk without line numbers and leaves the file untouched", async () => {
+        const content = ["x", "y", "x", "y"].join("\n") + "\n";
+        fs.writeFileSync(path.join(tempPath, "file.txt"), content);
+
+        const result = await ApplyPatch(tempPath, "test").invoke({
+            patch: [
+                "--- a/file.txt",
+                "+++ b/file.txt",
+                "@@",
+                " x",
+                "-y",
+                "+z",
+            ].join("\n"),
+        });
+
+        expect(result).toMatch(/matches 2 locations/);
+        expect(fs.readFileSync(path.join(tempPath, "file.txt"), "utf-8")).toBe(
+            content
+        );
+    });
+    it("ends new files with a newline unless the patch says otherwise", async () => {
+        await ApplyPatch(tempPath, "test").invoke({
+            patch: [
+                "--- /dev/null",
+                "+++ b/with-newline.txt",
+                "@@ -0,0 +1 @@",
+                "+line",
+                "--- /dev/null",
+                "+++ b/without-newline.txt",
+                "@@ -0,0 +1 @@",
+                "+line",
+                "\\ No newline at end of file",
+            ].join("\n"),
+        });
+
+        expect(
+            fs.readFileSync(path.join(tempPath, "with-newline.txt"), "utf-8")
+        ).toBe("line\n");
+        expect(
+            fs.readFileSync(path.join(tempPath, "without-newline.txt"), "utf-8")
+        ).toBe("line");
+    });
+});
+
+describe("GrepFiles", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.mkdirSync(path.join(tempPath, "src"));
+        fs.writeFileSync(
+            path.join(tempPath, "src", "index.ts"),
+            "const needle = 1;\nconst Needle2 = needle + 1;\n"
+        );
+        fs.writeFileSync(
+            path.join(tempPath, "src", "index.test.ts"),
+            "expect(needle).toBe(1);\n"
+        );
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("finds matches in the agent directory", async () => {
+        const result = await GrepFiles(tempPath, "test").invoke({
+            query: "needle",
+        });
+
+        expect(result).toContain("src/index.ts");
+        expect(result).toContain("const needle = 1;");
+        expect(result).toContain("src/index.test.ts");
+    });
+
+    it("supports regular expressions and excluded files", async () => {
+        const result = await GrepFiles(tempPath, "test").invoke({
+            query: "Needle\\d",
+            regex: true,
+            exclude: ["**/*.test.ts"],
+        });
+
+        expect(result).toContain("const Needle2 = needle + 1;");
+        expect(result).not.toContain("src/index.test.ts");
+    });
+
+    it("skips symlinks to files outside the agent directory", async () => {
+        const outsidePath = fs.mkdtempSync(path.join(os.tmpdir(), "outside-"));
+        try {
+            fs.writeFileSync(
+                path.join(outsidePath, "secret.txt"),
+                "needle outside\n"
+            );
+            fs.symlinkSync(
+                path.join(outsidePath, "secret.txt"),
+                path.join(tempPath, "secret.txt")
+            );
+
+            const result = await GrepFiles(tempPath, "test").invoke({
+                query: "needle",
+            });
+
+            expect(result).not.toContain("needle outside");
+        } finally {
+            fs.rmSync(outsidePath, { recursive: true, force: true });
+        }
+    });
+});
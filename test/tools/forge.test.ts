@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import axios from "axios";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    GitHubForge,
+    LocalForge,
+    parseGitHubRepository,
+} from "../../src/tools/forge";
+
+describe("parseGitHubRepository", () => {
+    it("accepts URLs, SSH remotes and the owner/name shorthand", () => {
+        const expected = { owner: "octo-org", name: "my.repo" };
+
+        expect(
+            parseGitHubRepository("https://github.com/octo-org/my.repo.git")
+        ).toEqual(expected);
+        expect(
+            parseGitHubRepository("git@github.com:octo-org/my.repo")
+        ).toEqual(expected);
+        expect(parseGitHubRepository("octo-org/my.repo")).toEqual(expected);
+    });
+
+    it("rejects repositories on other hosts", () => {
+        expect(() =>
+            parseGitHubRepository("https://gitlab.com/octo-org/repo")
+        ).toThrow(/Not a GitHub repository/);
+    });
+});
+
+describe("LocalForge", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "forge-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("stores numbered pull requests as JSON files", async () => {
+        const forge = new LocalForge(path.join(directory, "pulls"));
+
+        const first = await forge.createPullRequest({
+            title: "feat: add parser",
+            body: "Adds a parser.",
+            headBranch: "agents/writer",
+            baseBranch: "main",
+            comments: ["Approved"],
+        });
+        const second = await forge.createPullRequest({
+            title: "fix: handle empty input",
+            body: "",
+            headBranch: "agents/fixer",
+            baseBranch: "main",
+        });
+
+        expect(first.number).toBe(1);
+        expect(second.number).toBe(2);
+        expect(first.url).toBe(
+            `file://${path.join(directory, "pulls", "1.json")}`
+        );
+        expect(await forge.listPullRequests()).toEqual([first, second]);
+    });
+
+    it("gives concurrently opened pull requests distinct numbers", async () => {
+        const forge = new LocalForge(directory);
+
+        const pullRequests = await Promise.all(
+            ["a", "b", "c", "d"].map((branch) =>
+                forge.createPullRequest({
+                    title: `feat: ${branch}`,
+                    body: "",
+                    headBranch: `agents/${branch}`,
+                    baseBranch: "main",
+                })
+            )
+        );
+
+        expect(
+            pullRequests.map((pullRequest) => pullRequest.number).sort()
+        ).toEqual([1, 2, 3, 4]);
+        expect(await forge.listPullRequests()).toHaveLength(4);
+    });
+});
+
+describe("GitHubForge", () => {
+    const post = vi.fn();
+
+    beforeEach(() => {
+        post.mockReset();
+        vi.spyOn(axios, "create").mockReturnValue({
+            post: post,
+        } as unknown as ReturnType<typeof axios.create>);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("opens a pull request and comments on it", async () => {
+        post.mockResolvedValueOnce({
+            data: {
+                number: 7,
+                html_url: "https://github.com/octo-org/repo/pull/7",
+            },
+        }).mockResolvedValue({ data: {} });
+        const forge = new GitHubForge({
+            repository: "octo-org/repo",
+            token: "token",
+        });
+
+        const pullRequest = await forge.createPullRequest({
+            title: "feat: add parser",
+            body: "Adds a parser.",
+            headBranch: "agents/writer",
+            baseBranch: "main",
+            comments: ["Approved"],
+        });
+
+        expect(pullRequest.url).toBe("https://github.com/octo-org/repo/pull/7");
+        expect(post).toHaveBeenNthCalledWith(1, "/repos/octo-org/repo/pulls", {
+            title: "feat: add parser",
+            body: "Adds a parser.",
+            head: "agents/writer",
+            base: "main",
+        });
+        expect(post).toHaveBeenNthCalledWith(
+            2,
+            "/repos/octo-org/repo/issues/7/comments",
+            { body: "Approved" }
+        );
+    });
+
+    it("requires a token", () => {
+        const token = process.env.GITHUB_TOKEN;
+        delete process.env.GITHUB_TOKEN;
+        try {
+            expect(
+                () => new GitHubForge({ repository: "octo-org/repo" })
+            ).toThrow(/A GitHub token is required/);
+        } finally {
+            if (token !== undefined) {
+                process.env.GITHUB_TOKEN = token;
+            }
+        }
+    });
+});
@@ -0,0 +1,518 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import simpleGit from "simple-git";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+    WriteFile,
+} from "../../src/tools/file-system";
+import {
+    captureChanges,
+    cloneRepository,
+    CommitChanges,
+    commitChanges,
+    GitBlame,
+    GitBranch,
+    GitDiff,
+    GitLog,
+    GitStash,
+    GitStatus,
+    parseGitDiff,
+    validateConventionalCommitMessage,
+} from "../../src/tools/git";
+import { createTestRepository } from "../helpers";
+
+describe("cloneRepository", () => {
+    let sourcePath: string;
+    let clonePath: string;
+
+    beforeEach(async () => {
+        sourcePath = await createTestRepository({
+            "src/index.ts": "export const main = 1;\n",
+            "docs/guide.md": "# Guide\n",
+        });
+        const git = simpleGit(sourcePath);
+        await git.checkoutLocalBranch("develop");
+        fs.writeFileSync(path.join(sourcePath, "develop.txt"), "develop\n");
+        await git.add(".");
+        await git.commit("chore: add develop file");
+        await git.checkout("main");
+
+        clonePath = createTempAgentDirectory();
+        fs.rmSync(clonePath, { recursive: true });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(sourcePath);
+        deleteTempAgentDirectory(clonePath);
+    });
+
+    it("clones the base branch and creates the working branch", async () => {
+        const git = await cloneRepository(simpleGit(), sourcePath, clonePath, {
+            baseBranch: "develop",
+            workingBranch: "agent-work",
+        });
+
+        expect((await git.revparse(["--abbrev-ref", "HEAD"])).trim()).toBe(
+            "agent-work"
+        );
+        expect(fs.existsSync(path.join(clonePath, "develop.txt"))).toBe(true);
+    });
+
+    it("clones bare repositories", async () => {
+        const barePath = `${sourcePath}-bare.git`;
+        await simpleGit().clone(sourcePath, barePath, ["--bare"]);
+
+        try {
+            await cloneRepository(simpleGit(), barePath, clonePath, {
+                baseBranch: "main",
+            });
+
+            expect(
+                fs.readFileSync(
+                    path.join(clonePath, "src", "index.ts"),
+                    "utf-8"
+                )
+            ).toBe("export const main = 1;\n");
+        } finally {
+            fs.rmSync(barePath, { recursive: true, force: true });
+        }
+    });
+
+    it("only checks out the sparse checkout paths", async () => {
+        await cloneRepository(simpleGit(), sourcePath, clonePath, {
+            sparseCheckoutPaths: ["src"],
+        });
+
+        expect(fs.existsSync(path.join(clonePath, "src", "index.ts"))).toBe(
+            true
+        );
+        expect(fs.existsSync(path.join(clonePath, "docs"))).toBe(false);
+    });
+});
+
+describe("git tools", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const a = 1;\nexport const b = 2;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("shows the status of the working tree", async () => {
+        fs.writeFileSync(path.join(repositoryPath, "new.txt"), "new\n");
+
+        const status = JSON.parse(
+            await GitStatus(simpleGit(repositoryPath), "test").invoke({})
+        );
+
+        expect(status).toMatchObject({
+            branch: "main",
+            clean: false,
+            files: [{ path: "new.txt", staged: "?", unstaged: "?" }],
+        });
+    });
+
+    it("shows the unstaged changes with per-file stats", async () => {
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "index.ts"),
+            "export const a = 1;\nexport const b = 3;\n"
+        );
+
+        const diff = JSON.parse(
+            await GitDiff(simpleGit(repositoryPath), "test").invoke({})
+        );
+
+        expect(diff.files).toEqual([
+            {
+                file: "src/index.ts",
+                insertions: 1,
+                deletions: 1,
+                binary: false,
+            },
+        ]);
+        expect(diff.diff).toContain("+export const b = 3;");
+    });
+
+    it("shows the history and who last changed each line", async () => {
+        const git = simpleGit(repositoryPath);
+
+        const log = JSON.parse(await GitLog(git, "test").invoke({}));
+        const blame = JSON.parse(
+            await GitBlame(git, "test").invoke({
+                filePath: "src/index.ts",
+                startLine: 2,
+                endLine: 2,
+            })
+        );
+
+        expect(log).toMatchObject([
+            { author: "Test Author", message: "chore: initial commit" },
+        ]);
+        expect(blame).toMatchObject([
+            {
+                line: 2,
+                hash: log[0].hash,
+                author: "Test Author",
+                summary: "chore: initial commit",
+                content: "export const b = 2;",
+            },
+        ]);
+    });
+
+    it("rejects refs that would be parsed as options", async () => {
+        const result = await GitLog(simpleGit(repositoryPath), "test").invoke({
+            ref: "--output=/tmp/log.txt",
+        });
+
+        expect(result).toMatch(/^Error getting log/);
+    });
+
+    it("creates and switches between existing branches", async () => {
+        const git = simpleGit(repositoryPath);
+        const tool = GitBranch(git, "test");
+
+        await tool.invoke({ action: "create", name: "feature" });
+        expect(await tool.invoke({ action: "switch", name: "feature" })).toBe(
+            "Successfully switched to branch feature"
+        );
+        expect(JSON.parse(await tool.invoke({ action: "list" }))).toEqual({
+            current: "feature",
+            branches: ["feature", "main"],
+        });
+    });
+
+    it("only switches to local branches", async () => {
+        const git = simpleGit(repositoryPath);
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "index.ts"),
+            "export const a = 5;\n"
+        );
+
+        // A path is not a branch, so it must not be checked out over the changes
+        const result = await GitBranch(git, "test").invoke({
+            action: "switch",
+            name: "src/index.ts",
+        });
+
+        expect(result).toMatch(/Branch src\/index.ts does not exist/);
+        expect(
+            fs.readFileSync(
+                path.join(repositoryPath, "src", "index.ts"),
+                "utf-8"
+            )
+        ).toBe("export const a = 5;\n");
+    });
+
+    it("stashes and restores uncommitted changes", async () => {
+        const git = simpleGit(repositoryPath);
+        const tool = GitStash(git, "test");
+        fs.writeFileSync(path.join(repositoryPath, "draft.txt"), "draft\n");
+
+        await tool.invoke({ action: "push", message: "draft" });
+        expect(fs.existsSync(path.join(repositoryPath, "draft.txt"))).toBe(
+            false
+        );
+        expect(JSON.parse(await tool.invoke({ action: "list" }))).toHaveLength(
+            1
+        );
+
+        await tool.invoke({ action: "pop" });
+        expect(fs.existsSync(path.join(repositoryPath, "draft.txt"))).toBe(
+            true
+        );
+    });
+});
+
+describe("validateConventionalCommitMessage", () => {
+    it("accepts Conventional Commits headers with an optional scope, breaking marker and body", () => {
+        expect(
+            validateConventionalCommitMessage("fix: handle empty input")
+        ).toBeNull();
+        expect(
+            validateConventionalCommitMessage(
+                "feat(parser)!: support nested lists\n\nLists can now contain lists."
+            )
+        ).toBeNull();
+    });
+
+    it("rejects headers without a type or description", () => {
+        expect(validateConventionalCommitMessage("Add a parser")).toMatch(
+            /must have the form/
+        );
+        expect(validateConventionalCommitMessage("feat:")).toMatch(
+            /must have the form/
+        );
+    });
+
+    it("rejects unknown types", () => {
+        expect(
+            validateConventionalCommitMessage("feature: add a parser")
+        ).toMatch(/'feature' is not a Conventional Commits type/);
+    });
+
+    it("rejects long headers and bodies without a blank line", () => {
+        expect(
+            validateConventionalCommitMessage(`fix: ${"a".repeat(100)}`)
+        ).toMatch(/at most 100 characters/);
+        expect(
+            validateConventionalCommitMessage("fix: handle empty input\nBody")
+        ).toMatch(/blank line/);
+    });
+});
+
+describe("commitChanges", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const a = 1;\n",
+            "src/other.ts": "export const b = 2;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    const writeFile = (filePath: string, content: string) =>
+        fs.writeFileSync(path.join(repositoryPath, filePath), content);
+
+    it("commits only the given files and leaves other changes in the working tree", async () => {
+        const git = simpleGit(repositoryPath);
+        writeFile("src/index.ts", "export const a = 3;\n");
+        writeFile("src/other.ts", "export const b = 4;\n");
+        writeFile("scratch.txt", "notes\n");
+
+        const result = await commitChanges(git, "fix: change a", {
+            files: ["src/index.ts"],
+            author: { name: "Agent", email: "agent@example.com" },
+        });
+
+        expect(result.files).toEqual(["src/index.ts"]);
+        const [commit] = (await git.log(["--max-count=1"])).all;
+        expect(commit).toMatchObject({
+            hash: result.commit,
+            message: "fix: change a",
+            author_name: "Agent",
+        });
+        expect(
+            (await git.status()).files.map((file) => file.path).sort()
+        ).toEqual(["scratch.txt", "src/other.ts"]);
+    });
+
+    it("commits deleted files and the changed files in a directory", async () => {
+        const git = simpleGit(repositoryPath);
+        fs.rmSync(path.join(repositoryPath, "src", "other.ts"));
+        writeFile("src/new.ts", "export const c = 5;\n");
+
+        const result = await commitChanges(git, "refactor: replace other", {
+            files: ["src"],
+        });
+
+        expect(result.files.sort()).toEqual(["src/new.ts", "src/other.ts"]);
+        expect((await git.status()).isClean()).toBe(true);
+    });
+
+    it("rejects invalid messages and files without changes", async () => {
+        const git = simpleGit(repositoryPath);
+        writeFile("src/index.ts", "export const a = 3;\n");
+
+        await expect(
+            commitChanges(git, "change a", { files: ["src/index.ts"] })
+        ).rejects.toThrow(/Invalid commit message/);
+        await expect(
+            commitChanges(git, "fix: change b", { files: ["src/other.ts"] })
+        ).rejects.toThrow(/None of the files have changes to commit/);
+    });
+});
+
+describe("CommitChanges", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const a = 1;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("commits the files the agent has written since its last commit", async () => {
+        const git = simpleGit(repositoryPath);
+        fs.writeFileSync(path.join(repositoryPath, "unrelated.txt"), "x\n");
+        await WriteFile(repositoryPath, "writer").invoke({
+            filePath: "src/index.ts",
+            content: "export const a = 2;",
+        });
+
+        const result = await CommitChanges(git, "writer").invoke({
+            message: "fix: update a",
+        });
+
+        expect(result).toMatch(/^Successfully committed 1 files/);
+        expect((await git.status()).files.map((file) => file.path)).toEqual([
+            "unrelated.txt",
+        ]);
+        expect(
+            await CommitChanges(git, "writer").invoke({
+                message: "fix: update a again",
+            })
+        ).toMatch(/You have not written any files/);
+    });
+});
+
+describe("parseGitDiff", () => {
+    it("parses the status, stats and hunks of each file", () => {
+        const files = parseGitDiff(
+            [
+                "diff --git a/src/index.ts b/src/index.ts",
+                "index 1111111..2222222 100644",
+                "--- a/src/index.ts",
+                "+++ b/src/index.ts",
+                "@@ -1,2 +1,3 @@",
+                " const a = 1;",
+                "-const b = 2;",
+                "+const b = 3;",
+                "+const c = 4;",
+                "diff --git a/src/new.ts b/src/new.ts",
+                "new file mode 100644",
+                "index 0000000..3333333",
+                "--- /dev/null",
+                "+++ b/src/new.ts",
+                "@@ -0,0 +1 @@",
+                "+export const added = true;",
+                "diff --git a/old.ts b/renamed.ts",
+                "similarity index 100%",
+                "rename from old.ts",
+                "rename to renamed.ts",
+                "diff --git a/logo.png b/logo.png",
+                "deleted file mode 100644",
+                "Binary files a/logo.png and /dev/null differ",
+            ].join("\n")
+        );
+
+        expect(files).toEqual([
+            {
+                path: "src/index.ts",
+                oldPath: null,
+                status: "modified",
+                binary: false,
+                insertions: 2,
+                deletions: 1,
+                hunks: [
+                    {
+                        header: "@@ -1,2 +1,3 @@",
+                        oldStart: 1,
+                        oldLines: 2,
+                        newStart: 1,
+                        newLines: 3,
+                        lines: [
+                            " const a = 1;",
+                            "-const b = 2;",
+                            "+const b = 3;",
+                            "+const c = 4;",
+                        ],
+                    },
+                ],
+            },
+            {
+                path: "src/new.ts",
+                oldPath: null,
+                status: "added",
+                binary: false,
+                insertions: 1,
+                deletions: 0,
+                hunks: [
+                    {
+                        header: "@@ -0,0 +1 @@",
+                        oldStart: 0,
+                        oldLines: 0,
+                        newStart: 1,
+                        newLines: 1,
+                        lines: ["+export const added = true;"],
+                    },
+                ],
+            },
+            {
+                path: "renamed.ts",
+                oldPath: "old.ts",
+                status: "renamed",
+                binary: false,
+                insertions: 0,
+                deletions: 0,
+                hunks: [],
+            },
+            {
+                path: "logo.png",
+                oldPath: null,
+                status: "deleted",
+                binary: true,
+                insertions: 0,
+                deletions: 0,
+                hunks: [],
+            },
+        ]);
+    });
+});
+
+describe("captureChanges", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/index.ts": "export const a = 1;\n",
+            "src/old.ts": "export const old = true;\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("captures commits, uncommitted changes and untracked files against the base commit", async () => {
+        const git = simpleGit(repositoryPath);
+        const baseCommit = (await git.revparse(["HEAD"])).trim();
+
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "index.ts"),
+            "export const a = 2;\n"
+        );
+        await commitChanges(git, "fix: change a", { files: ["src/index.ts"] });
+        fs.rmSync(path.join(repositoryPath, "src", "old.ts"));
+        fs.writeFileSync(
+            path.join(repositoryPath, "src", "new.ts"),
+            "export const added = true;\n"
+        );
+
+        const changes = await captureChanges(git, baseCommit);
+
+        expect(changes.files.map((file) => [file.path, file.status])).toEqual([
+            ["src/index.ts", "modified"],
+            ["src/new.ts", "added"],
+            ["src/old.ts", "deleted"],
+        ]);
+        expect(changes.insertions).toBe(2);
+        expect(changes.deletions).toBe(2);
+        expect(changes.baseCommit).toBe(baseCommit);
+    });
+
+    it("leaves untracked files untracked", async () => {
+        const git = simpleGit(repositoryPath);
+        const baseCommit = (await git.revparse(["HEAD"])).trim();
+        fs.writeFileSync(path.join(repositoryPath, "new.txt"), "new\n");
+
+        await captureChanges(git, baseCommit);
+
+        expect((await git.status()).not_added).toEqual(["new.txt"]);
+    });
+});
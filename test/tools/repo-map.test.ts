@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import simpleGit from "simple-git";
+import {
+    deleteTempAgentDirectory,
+    getWorkspaceCacheDirectory,
+} from "../../src/tools/file-system";
+import {
+    generateRepositoryMap,
+    getRepositoryMap,
+} from "../../src/tools/repo-map";
+import { createTestRepository } from "../helpers";
+
+describe("repository map", () => {
+    let repositoryPath: string;
+
+    beforeEach(async () => {
+        repositoryPath = await createTestRepository({
+            "src/math.ts":
+                "export function add(a: number, b: number) {\n    return a + b;\n}\nexport const ZERO = 0;\n",
+            "src/util/strings.ts":
+                "export class Formatter {}\nconst hidden = 1;\n",
+            "scripts/build.py":
+                "def build():\n    pass\n\nclass Builder:\n    pass\n",
+            "README.md": "# Project\n",
+        });
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(repositoryPath);
+    });
+
+    it("lists the directories and files with their sizes and exports", async () => {
+        const map = await generateRepositoryMap(repositoryPath);
+
+        expect(map.split("\n")[0]).toMatch(/^Repository map \(4 files, /);
+        expect(map).toContain("scripts/ (1 files, ");
+        expect(map).toContain("  build.py (");
+        expect(map).toMatch(/build\.py \([^)]+\): build, Builder/);
+        expect(map).toMatch(/math\.ts \([^)]+\): add, ZERO/);
+        expect(map).toMatch(/strings\.ts \([^)]+\): Formatter$/m);
+        expect(map).toMatch(/^README\.md \(10 B\)$/m);
+        expect(map).not.toContain(".git/");
+    });
+
+    it("skips symlinks that resolve outside the repository", async () => {
+        const outsidePath = fs.mkdtempSync(path.join(os.tmpdir(), "outside-"));
+        try {
+            fs.writeFileSync(
+                path.join(outsidePath, "secret.ts"),
+                "export const SECRET = 1;\n"
+            );
+            fs.symlinkSync(
+                path.join(outsidePath, "secret.ts"),
+                path.join(repositoryPath, "src", "secret.ts")
+            );
+
+            const map = await generateRepositoryMap(repositoryPath);
+
+            expect(map.split("\n")[0]).toMatch(/^Repository map \(4 files, /);
+            expect(map).not.toContain("secret.ts");
+            expect(map).not.toContain("SECRET");
+        } finally {
+            fs.rmSync(outsidePath, { recursive: true, force: true });
+        }
+    });
+
+    it("collapses the deepest directories until the map fits", async () => {
+        const map = await generateRepositoryMap(repositoryPath, {
+            maxLength: 120,
+        });
+
+        expect(map.length).toBeLessThanOrEqual(120);
+        expect(map).toContain("src/ (2 files, ");
+        expect(map).not.toContain("math.ts");
+    });
+
+    it("caches the map until the repository moves to another commit", async () => {
+        const firstMap = await getRepositoryMap(repositoryPath);
+        expect(
+            fs.existsSync(
+                path.join(
+                    getWorkspaceCacheDirectory(repositoryPath),
+                    "repo-map.json"
+                )
+            )
+        ).toBe(true);
+
+        fs.writeFileSync(path.join(repositoryPath, "extra.ts"), "export {};\n");
+        expect(await getRepositoryMap(repositoryPath)).toBe(firstMap);
+
+        const git = simpleGit(repositoryPath);
+        await git.add(".");
+        await git.commit("chore: add extra file");
+        expect(await getRepositoryMap(repositoryPath)).toContain("extra.ts");
+    });
+});
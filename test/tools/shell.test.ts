@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+} from "../../src/tools/file-system";
+import {
+    checkCommandPermitted,
+    DEFAULT_ALLOWED_COMMANDS,
+    runShellCommand,
+    scrubEnvironment,
+} from "../../src/tools/shell";
+
+describe("checkCommandPermitted", () => {
+    it("permits allowed programs, including in pipelines and with environment assignments", () => {
+        const options = { allowedCommands: ["npm", "npx", "head"] };
+
+        expect(checkCommandPermitted("npm test", options)).toBeNull();
+        expect(
+            checkCommandPermitted("CI=1 npx tsc --noEmit | head -n 20", options)
+        ).toBeNull();
+    });
+
+    it("rejects denied programs, also when they are not the first command", () => {
+        expect(checkCommandPermitted("curl http://example.com")).toMatch(
+            /'curl' is not permitted/
+        );
+        expect(
+            checkCommandPermitted("npm test && /usr/bin/curl example.com")
+        ).toMatch(/'curl' is not permitted/);
+    });
+
+    it("rejects programs that are not allowed, including in substitutions", () => {
+        const options = { allowedCommands: ["npm", "echo"] };
+
+        expect(checkCommandPermitted("rm -rf src", options)).toMatch(
+            /'rm' is not in the list of allowed commands/
+        );
+        expect(checkCommandPermitted("echo $(rm -rf src)", options)).toMatch(
+            /'rm'/
+        );
+        expect(checkCommandPermitted("echo `rm -rf src`", options)).toMatch(
+            /'rm'/
+        );
+    });
+});
+
+describe("checkCommandPermitted with the default allow list", () => {
+    const options = { allowedCommands: DEFAULT_ALLOWED_COMMANDS };
+
+    it("allows quoted arguments that look like shell syntax", () => {
+        expect(
+            checkCommandPermitted(
+                'grep -n "adds (numbers)" src/index.ts',
+                options
+            )
+        ).toBeNull();
+        expect(checkCommandPermitted("'r'm -rf src", options)).toMatch(/'rm'/);
+    });
+
+    it("rejects shells and wrappers unless they are explicitly allowed", () => {
+        expect(checkCommandPermitted('bash -c "rm -rf src"')).toMatch(
+            /'bash' runs other commands/
+        );
+        expect(checkCommandPermitted("find . | xargs rm")).toMatch(
+            /'xargs' runs other commands/
+        );
+        expect(
+            checkCommandPermitted("timeout 10 npm test", {
+                allowedCommands: ["timeout", "npm"],
+            })
+        ).toBeNull();
+        expect(
+            checkCommandPermitted("timeout 10 curl example.com", {
+                allowedCommands: ["timeout", "curl"],
+            })
+        ).toMatch(/'curl' is not permitted/);
+    });
+
+    it("rejects interpreters and package runners, which run any script or package", () => {
+        expect(checkCommandPermitted("node scripts/run.js", options)).toMatch(
+            /'node' is not in the list of allowed commands/
+        );
+        expect(checkCommandPermitted("npx cowsay hi", options)).toMatch(
+            /'npx' is not in the list of allowed commands/
+        );
+    });
+
+    it("rejects inline code unless the interpreter flag is explicitly allowed", () => {
+        const interpreters = { allowedCommands: ["node", "python3"] };
+
+        expect(
+            checkCommandPermitted("node -e \"require('fs')\"", interpreters)
+        ).toMatch(/'node -e' runs inline code/);
+        expect(
+            checkCommandPermitted("python3 -Sc 'print(1)'", interpreters)
+        ).toMatch(/runs inline code/);
+        expect(
+            checkCommandPermitted("node -e 1", {
+                allowedCommands: ["node", "node -e"],
+            })
+        ).toBeNull();
+    });
+});
+
+describe("checkCommandPermitted with paths", () => {
+    it("rejects paths outside the agent directory in arguments", () => {
+        expect(checkCommandPermitted("cat ../../.env")).toMatch(
+            /'..\/..\/.env' refers to a path outside the agent directory/
+        );
+        expect(checkCommandPermitted("cd src && cat ../../.env")).toMatch(
+            /outside the agent directory/
+        );
+        expect(checkCommandPermitted("cat /etc/passwd")).toMatch(
+            /'\/etc\/passwd' refers to a path outside/
+        );
+        expect(checkCommandPermitted("cat ~/.ssh/id_rsa")).toMatch(
+            /outside the agent directory/
+        );
+        expect(checkCommandPermitted("cat $HOME/.npmrc")).toMatch(
+            /outside the agent directory/
+        );
+        expect(checkCommandPermitted("npm install --prefix=/usr")).toMatch(
+            /'--prefix=\/usr' refers to a path outside/
+        );
+        expect(checkCommandPermitted("DIR=.. ls $DIR")).toMatch(
+            /outside the agent directory/
+        );
+    });
+
+    it("rejects globs and brace expansions that can match parent directories", () => {
+        expect(checkCommandPermitted("cat .*/.env")).toMatch(
+            /outside the agent directory/
+        );
+        expect(checkCommandPermitted("cat {.,.}./.env")).toMatch(
+            /outside the agent directory/
+        );
+    });
+
+    it("rejects redirections outside the agent directory", () => {
+        expect(checkCommandPermitted("echo x > /tmp/escaped")).toMatch(
+            /outside the agent directory/
+        );
+        expect(checkCommandPermitted("echo x >/tmp/escaped")).toMatch(
+            /'>\/tmp\/escaped' refers to a path outside/
+        );
+        expect(checkCommandPermitted("echo x 2>>../log")).toMatch(
+            /outside the agent directory/
+        );
+    });
+
+    it("allows paths inside the agent directory", () => {
+        expect(
+            checkCommandPermitted("cat src/index.ts > out/index.txt 2>&1")
+        ).toBeNull();
+        expect(checkCommandPermitted("ls .github ./src")).toBeNull();
+        expect(checkCommandPermitted("grep -r v1..v2 CHANGELOG.md")).toBeNull();
+    });
+});
+
+describe("scrubEnvironment", () => {
+    it("removes secrets and points HOME at the agent directory", () => {
+        process.env.OPENAI_API_KEY = "secret";
+        try {
+            const env = scrubEnvironment("/tmp/agent", { EXTRA: "1" });
+
+            expect(env.OPENAI_API_KEY).toBeUndefined();
+            expect(env.HOME).toBe("/tmp/agent");
+            expect(env.EXTRA).toBe("1");
+        } finally {
+            delete process.env.OPENAI_API_KEY;
+        }
+    });
+});
+
+describe("runShellCommand", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("runs the command in the agent directory", async () => {
+        const result = await runShellCommand(tempPath, "pwd");
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output.trim()).toBe(tempPath);
+    });
+
+    it("keeps the home directory of commands out of the repository", async () => {
+        const result = await runShellCommand(tempPath, "cd && pwd");
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output.trim().startsWith(tempPath)).toBe(false);
+    });
+
+    it("never writes outside the agent directory through a redirection", async () => {
+        const outsideFile = `${tempPath}-escaped.txt`;
+
+        await expect(
+            runShellCommand(
+                tempPath,
+                `echo escaped > ../${path.basename(outsideFile)}`
+            )
+        ).rejects.toThrow(/Command not permitted/);
+        expect(fs.existsSync(outsideFile)).toBe(false);
+    });
+
+    it("rejects working directories outside the agent directory", async () => {
+        await expect(runShellCommand(tempPath, "ls", "../")).rejects.toThrow(
+            /Access denied/
+        );
+    });
+
+    it("rejects commands that are not permitted before running them", async () => {
+        await expect(
+            runShellCommand(tempPath, "curl example.com")
+        ).rejects.toThrow(/Command not permitted/);
+    });
+
+    it("stops commands that run past the timeout", async () => {
+        const result = await runShellCommand(tempPath, "sleep 5", ".", {
+            timeoutMs: 200,
+        });
+
+        expect(result.timedOut).toBe(true);
+        expect(result.exitCode).not.toBe(0);
+    });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+} from "../../src/tools/file-system";
+import { detectTestCommand, runTestCommand } from "../../src/tools/testing";
+
+describe("detectTestCommand", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    const writePackageJson = (scripts: Record<string, string>) =>
+        fs.writeFileSync(
+            path.join(tempPath, "package.json"),
+            JSON.stringify({ name: "project", scripts: scripts })
+        );
+
+    it("runs the npm test script", () => {
+        writePackageJson({ test: "vitest run" });
+
+        expect(detectTestCommand(tempPath)).toBe("npm test");
+    });
+
+    it("ignores the placeholder test script written by npm init", () => {
+        writePackageJson({ test: 'echo "Error: no test specified" && exit 1' });
+
+        expect(detectTestCommand(tempPath)).toBeNull();
+    });
+
+    it("detects other project types", () => {
+        fs.writeFileSync(path.join(tempPath, "go.mod"), "module example\n");
+
+        expect(detectTestCommand(tempPath)).toBe("go test ./...");
+    });
+
+    it("returns null for unknown project types", () => {
+        fs.writeFileSync(path.join(tempPath, "README.md"), "# Project\n");
+
+        expect(detectTestCommand(tempPath)).toBeNull();
+    });
+});
+
+describe("runTestCommand", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+    });
+
+    afterEach(() => {
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("passes when the command exits with zero", async () => {
+        const result = await runTestCommand(tempPath, "echo ok");
+
+        expect(result.passed).toBe(true);
+        expect(result.exitCode).toBe(0);
+        expect(result.output).toContain("ok");
+    });
+
+    it("fails when the command exits with an error", async () => {
+        const result = await runTestCommand(
+            tempPath,
+            "echo broken >&2; exit 3"
+        );
+
+        expect(result.passed).toBe(false);
+        expect(result.exitCode).toBe(3);
+        expect(result.output).toContain("broken");
+    });
+
+    it("kills commands that run past the timeout", async () => {
+        const result = await runTestCommand(tempPath, "sleep 5", {
+            timeoutMs: 200,
+        });
+
+        expect(result.passed).toBe(false);
+        expect(result.timedOut).toBe(true);
+    });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    createTempAgentDirectory,
+    deleteTempAgentDirectory,
+} from "../../src/tools/file-system";
+import {
+    FindDefinition,
+    FindReferences,
+    GetTypeSignature,
+    ListExports,
+    unloadTypeScriptProject,
+} from "../../src/tools/typescript";
+
+describe("TypeScript tools", () => {
+    let tempPath: string;
+
+    beforeEach(() => {
+        tempPath = createTempAgentDirectory();
+        fs.mkdirSync(path.join(tempPath, "src"));
+        fs.writeFileSync(
+            path.join(tempPath, "src", "math.ts"),
+            [
+                "/** Adds two numbers. */",
+                "export function add(a: number, b: number): number {",
+                "    return a + b;",
+                "}",
+                "",
+                "export const ZERO = 0;",
+            ].join("\n")
+        );
+        fs.writeFileSync(
+            path.join(tempPath, "src", "index.ts"),
+            [
+                'import { add, ZERO } from "./math";',
+                "",
+                "export const total = add(ZERO, add(1, 2));",
+            ].join("\n")
+        );
+    });
+
+    afterEach(() => {
+        unloadTypeScriptProject(tempPath);
+        deleteTempAgentDirectory(tempPath);
+    });
+
+    it("lists the exports of a file with their signatures", async () => {
+        const result = await ListExports(tempPath, "test").invoke({
+            filePath: "src/math.ts",
+        });
+
+        expect(result).toContain("src/math.ts exports 2 symbols:");
+        expect(result).toContain(
+            "src/math.ts:2: export function add(a: number, b: number): number {"
+        );
+        expect(result).toContain("Adds two numbers.");
+        expect(result).toContain("const ZERO: 0");
+    });
+
+    it("follows imports to the definition of a symbol", async () => {
+        const result = await FindDefinition(tempPath, "test").invoke({
+            symbol: "add",
+            filePath: "src/index.ts",
+        });
+
+        expect(result.split("\n")[0]).toBe(
+            "src/math.ts:2: export function add(a: number, b: number): number {"
+        );
+    });
+
+    it("finds every reference to a symbol across the project", async () => {
+        const result = await FindReferences(tempPath, "test").invoke({
+            symbol: "add",
+        });
+
+        expect(result).toContain("Found 4 references to 'add'");
+        expect(result).toContain("[definition]");
+        expect(result).toContain(
+            "src/index.ts:3: export const total = add(ZERO, add(1, 2));"
+        );
+    });
+
+    it("prints the type signature of a symbol", async () => {
+        const result = await GetTypeSignature(tempPath, "test").invoke({
+            symbol: "add",
+        });
+
+        expect(result).toContain(
+            "function add(a: number, b: number): number\nAdds two numbers."
+        );
+    });
+
+    it("returns an error for unknown symbols", async () => {
+        const result = await GetTypeSignature(tempPath, "test").invoke({
+            symbol: "subtract",
+        });
+
+        expect(result).toMatch(/^Error getting type signature/);
+    });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import * as fs from "fs";
+import * as path from "path";
+import simpleGit from "simple-git";
+import { deleteTempAgentDirectory } from "../../src/tools/file-system";
+import { WorkspaceManager } from "../../src/tools/workspace";
+import { createTestRepository } from "../helpers";
+
+describe("WorkspaceManager", () => {
+    let basePath: string;
+    let manager: WorkspaceManager;
+
+    beforeEach(async () => {
+        basePath = await createTestRepository({ "notes.txt": "base\n" });
+        manager = new WorkspaceManager(basePath);
+    });
+
+    afterEach(async () => {
+        await manager.dispose();
+        deleteTempAgentDirectory(basePath);
+    });
+
+    /**
+     * Writes a file in a workspace and commits it.
+     * @param {string} workspacePath - The path to the workspace.
+     * @param {string} fileName - The name of the file to write.
+     * @param {string} content - The content of the file.
+     * @returns {Promise<void>} A promise that resolves when the file is committed.
+     */
+    const commitFile = async (
+        workspacePath: string,
+        fileName: string,
+        content: string
+    ): Promise<void> => {
+        fs.writeFileSync(path.join(workspacePath, fileName), content);
+        const git = simpleGit(workspacePath);
+        await git.add(fileName);
+        await git.commit(`feat: write ${fileName}`);
+    };
+
+    it("creates a worktree on its own branch from the base clone", async () => {
+        const workspace = await manager.createWorkspace("writer");
+
+        expect(workspace.branch).toBe("agents/writer");
+        expect(
+            fs.readFileSync(path.join(workspace.path, "notes.txt"), "utf-8")
+        ).toBe("base\n");
+        expect(
+            (
+                await simpleGit(workspace.path).revparse([
+                    "--abbrev-ref",
+                    "HEAD",
+                ])
+            ).trim()
+        ).toBe("agents/writer");
+    });
+
+    it("merges or cherry-picks the commits of a workspace into the base clone", async () => {
+        const writer = await manager.createWorkspace("writer");
+        const tester = await manager.createWorkspace("tester");
+        await commitFile(writer.path, "feature.txt", "feature\n");
+        await commitFile(tester.path, "feature.test.txt", "test\n");
+
+        const merged = await manager.integrateWorkspace(writer);
+        const picked = await manager.integrateWorkspace(tester, "cherry-pick");
+
+        expect(merged).toMatchObject({ success: true, conflicts: [] });
+        expect(merged.commits).toHaveLength(1);
+        expect(picked).toMatchObject({ success: true, conflicts: [] });
+        expect(fs.existsSync(path.join(basePath, "feature.txt"))).toBe(true);
+        expect(fs.existsSync(path.join(basePath, "feature.test.txt"))).toBe(
+            true
+        );
+    });
+
+    it("aborts conflicting integrations and leaves the base clone unchanged", async () => {
+        const writer = await manager.createWorkspace("writer");
+        const reviewer = await manager.createWorkspace("reviewer");
+        await commitFile(writer.path, "notes.txt", "writer\n");
+        await commitFile(reviewer.path, "notes.txt", "reviewer\n");
+        await manager.integrateWorkspace(writer);
+        const head = (await simpleGit(basePath).revparse(["HEAD"])).trim();
+
+        const result = await manager.integrateWorkspace(reviewer);
+
+        expect(result.success).toBe(false);
+        expect(result.conflicts).toEqual(["notes.txt"]);
+        expect((await simpleGit(basePath).revparse(["HEAD"])).trim()).toBe(
+            head
+        );
+        expect((await simpleGit(basePath).status()).isClean()).toBe(true);
+    });
+
+    it("does not integrate workspaces with uncommitted changes", async () => {
+        const writer = await manager.createWorkspace("writer");
+        await commitFile(writer.path, "feature.txt", "feature\n");
+        fs.writeFileSync(path.join(writer.path, "draft.txt"), "draft\n");
+        const head = (await simpleGit(basePath).revparse(["HEAD"])).trim();
+
+        const result = await manager.integrateWorkspace(writer);
+
+        expect(result.success).toBe(false);
+        expect(result.uncommitted).toEqual(["draft.txt"]);
+        expect((await simpleGit(basePath).revparse(["HEAD"])).trim()).toBe(
+            head
+        );
+        expect(fs.existsSync(path.join(basePath, "feature.txt"))).toBe(false);
+        expect(fs.existsSync(path.join(basePath, "draft.txt"))).toBe(false);
+    });
+
+    it("brings a workspace up to date with work integrated from other agents", async () => {
+        const writer = await manager.createWorkspace("writer");
+        const tester = await manager.createWorkspace("tester");
+        await commitFile(writer.path, "feature.txt", "feature\n");
+        await manager.integrateWorkspace(writer);
+
+        await manager.syncWorkspace(tester);
+
+        expect(fs.existsSync(path.join(tester.path, "feature.txt"))).toBe(true);
+    });
+});
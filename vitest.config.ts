@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        // Agent tests clone repositories and run whole graphs, which takes a while on slow machines
+        testTimeout: 60_000,
+        env: {
+            // Log as plain JSON, as every pino-pretty transport starts a worker thread
+            ENVIRONMENT: "production",
+            // The search tool needs an API base to be created, although the scripted models never call it
+            SEARXNG_API_BASE: "http://localhost:8080",
+        },
+    },
+});